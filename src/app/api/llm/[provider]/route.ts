@@ -0,0 +1,102 @@
+import { BuiltInProvider } from "@/types";
+import { getProvider } from "@/lib/providers/registry";
+import { fetchProvider } from "@/lib/providers/transport";
+import { clampParams } from "@/lib/generation-params";
+import { LLM_PROXY_ENABLED, ProxyRequestBody, SERVER_KEY_ENV } from "@/lib/llm-proxy";
+import { getServerKey, jsonError, rateLimitResponse, resolveModel } from "@/lib/proxy-server";
+
+/** Upstream headers the client's retry logic reads */
+const FORWARDED_HEADERS = ["retry-after", "retry-after-ms"];
+
+/**
+ * Builds the provider request server-side from the chat input and streams the
+ * provider's response back unchanged. Provider errors keep their status so
+ * the client retries and fails over exactly as it would when calling direct.
+ */
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ provider: string }> }
+) {
+    if (!LLM_PROXY_ENABLED) return jsonError(404, "The LLM proxy is disabled");
+
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const { provider } = await params;
+    let input: ProxyRequestBody;
+    try {
+        input = await request.json();
+    } catch {
+        return jsonError(400, "Invalid JSON body");
+    }
+
+    if (typeof input.model !== "string" || !Array.isArray(input.messages)) {
+        return jsonError(400, "Expected a model and messages");
+    }
+    const config = resolveModel(provider, input.model);
+    if (!config) {
+        return jsonError(403, `${input.model} is not available through this server`);
+    }
+    const adapter = getProvider(provider);
+    const apiKey = getServerKey(provider as BuiltInProvider);
+    if (!adapter || !apiKey) {
+        // Not retryable, so the client moves straight on to its fallbacks
+        return jsonError(501, `${adapter?.name ?? provider} is not configured on this server`);
+    }
+
+    const providerRequest = adapter.buildRequest({
+        messages: input.messages,
+        systemPrompt: input.systemPrompt,
+        config,
+        reasoning: input.reasoning && config.supportsReasoning,
+        images: input.images ? new Map(Object.entries(input.images)) : undefined,
+        params: input.params && clampParams(input.params, config),
+        tools: Array.isArray(input.tools) ? input.tools : undefined,
+        responseFormat: input.responseFormat?.schema ? input.responseFormat : undefined,
+    });
+
+    let upstream: Response;
+    try {
+        upstream = await fetchProvider(adapter, providerRequest, apiKey, request.signal);
+    } catch (err) {
+        return jsonError(502, `Could not reach ${adapter.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    const headers = new Headers({
+        "Content-Type": upstream.headers.get("content-type") ?? "text/event-stream",
+        "Cache-Control": "no-cache",
+    });
+    for (const name of FORWARDED_HEADERS) {
+        const value = upstream.headers.get(name);
+        if (value) headers.set(name, value);
+    }
+    return new Response(upstream.body, { status: upstream.status, headers });
+}
+
+/** The provider's model list, for catalog refresh */
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ provider: string }> }
+) {
+    if (!LLM_PROXY_ENABLED) return jsonError(404, "The LLM proxy is disabled");
+
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const { provider } = await params;
+    const adapter = provider in SERVER_KEY_ENV ? getProvider(provider) : undefined;
+    if (!adapter?.buildModelsRequest) return jsonError(404, `Unknown provider: ${provider}`);
+    const apiKey = getServerKey(provider as BuiltInProvider);
+    if (!apiKey) return jsonError(501, `${adapter.name} is not configured on this server`);
+
+    let upstream: Response;
+    try {
+        upstream = await fetchProvider(adapter, adapter.buildModelsRequest(), apiKey, request.signal);
+    } catch (err) {
+        return jsonError(502, `Could not reach ${adapter.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return new Response(upstream.body, {
+        status: upstream.status,
+        headers: { "Content-Type": upstream.headers.get("content-type") ?? "application/json" },
+    });
+}
@@ -0,0 +1,46 @@
+import { LLM_PROXY_ENABLED } from "@/lib/llm-proxy";
+import { getServerKey, jsonError, rateLimitResponse } from "@/lib/proxy-server";
+
+/** Whisper's own upload limit; anything bigger would only be rejected upstream */
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+/** Voice input in proxy mode: forwards the recording to Whisper with the server's OpenAI key */
+export async function POST(request: Request) {
+    if (!LLM_PROXY_ENABLED) return jsonError(404, "The LLM proxy is disabled");
+
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const apiKey = getServerKey("openai");
+    if (!apiKey) return jsonError(501, "OpenAI is not configured on this server");
+
+    // Checked up front when declared, and again on the parsed upload for chunked bodies
+    if (Number(request.headers.get("content-length")) > MAX_UPLOAD_BYTES) {
+        return jsonError(413, "Recording is too large to transcribe");
+    }
+    let formData: FormData;
+    try {
+        formData = await request.formData();
+    } catch {
+        return jsonError(400, "Expected multipart form data");
+    }
+    const file = formData.get("file");
+    if (!(file instanceof Blob)) return jsonError(400, "Expected an audio file");
+    if (file.size > MAX_UPLOAD_BYTES) return jsonError(413, "Recording is too large to transcribe");
+
+    let upstream: Response;
+    try {
+        upstream = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+            method: "POST",
+            headers: { Authorization: `Bearer ${apiKey}` },
+            body: formData,
+            signal: request.signal,
+        });
+    } catch (err) {
+        return jsonError(502, `Could not reach OpenAI: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return new Response(upstream.body, {
+        status: upstream.status,
+        headers: { "Content-Type": upstream.headers.get("content-type") ?? "application/json" },
+    });
+}
@@ -3,12 +3,13 @@
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useProjectStore } from "@/store/project-store";
 import { useSettingsStore } from "@/store/settings-store";
-import { LLM_MODELS } from "@/types";
+import { getModelConfig } from "@/lib/providers/registry";
 import Sidebar from "@/components/sidebar";
 import ChatPanel from "@/components/chat-panel";
 import SandboxPanel from "@/components/sandbox-panel";
 import SettingsModal from "@/components/settings-modal";
 import ExportModal from "@/components/export-modal";
+import DocumentsModal from "@/components/documents-modal";
 import UsageGuide from "@/components/usage-guide";
 
 export default function Home() {
@@ -26,6 +27,7 @@ export default function Home() {
 
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [exportOpen, setExportOpen] = useState(false);
+  const [documentsOpen, setDocumentsOpen] = useState(false);
   const [loaded, setLoaded] = useState(false);
 
   // Load persisted state
@@ -35,6 +37,7 @@ export default function Home() {
   }, [loadFromStorage, loadFromDB]);
 
   const conversation = getActiveConversation();
+  const headerModel = conversation?.model ?? activeLLMModel;
   const activeProject = projects.find((p) => p.id === activeProjectId);
 
   if (!loaded) {
@@ -101,9 +104,20 @@ export default function Home() {
 
           {/* Model badge - hidden on small screens */}
           <div className="mr-2 hidden md:block rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-2 py-0.5 text-xs text-[var(--accent-dim)]">
-            {LLM_MODELS.find((m) => m.id === activeLLMModel)?.name || activeLLMModel}
+            {getModelConfig(headerModel)?.name || headerModel}
           </div>
 
+          <button
+            onClick={() => setDocumentsOpen(true)}
+            disabled={!activeProject}
+            className="flex h-8 items-center gap-1.5 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-2 sm:px-3 text-xs text-[var(--accent-muted)] transition-colors hover:bg-[var(--bg-elevated)] disabled:opacity-30"
+            title="Project reference documents"
+          >
+            📚 <span className="hidden sm:inline">Docs</span>
+            {activeProject?.documents?.length ? (
+              <span className="text-[var(--accent-dim)]">{activeProject.documents.length}</span>
+            ) : null}
+          </button>
           <button
             onClick={() => setExportOpen(true)}
             disabled={!activeConversationId}
@@ -127,6 +141,7 @@ export default function Home() {
       {/* Modals */}
       <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
       <ExportModal isOpen={exportOpen} onClose={() => setExportOpen(false)} />
+      <DocumentsModal isOpen={documentsOpen} onClose={() => setDocumentsOpen(false)} />
       <UsageGuide />
     </div>
   );
@@ -1,13 +1,37 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
+import Image from "next/image";
 import Markdown from "@/components/markdown";
 import { useProjectStore } from "@/store/project-store";
 import { useSettingsStore } from "@/store/settings-store";
-import { streamChat } from "@/lib/llm-client";
-import { PHASE_SPEC_PROMPTS } from "@/lib/system-prompt";
+import { StreamEvent, continuationMessages, streamChat } from "@/lib/llm-client";
+import { PHASE_SPEC_PROMPTS, SYSTEM_PROMPT, specRequestMessages } from "@/lib/system-prompt";
+import { withReferenceDocuments } from "@/lib/documents";
 import { extractUiPreviews, getLatestUiPreview, hasCompleteUiPreview } from "@/lib/ui-parser";
-import { getModelConfig, ConversationPhase } from "@/types";
+import { ARCHITECT_TOOLS, ProposedOption, parseArchitectAction, replaceSpecSection } from "@/lib/architect-tools";
+import { parseSpec, renderSpecMarkdown, specResponseFormat } from "@/lib/spec-schema";
+import { formatUsage, getConversationUsage, sumUsage } from "@/lib/usage";
+import { prepareContext } from "@/lib/context-manager";
+import {
+    SUPPORTED_IMAGE_TYPES,
+    deleteAttachments,
+    getAttachmentBlob,
+    saveImageAttachment,
+} from "@/lib/attachments";
+import { getModelConfig, listModels } from "@/lib/providers/registry";
+import {
+    Attachment,
+    Conversation,
+    ConversationPhase,
+    LLMModel,
+    Message,
+    MessageCandidate,
+    StopReason,
+    ThinkingBlock,
+    TokenUsage,
+    ToolCall,
+} from "@/types";
 import MicButton from "./mic-button";
 
 const PHASE_ORDER: ConversationPhase[] = ["vision", "design", "stack", "export"];
@@ -18,25 +42,47 @@ const PHASE_LABELS: Record<ConversationPhase, string> = {
     export: "Implementation",
 };
 
+/** Follow-up requests per reply when auto-continue is on */
+const MAX_AUTO_CONTINUATIONS = 3;
+
+/** Models answering one turn in compare mode, the active one included */
+const MAX_COMPARE_MODELS = 3;
+
 export default function ChatPanel() {
     const {
         activeConversationId,
         isStreaming,
         getActiveConversation,
         addMessage,
-        appendToLastAssistant,
         setStreaming,
         setSandboxCode,
         setPhase,
-        setSpecDoc,
+        updateLastAssistant,
         createProject,
         createConversation,
         setSidebarOpen,
     } = useProjectStore();
 
-    const { activeLLMModel, getKeyForProvider, isConfigured } = useSettingsStore();
+    const {
+        getModelForTask,
+        getParams,
+        getKeyForModel,
+        getFallbackChain,
+        hasKeyForModel,
+        maxRetries,
+        autoContinue,
+        reasoningModels,
+        compareModels,
+        isConfigured,
+    } = useSettingsStore();
+    const maxContinuations = autoContinue ? MAX_AUTO_CONTINUATIONS : 0;
 
     const [input, setInput] = useState("");
+    const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+    const [attachError, setAttachError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [compareMode, setCompareMode] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const abortRef = useRef<AbortController | null>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -44,6 +90,14 @@ export default function ChatPanel() {
     const conversation = getActiveConversation();
     const messages = conversation?.messages || [];
     const currentPhase = conversation?.phase || "vision";
+    // A model picked for this conversation wins over the settings
+    const conversationModel = conversation?.model;
+    const chatModel =
+        conversationModel && hasKeyForModel(conversationModel)
+            ? conversationModel
+            : getModelForTask(`chat:${currentPhase}`);
+    // A compared turn blocks the conversation until one reply is kept
+    const pendingPick = !isStreaming && !!messages[messages.length - 1]?.candidates;
 
     // Auto-scroll on new messages
     useEffect(() => {
@@ -61,78 +115,218 @@ export default function ChatPanel() {
 
     // Shared streaming logic
     const startStream = useCallback(
-        (text: string, onSpecDone?: (fullResponse: string) => void) => {
+        async (
+            text: string,
+            attachments: Attachment[] = [],
+            onSpecDone?: (fullResponse: string) => void
+        ) => {
             if (!activeConversationId || !isConfigured) return;
 
             const abortController = new AbortController();
             abortRef.current = abortController;
 
-            let fullResponse = "";
-
-            const config = getModelConfig(activeLLMModel);
-            const apiKey = getKeyForProvider(config.provider);
+            const apiKey = getKeyForModel(chatModel);
 
-            streamChat({
-                messages: [
+            const context = await buildRequestContext(
+                activeConversationId,
+                [
                     ...messages,
-                    { id: "", role: "user", content: text, timestamp: Date.now() },
+                    { id: "", role: "user", content: text, timestamp: Date.now(), attachments },
                 ],
+                chatModel,
                 apiKey,
-                model: activeLLMModel,
-                signal: abortController.signal,
-                onChunk: (chunk) => {
-                    fullResponse += chunk;
-                    appendToLastAssistant(activeConversationId, chunk);
-
-                    if (hasCompleteUiPreview(fullResponse)) {
-                        const preview = getLatestUiPreview(fullResponse);
-                        if (preview) {
-                            setSandboxCode(activeConversationId, preview);
+                abortController.signal
+            );
+            if (!context) {
+                setStreaming(false);
+                abortRef.current = null;
+                return;
+            }
+
+            let shownPreview: string | null = null;
+            const outcome = await streamReply(
+                lastAssistantTarget(activeConversationId),
+                streamChat({
+                    messages: context.messages,
+                    systemPrompt: context.systemPrompt,
+                    apiKey,
+                    model: chatModel,
+                    fallbacks: getFallbackChain(chatModel),
+                    maxRetries,
+                    maxContinuations,
+                    reasoning: reasoningModels.includes(chatModel),
+                    params: getParams(chatModel, `chat:${currentPhase}`),
+                    tools: ARCHITECT_TOOLS,
+                    signal: abortController.signal,
+                }),
+                {
+                    // Models without tools send previews as <ui_preview> tags instead
+                    onText: (fullResponse) => {
+                        if (hasCompleteUiPreview(fullResponse)) {
+                            const preview = getLatestUiPreview(fullResponse);
+                            if (preview && preview !== shownPreview) {
+                                shownPreview = preview;
+                                setSandboxCode(activeConversationId, preview);
+                            }
                         }
-                    }
-                },
-                onDone: () => {
-                    setStreaming(false);
-                    abortRef.current = null;
-                    if (onSpecDone) onSpecDone(fullResponse);
-                    useProjectStore.getState().persistAll();
-                },
-                onError: (error) => {
-                    appendToLastAssistant(
-                        activeConversationId,
-                        `\n\n**Error:** ${error.message}`
-                    );
-                    setStreaming(false);
-                    abortRef.current = null;
-                },
-            });
+                    },
+                }
+            );
+
+            setStreaming(false);
+            abortRef.current = null;
+            if (outcome.stopReason) {
+                if (onSpecDone) onSpecDone(outcome.text);
+                useProjectStore.getState().persistAll();
+            }
         },
         [
             activeConversationId,
             isConfigured,
             messages,
-            activeLLMModel,
-            getKeyForProvider,
-            appendToLastAssistant,
+            chatModel,
+            getKeyForModel,
+            getFallbackChain,
+            getParams,
+            currentPhase,
+            maxRetries,
+            maxContinuations,
+            reasoningModels,
             setSandboxCode,
             setStreaming,
         ]
     );
 
+    // Compare mode: the same turn streamed from several models side by side
+    const startCompare = useCallback(
+        async (models: LLMModel[]) => {
+            const store = useProjectStore.getState();
+            const conversation = store.conversations.find((c) => c.id === activeConversationId);
+            if (!activeConversationId || !conversation) return;
+
+            const abortController = new AbortController();
+            abortRef.current = abortController;
+
+            await store.updateLastAssistant(activeConversationId, {
+                candidates: models.map((model) => ({ model, content: "", streaming: true })),
+            });
+
+            // Up to and including the new user turn, without the reply being compared
+            const history = conversation.messages.slice(0, -1);
+            // One at a time: compaction updates the conversation's shared running summary
+            const contexts: RequestContext[] = [];
+            for (const model of models) {
+                const context = await buildRequestContext(
+                    activeConversationId,
+                    history,
+                    model,
+                    getKeyForModel(model),
+                    abortController.signal
+                );
+                if (!context) {
+                    await store.updateLastAssistant(activeConversationId, { candidates: undefined });
+                    setStreaming(false);
+                    abortRef.current = null;
+                    return;
+                }
+                contexts.push(context);
+            }
+
+            await Promise.all(
+                models.map(async (model, i) => {
+                    await streamReply(
+                        candidateTarget(activeConversationId, i),
+                        streamChat({
+                            messages: contexts[i].messages,
+                            systemPrompt: contexts[i].systemPrompt,
+                            apiKey: getKeyForModel(model),
+                            model,
+                            // Each column is labelled with its model, so none fails over to another
+                            fallbacks: [],
+                            maxRetries,
+                            maxContinuations,
+                            reasoning: reasoningModels.includes(model),
+                            params: getParams(model, `chat:${currentPhase}`),
+                            tools: ARCHITECT_TOOLS,
+                            signal: abortController.signal,
+                        })
+                    );
+                    await store.updateCandidate(activeConversationId, i, { streaming: undefined });
+                })
+            );
+
+            setStreaming(false);
+            abortRef.current = null;
+            store.persistAll();
+        },
+        [
+            activeConversationId,
+            getKeyForModel,
+            getParams,
+            currentPhase,
+            maxRetries,
+            maxContinuations,
+            reasoningModels,
+            setStreaming,
+        ]
+    );
+
     const handleSend = useCallback(async () => {
         const text = input.trim();
-        if (!text || !activeConversationId || !isConfigured || isStreaming) return;
+        const attachments = pendingAttachments;
+        if ((!text && attachments.length === 0) || !activeConversationId || !isConfigured || isStreaming || pendingPick) return;
+
+        const lineup = compareMode ? compareLineup(chatModel, compareModels, hasKeyForModel) : [];
 
         setInput("");
-        await addMessage(activeConversationId, "user", text);
+        setPendingAttachments([]);
+        setAttachError(null);
+        await addMessage(activeConversationId, "user", text, attachments);
         await addMessage(activeConversationId, "assistant", "");
         setStreaming(true);
-        startStream(text);
-    }, [input, activeConversationId, isConfigured, isStreaming, addMessage, setStreaming, startStream]);
+        if (lineup.length > 1) {
+            startCompare(lineup);
+        } else {
+            startStream(text, attachments);
+        }
+    }, [
+        input,
+        pendingAttachments,
+        activeConversationId,
+        isConfigured,
+        isStreaming,
+        pendingPick,
+        compareMode,
+        chatModel,
+        compareModels,
+        hasKeyForModel,
+        addMessage,
+        setStreaming,
+        startStream,
+        startCompare,
+    ]);
+
+    // ── Image attachments (picker, paste, drag & drop) ──
+    const addFiles = useCallback(async (files: File[]) => {
+        setAttachError(null);
+        for (const file of files) {
+            try {
+                const attachment = await saveImageAttachment(file);
+                setPendingAttachments((prev) => [...prev, attachment]);
+            } catch (error) {
+                setAttachError(error instanceof Error ? error.message : String(error));
+            }
+        }
+    }, []);
+
+    const removePendingAttachment = useCallback((attachment: Attachment) => {
+        setPendingAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+        deleteAttachments([attachment]);
+    }, []);
 
     const handleVoiceTranscript = useCallback(
         async (transcript: string) => {
-            if (!transcript.trim() || !activeConversationId) return;
+            if (!transcript.trim() || !activeConversationId || pendingPick) return;
             setInput(transcript);
             await addMessage(activeConversationId, "user", transcript);
             await addMessage(activeConversationId, "assistant", "");
@@ -140,17 +334,29 @@ export default function ChatPanel() {
             startStream(transcript);
             setInput("");
         },
-        [activeConversationId, addMessage, setStreaming, startStream]
+        [activeConversationId, pendingPick, addMessage, setStreaming, startStream]
+    );
+
+    // ── Option cards: picking one answers the proposal ──
+    const handleChooseOption = useCallback(
+        async (option: ProposedOption) => {
+            if (!activeConversationId || !isConfigured || isStreaming || pendingPick) return;
+            const text = `Let's go with **${option.name}**.`;
+            await addMessage(activeConversationId, "user", text);
+            await addMessage(activeConversationId, "assistant", "");
+            setStreaming(true);
+            startStream(text);
+        },
+        [activeConversationId, isConfigured, isStreaming, pendingPick, addMessage, setStreaming, startStream]
     );
 
     // ── Lock Phase & Generate Spec ──
     const handleLockPhase = useCallback(async () => {
-        if (!activeConversationId || isStreaming || !isConfigured) return;
+        if (!activeConversationId || isStreaming || !isConfigured || pendingPick) return;
 
         const phase = currentPhase;
         const nextPhaseIdx = PHASE_ORDER.indexOf(phase) + 1;
-        const specPrompt = PHASE_SPEC_PROMPTS[phase];
-        if (!specPrompt) return;
+        if (!PHASE_SPEC_PROMPTS[phase]) return;
 
         // Send a system-like user message indicating the lock
         await addMessage(
@@ -159,69 +365,157 @@ export default function ChatPanel() {
             `✅ I'm locking the **${PHASE_LABELS[phase]}** phase. Generate the spec document.`
         );
         await addMessage(activeConversationId, "assistant", "");
+        await updateLastAssistant(activeConversationId, { specPhase: phase });
         setStreaming(true);
 
         // Stream the spec generation and save to specDocs on completion
-        const config = getModelConfig(activeLLMModel);
-        const apiKey = getKeyForProvider(config.provider);
+        const model = getModelForTask("spec", conversationModel);
+        const apiKey = getKeyForModel(model);
 
         const abortController = new AbortController();
         abortRef.current = abortController;
-        let fullResponse = "";
 
-        streamChat({
-            messages: [
-                ...messages,
-                {
-                    id: "",
-                    role: "user",
-                    content: specPrompt,
-                    timestamp: Date.now(),
-                },
-            ],
+        const context = await buildRequestContext(
+            activeConversationId,
+            specRequestMessages(messages, phase),
+            model,
             apiKey,
-            model: activeLLMModel,
-            signal: abortController.signal,
-            onChunk: (chunk) => {
-                fullResponse += chunk;
-                appendToLastAssistant(activeConversationId, chunk);
-            },
-            onDone: async () => {
-                setStreaming(false);
-                abortRef.current = null;
+            abortController.signal
+        );
+        if (!context) {
+            setStreaming(false);
+            abortRef.current = null;
+            return;
+        }
+
+        const outcome = await streamReply(
+            lastAssistantTarget(activeConversationId),
+            streamChat({
+                messages: context.messages,
+                systemPrompt: context.systemPrompt,
+                apiKey,
+                model: model,
+                fallbacks: getFallbackChain(model),
+                maxRetries,
+                maxContinuations,
+                reasoning: reasoningModels.includes(model),
+                params: getParams(model, "spec"),
+                responseFormat: specResponseFormat(phase),
+                signal: abortController.signal,
+            })
+        );
 
-                // Save the spec doc
-                await setSpecDoc(activeConversationId, phase, fullResponse);
+        setStreaming(false);
+        abortRef.current = null;
+        if (!outcome.stopReason) return;
 
-                // Advance to next phase
-                if (nextPhaseIdx < PHASE_ORDER.length) {
-                    await setPhase(activeConversationId, PHASE_ORDER[nextPhaseIdx]);
-                }
+        // Save the spec doc (a truncated one is completed by handleContinue)
+        await saveSpec(activeConversationId, phase, outcome.text);
 
-                await useProjectStore.getState().persistAll();
-            },
-            onError: (error) => {
-                appendToLastAssistant(
-                    activeConversationId,
-                    `\n\n**Error:** ${error.message}`
-                );
-                setStreaming(false);
-                abortRef.current = null;
-            },
-        });
+        // Advance to next phase
+        if (nextPhaseIdx < PHASE_ORDER.length) {
+            await setPhase(activeConversationId, PHASE_ORDER[nextPhaseIdx]);
+        }
+
+        await useProjectStore.getState().persistAll();
     }, [
         activeConversationId,
         isStreaming,
         isConfigured,
+        pendingPick,
         currentPhase,
+        conversationModel,
         messages,
-        activeLLMModel,
-        getKeyForProvider,
+        getModelForTask,
+        getKeyForModel,
+        getFallbackChain,
+        getParams,
+        maxRetries,
+        maxContinuations,
+        reasoningModels,
         addMessage,
-        appendToLastAssistant,
+        updateLastAssistant,
         setStreaming,
         setPhase,
-        setSpecDoc,
+    ]);
+
+    // ── Continue a reply that hit the output limit ──
+    const handleContinue = useCallback(async () => {
+        if (!activeConversationId || isStreaming || !isConfigured || !conversation) return;
+
+        const last = messages[messages.length - 1];
+        if (!last || last.role !== "assistant") return;
+
+        // If this reply was saved as a spec, keep the spec doc in step with it
+        const specPhase = last.specPhase ?? PHASE_ORDER.find((p) => conversation.specDocs[p] === last.content);
+
+        setStreaming(true);
+        const task = specPhase ? "spec" : (`chat:${currentPhase}` as const);
+        const model = specPhase ? getModelForTask("spec", conversationModel) : chatModel;
+        const apiKey = getKeyForModel(model);
+        const abortController = new AbortController();
+        abortRef.current = abortController;
+
+        // A spec goes on from its spec prompt, which stood in for the lock message before it
+        const history = specPhase
+            ? specRequestMessages(messages.slice(0, -2), specPhase)
+            : messages.slice(0, -1);
+        const context = await buildRequestContext(
+            activeConversationId,
+            continuationMessages(history, last.content, last),
+            model,
+            apiKey,
+            abortController.signal
+        );
+        if (!context) {
+            setStreaming(false);
+            abortRef.current = null;
+            return;
+        }
+
+        const outcome = await streamReply(
+            lastAssistantTarget(activeConversationId),
+            streamChat({
+                messages: context.messages,
+                systemPrompt: context.systemPrompt,
+                apiKey,
+                model: model,
+                fallbacks: getFallbackChain(model),
+                maxRetries,
+                maxContinuations,
+                reasoning: reasoningModels.includes(model),
+                params: getParams(model, task),
+                tools: specPhase ? undefined : ARCHITECT_TOOLS,
+                signal: abortController.signal,
+            }),
+            { priorUsage: last.usage, priorThinkingBlocks: last.thinkingBlocks }
+        );
+
+        setStreaming(false);
+        abortRef.current = null;
+        if (!outcome.stopReason) return;
+
+        if (specPhase) {
+            await saveSpec(activeConversationId, specPhase, last.content + outcome.text);
+        }
+        await useProjectStore.getState().persistAll();
+    }, [
+        activeConversationId,
+        isStreaming,
+        isConfigured,
+        conversation,
+        currentPhase,
+        conversationModel,
+        chatModel,
+        messages,
+        getModelForTask,
+        getKeyForModel,
+        getFallbackChain,
+        getParams,
+        maxRetries,
+        maxContinuations,
+        reasoningModels,
+        setStreaming,
     ]);
 
     const handleStop = () => {
@@ -266,6 +560,9 @@ export default function ChatPanel() {
 
     return (
         <div className="flex h-full flex-col">
+            {/* Chat header */}
+            {conversation && <ChatHeader conversation={conversation} />}
+
             {/* Messages */}
             <div className="flex-1 overflow-y-auto overflow-x-hidden px-4 py-4">
                 {messages.length === 0 && (
@@ -278,12 +575,8 @@ export default function ChatPanel() {
                 )}
 
                 {messages.map((msg, i) => {
-                    // Detect spec messages: assistant message following a lock message
-                    const prevMsg = i > 0 ? messages[i - 1] : null;
-                    const isSpecMsg =
-                        msg.role === "assistant" &&
-                        prevMsg?.role === "user" &&
-                        prevMsg.content.includes("I'm locking the");
+                    const isSpecMsg = msg.role === "assistant" && !!msg.specPhase;
+                    const isLatest = i === messages.length - 1;
 
                     return (
                         <div
@@ -293,6 +586,13 @@ export default function ChatPanel() {
                         >
                             {msg.role === "user" ? (
                                 <div className="max-w-[80%] rounded-[var(--radius-md)] bg-[var(--bg-elevated)] px-4 py-3 text-sm">
+                                    {msg.attachments && msg.attachments.length > 0 && (
+                                        <div className={`flex flex-wrap gap-2 ${msg.content ? "mb-2" : ""}`}>
+                                            {msg.attachments.map((a) => (
+                                                <AttachmentThumbnail key={a.id} attachment={a} size="lg" />
+                                            ))}
+                                        </div>
+                                    )}
                                     {msg.content}
                                 </div>
                             ) : (
@@ -300,22 +600,97 @@ export default function ChatPanel() {
                                     ? "rounded-[var(--radius-md)] border-l-[3px] border-[var(--accent-primary)] bg-[var(--accent-primary)]/5 px-4 py-3"
                                     : ""
                                     }`}>
+                                    {(msg.compactedCount ?? 0) > 0 && (
+                                        <div
+                                            className="mb-2 text-[10px] text-[var(--accent-warning)]/80"
+                                            title="Older turns were replaced by a running summary to fit the model's context window"
+                                        >
+                                            🗜 {msg.compactedCount} earlier messages sent as a summary
+                                        </div>
+                                    )}
+                                    {(msg.omittedCount ?? 0) > 0 && (
+                                        <div
+                                            className="mb-2 text-[10px] text-[var(--accent-error)]/80"
+                                            title="Summarizing older turns failed, so they were dropped to fit the model's context window. The model was told they're missing."
+                                        >
+                                            ⚠ {msg.omittedCount} earlier messages couldn&apos;t be summarized and were left out
+                                        </div>
+                                    )}
+                                    {(msg.overBudgetTokens ?? 0) > 0 && (
+                                        <div
+                                            className="mb-2 text-[10px] text-[var(--accent-error)]/80"
+                                            title="The summary and locked specs are sent in full, and with the latest turns they don't fit the model's context window. Pick a model with a larger window, or set this one's context window in Settings if it's larger than assumed."
+                                        >
+                                            ⚠ Still about {msg.overBudgetTokens} tokens over the model&apos;s context window after compacting
+                                        </div>
+                                    )}
+                                    {msg.candidates && (
+                                        <CompareColumns
+                                            conversationId={activeConversationId}
+                                            candidates={msg.candidates}
+                                            isStreaming={isStreaming && i === messages.length - 1}
+                                        />
+                                    )}
                                     {isSpecMsg && (
                                         <div className="mb-2 text-[10px] font-semibold uppercase tracking-widest text-[var(--accent-primary)]/60">
                                             📄 Generated Spec
+                                            {msg.specRepairs && (
+                                                <span
+                                                    className="ml-2 normal-case tracking-normal font-normal text-[var(--accent-warning)]/80"
+                                                    title={msg.specRepairs.join("\n")}
+                                                >
+                                                    ⚠ {msg.specRepairs.length} {msg.specRepairs.length === 1 ? "field" : "fields"} repaired
+                                                </span>
+                                            )}
                                         </div>
                                     )}
+                                    {!msg.candidates && msg.reasoning && (
+                                        <ReasoningBlock
+                                            reasoning={msg.reasoning}
+                                            isThinking={isStreaming && i === messages.length - 1 && !msg.content}
+                                        />
+                                    )}
                                     <AssistantMessage
-                                        content={msg.content}
+                                        // Spec JSON shows as code until it's rendered to markdown
+                                        content={isSpecMsg && msg.content.trimStart().startsWith("{")
+                                            ? "```json\n" + msg.content + "\n```"
+                                            : msg.content}
+                                        model={msg.candidates ? undefined : msg.model}
                                         onPreviewClick={(code) => {
                                             if (activeConversationId) {
                                                 setSandboxCode(activeConversationId, code);
                                             }
                                         }}
                                     />
-                                    {isStreaming && i === messages.length - 1 && (
+                                    {!msg.candidates && msg.toolCalls && (
+                                        <ToolCallCards
+                                            toolCalls={msg.toolCalls}
+                                            currentPhase={currentPhase}
+                                            specDocs={conversation?.specDocs ?? {}}
+                                            onPreview={(code) => setSandboxCode(activeConversationId, code)}
+                                            onChoose={isLatest && !isStreaming ? handleChooseOption : undefined}
+                                            onLock={isLatest && !isStreaming ? handleLockPhase : undefined}
+                                        />
+                                    )}
+                                    {isStreaming && i === messages.length - 1 && !msg.candidates && (
                                         <span className="inline-block h-4 w-1.5 animate-pulse bg-[var(--accent-primary)]" />
                                     )}
+                                    {msg.truncated && !isStreaming && i === messages.length - 1 && (
+                                        <button
+                                            onClick={handleContinue}
+                                            disabled={!isConfigured}
+                                            title="The model hit its output limit before finishing"
+                                            className="mt-2 flex items-center gap-2 rounded-[var(--radius-sm)] border border-[var(--accent-warning)]/30 bg-[var(--accent-warning)]/5 px-3 py-1.5 text-xs text-[var(--accent-warning)] transition-all hover:bg-[var(--accent-warning)]/15 hover:border-[var(--accent-warning)]/60 disabled:opacity-30 cursor-pointer"
+                                        >
+                                            <span>✂</span>
+                                            <span>Response was cut off — Continue</span>
+                                        </button>
+                                    )}
+                                    {msg.usage && (
+                                        <div className="mt-1 text-[10px] text-[var(--accent-dim)]">
+                                            <UsageLine usage={msg.usage} />
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -325,7 +700,7 @@ export default function ChatPanel() {
             </div>
 
             {/* Lock Phase Button */}
-            {hasMessages && !isStreaming && !isLastPhase && (
+            {hasMessages && !isStreaming && !pendingPick && !isLastPhase && (
                 <div className="border-t border-[var(--border-subtle)] px-4 py-2">
                     <button
                         onClick={handleLockPhase}
@@ -344,7 +719,7 @@ export default function ChatPanel() {
             )}
 
             {/* Final export button */}
-            {hasMessages && !isStreaming && isLastPhase && !conversation?.specDocs?.export && (
+            {hasMessages && !isStreaming && !pendingPick && isLastPhase && !conversation?.specDocs?.export && (
                 <div className="border-t border-[var(--border-subtle)] px-4 py-2">
                     <button
                         onClick={handleLockPhase}
@@ -360,18 +735,77 @@ export default function ChatPanel() {
             )}
 
             {/* Input */}
-            <div className="border-t border-[var(--border-subtle)] px-4 py-3">
+            <div
+                className={`border-t px-4 py-3 transition-colors ${isDragging
+                    ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/5"
+                    : "border-[var(--border-subtle)]"
+                    }`}
+                onDragOver={(e) => {
+                    if (!e.dataTransfer.types.includes("Files")) return;
+                    e.preventDefault();
+                    setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => {
+                    e.preventDefault();
+                    setIsDragging(false);
+                    addFiles(Array.from(e.dataTransfer.files));
+                }}
+            >
                 {!isConfigured && (
                     <div className="mb-2 rounded-[var(--radius-sm)] bg-[var(--accent-warning)]/10 px-3 py-2 text-xs text-[var(--accent-warning)]">
                         ⚠️ Add an API key in Settings to start chatting.
                     </div>
                 )}
+                {compareMode && <CompareBar activeModel={chatModel} />}
+                <AttachmentTray
+                    attachments={pendingAttachments}
+                    error={attachError}
+                    model={chatModel}
+                    onRemove={removePendingAttachment}
+                />
                 <div className="flex items-end gap-2">
                     <MicButton onTranscript={handleVoiceTranscript} />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={!isConfigured}
+                        title="Attach images (or paste / drop them)"
+                        className="flex h-9 w-9 shrink-0 items-center justify-center rounded-[var(--radius-sm)] border border-[var(--border-subtle)] text-[var(--accent-dim)] transition-colors hover:border-[var(--border-focus)] hover:text-[var(--accent-muted)] disabled:opacity-30"
+                    >
+                        📎
+                    </button>
+                    <button
+                        onClick={() => setCompareMode(!compareMode)}
+                        disabled={!isConfigured}
+                        title="Compare replies from several models side by side"
+                        className={`flex h-9 w-9 shrink-0 items-center justify-center rounded-[var(--radius-sm)] border transition-colors disabled:opacity-30 ${compareMode
+                            ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]"
+                            : "border-[var(--border-subtle)] text-[var(--accent-dim)] hover:border-[var(--border-focus)] hover:text-[var(--accent-muted)]"
+                            }`}
+                    >
+                        ⚖
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={SUPPORTED_IMAGE_TYPES.join(",")}
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            addFiles(Array.from(e.target.files ?? []));
+                            e.target.value = "";
+                        }}
+                    />
                     <textarea
                         ref={textareaRef}
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
+                        onPaste={(e) => {
+                            const files = Array.from(e.clipboardData.files);
+                            if (files.length === 0) return;
+                            e.preventDefault();
+                            addFiles(files);
+                        }}
                         onKeyDown={(e) => {
                             if (e.key === "Enter" && !e.shiftKey) {
                                 e.preventDefault();
@@ -379,9 +813,11 @@ export default function ChatPanel() {
                             }
                         }}
                         placeholder={
-                            isConfigured
-                                ? "Describe your app idea..."
-                                : "Configure API key first"
+                            !isConfigured
+                                ? "Configure API key first"
+                                : pendingPick
+                                    ? "Keep one of the replies above to continue"
+                                    : "Describe your app idea..."
                         }
                         disabled={!isConfigured}
                         rows={1}
@@ -397,7 +833,7 @@ export default function ChatPanel() {
                     ) : (
                         <button
                             onClick={handleSend}
-                            disabled={!input.trim() || !isConfigured}
+                            disabled={(!input.trim() && pendingAttachments.length === 0) || !isConfigured || pendingPick}
                             className="flex h-9 w-9 shrink-0 items-center justify-center rounded-[var(--radius-sm)] bg-[var(--accent-primary)] text-[var(--bg-base)] transition-colors hover:bg-[var(--accent-muted)] disabled:opacity-30"
                         >
                             ↑
@@ -409,27 +845,639 @@ export default function ChatPanel() {
     );
 }
 
+// ── Helper: Fits the history into the model's context window ──
+
+interface RequestContext {
+    messages: Message[];
+    systemPrompt: string;
+}
+
+/**
+ * Returns the messages and system prompt (with project documents) to send,
+ * compacting older turns into the running summary when needed. Returns null
+ * if the user stopped during summarization.
+ */
+async function buildRequestContext(
+    conversationId: string,
+    history: Message[],
+    model: LLMModel,
+    apiKey: string,
+    signal: AbortSignal
+): Promise<RequestContext | null> {
+    const store = useProjectStore.getState();
+    const conversation = store.conversations.find((c) => c.id === conversationId);
+    if (!conversation) return { messages: history, systemPrompt: SYSTEM_PROMPT };
+
+    // Project reference documents ride along in the system prompt
+    const project = store.projects.find((p) => p.id === conversation.projectId);
+    const systemPrompt = withReferenceDocuments(SYSTEM_PROMPT, project?.documents);
+
+    const settings = useSettingsStore.getState();
+    const summaryModel = settings.getModelForTask("summary", conversation.model);
+
+    const { messages, compactedCount, omittedCount, overBudgetTokens } = await prepareContext({
+        history,
+        conversation,
+        model,
+        apiKey,
+        systemPrompt,
+        summarizer: {
+            model: summaryModel,
+            apiKey: settings.getKeyForModel(summaryModel),
+            params: settings.getParams(summaryModel, "summary"),
+        },
+        signal,
+        onSummary: (summary) => store.setSummary(conversationId, summary),
+        onUsage: (usage) => store.addAuxUsage(conversationId, usage),
+    });
+    if (signal.aborted) return null;
+
+    if (compactedCount > 0) {
+        await store.updateLastAssistant(conversationId, {
+            compactedCount,
+            omittedCount: omittedCount || undefined,
+            overBudgetTokens: overBudgetTokens || undefined,
+        });
+    }
+    return { messages, systemPrompt };
+}
+
+// ── Helper: Streams a reply into a message or compare column ──
+
+interface StreamOutcome {
+    /** Text appended by this stream */
+    text: string;
+    /** Null if the stream ended in an error */
+    stopReason: StopReason | null;
+}
+
+/** Where a stream's text, reasoning and metadata are written */
+interface ReplyTarget {
+    appendText: (text: string) => void;
+    appendReasoning: (text: string) => void;
+    update: (update: Pick<Message, "model" | "usage" | "truncated" | "thinkingBlocks">) => Promise<void>;
+    addToolCall: (call: ToolCall) => Promise<void>;
+}
+
+function lastAssistantTarget(conversationId: string): ReplyTarget {
+    const store = useProjectStore.getState();
+    return {
+        appendText: (text) => store.appendToLastAssistant(conversationId, text),
+        appendReasoning: (text) => store.appendReasoningToLastAssistant(conversationId, text),
+        update: (update) => store.updateLastAssistant(conversationId, update),
+        addToolCall: async (call) => {
+            const result = await applyToolCall(conversationId, call);
+            const toolCalls = lastMessage(conversationId)?.toolCalls ?? [];
+            await store.updateLastAssistant(conversationId, { toolCalls: [...toolCalls, { ...call, result }] });
+        },
+    };
+}
+
+function candidateTarget(conversationId: string, index: number): ReplyTarget {
+    const store = useProjectStore.getState();
+    return {
+        appendText: (text) => store.appendToCandidate(conversationId, index, "content", text),
+        appendReasoning: (text) => store.appendToCandidate(conversationId, index, "reasoning", text),
+        update: (update) => store.updateCandidate(conversationId, index, update),
+        // A compared reply's calls only take effect once it's kept
+        addToolCall: async (call) => {
+            const toolCalls = lastMessage(conversationId)?.candidates?.[index]?.toolCalls ?? [];
+            await store.updateCandidate(conversationId, index, { toolCalls: [...toolCalls, call] });
+        },
+    };
+}
+
+function lastMessage(conversationId: string): Message | undefined {
+    return useProjectStore.getState().conversations.find((c) => c.id === conversationId)?.messages.at(-1);
+}
+
+async function streamReply(
+    target: ReplyTarget,
+    events: AsyncIterable<StreamEvent>,
+    opts: {
+        onText?: (fullText: string) => void;
+        /** Usage already on the message, for continuations */
+        priorUsage?: TokenUsage;
+        priorThinkingBlocks?: ThinkingBlock[];
+    } = {}
+): Promise<StreamOutcome> {
+    let text = "";
+    const thinkingBlocks = [...(opts.priorThinkingBlocks ?? [])];
+
+    for await (const event of events) {
+        switch (event.type) {
+            case "text":
+                text += event.text;
+                target.appendText(event.text);
+                opts.onText?.(text);
+                break;
+            case "reasoning":
+                target.appendReasoning(event.text);
+                break;
+            case "model":
+                await target.update({ model: event.model });
+                break;
+            case "tool_call":
+                await target.addToolCall(event.call);
+                break;
+            case "thinking_block":
+                thinkingBlocks.push(event.block);
+                await target.update({ thinkingBlocks: [...thinkingBlocks] });
+                break;
+            case "usage":
+                await target.update({
+                    usage: sumUsage([opts.priorUsage, event.usage]) ?? event.usage,
+                });
+                break;
+            case "stop":
+                if (event.reason !== "aborted") {
+                    await target.update({
+                        truncated: event.reason === "max_tokens" || undefined,
+                    });
+                }
+                return { text, stopReason: event.reason };
+            case "error":
+                target.appendText(`\n\n**Error:** ${event.error.message}`);
+                return { text, stopReason: null };
+        }
+    }
+    return { text, stopReason: null };
+}
+
+// ── Helper: Conversation-level info strip above the messages ──
+
+function ChatHeader({ conversation }: { conversation: Conversation }) {
+    const usage = getConversationUsage(conversation);
+    const summary = conversation.summary;
+
+    return (
+        <div className="flex h-8 shrink-0 items-center justify-end gap-3 border-b border-[var(--border-subtle)] px-4">
+            <ConversationModelPicker conversation={conversation} />
+            {summary && (
+                <span
+                    className="text-[10px] text-[var(--accent-warning)]"
+                    title={`Running summary of the first ${summary.messageCount} messages:\n\n${summary.content}`}
+                >
+                    🗜 Context compacted
+                </span>
+            )}
+            {usage && (
+                <span
+                    className="text-[10px] text-[var(--accent-dim)]"
+                    title="Token usage for this conversation"
+                >
+                    Σ {formatUsage(usage)}
+                </span>
+            )}
+        </div>
+    );
+}
+
+/** Switches this conversation's chat model; later replies use it, earlier ones keep their badges */
+function ConversationModelPicker({ conversation }: { conversation: Conversation }) {
+    const { setConversationModel } = useProjectStore();
+    const { getModelForTask, hasKeyForModel } = useSettingsStore();
+    const defaultModel = getModelForTask(`chat:${conversation.phase}`);
+    const models = listModels().filter((m) => hasKeyForModel(m.id));
+    const selected = conversation.model;
+    const unavailable = selected && !models.some((m) => m.id === selected);
+
+    return (
+        <select
+            value={selected ?? ""}
+            onChange={(e) => setConversationModel(conversation.id, (e.target.value || null) as LLMModel | null)}
+            title={unavailable ? "This model is unavailable — the default is used instead" : "Chat model for this conversation"}
+            className={`mr-auto max-w-[14rem] truncate rounded-[var(--radius-sm)] border bg-transparent px-1.5 py-0.5 text-[10px] focus:outline-none ${unavailable
+                ? "border-[var(--accent-warning)] text-[var(--accent-warning)]"
+                : "border-[var(--border-subtle)] text-[var(--accent-dim)]"
+                }`}
+        >
+            <option value="">Default · {getModelConfig(defaultModel)?.name ?? defaultModel}</option>
+            {unavailable && <option value={selected}>{getModelConfig(selected)?.name ?? selected}</option>}
+            {models.map((m) => (
+                <option key={m.id} value={m.id}>
+                    {m.name}
+                </option>
+            ))}
+        </select>
+    );
+}
+
+function UsageLine({ usage }: { usage: TokenUsage }) {
+    return <>{formatUsage(usage)}</>;
+}
+
+// ── Helper: Image attachments ──
+
+function AttachmentTray({
+    attachments,
+    error,
+    model,
+    onRemove,
+}: {
+    attachments: Attachment[];
+    error: string | null;
+    model: LLMModel;
+    onRemove: (attachment: Attachment) => void;
+}) {
+    if (attachments.length === 0 && !error) return null;
+    const supportsVision = getModelConfig(model)?.supportsVision;
+
+    return (
+        <div className="mb-2">
+            {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {attachments.map((a) => (
+                        <div key={a.id} className="relative">
+                            <AttachmentThumbnail attachment={a} size="sm" />
+                            <button
+                                onClick={() => onRemove(a)}
+                                title="Remove"
+                                className="absolute -right-1.5 -top-1.5 flex h-4 w-4 items-center justify-center rounded-full bg-[var(--bg-elevated)] text-[10px] text-[var(--accent-muted)] hover:text-[var(--accent-error)]"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {attachments.length > 0 && !supportsVision && (
+                <div className="mt-1 text-[10px] text-[var(--accent-warning)]">
+                    This model can&apos;t see images — only their file names will be sent.
+                </div>
+            )}
+            {error && <div className="mt-1 text-[10px] text-[var(--accent-error)]">{error}</div>}
+        </div>
+    );
+}
+
+function AttachmentThumbnail({ attachment, size }: { attachment: Attachment; size: "sm" | "lg" }) {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        getAttachmentBlob(attachment.id).then((blob) => {
+            if (!blob || cancelled) return;
+            objectUrl = URL.createObjectURL(blob);
+            setUrl(objectUrl);
+        });
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [attachment.id]);
+
+    const box = size === "sm" ? "h-14 w-14" : "h-auto max-h-48 w-auto max-w-full";
+    if (!url) {
+        return (
+            <div
+                className={`${size === "sm" ? box : "h-14 w-24"} flex items-center justify-center rounded-[var(--radius-sm)] border border-[var(--border-subtle)] text-[10px] text-[var(--accent-dim)]`}
+                title={attachment.name}
+            >
+                🖼
+            </div>
+        );
+    }
+    return (
+        // A local blob URL, so there's nothing for the image optimizer to fetch; CSS sets the size
+        <Image
+            src={url}
+            alt={attachment.name}
+            title={attachment.name}
+            width={0}
+            height={0}
+            unoptimized
+            className={`${box} rounded-[var(--radius-sm)] border border-[var(--border-subtle)] object-cover`}
+        />
+    );
+}
+
+// ── Helper: Compare mode ──
+
+/** The active model plus the usable compare models, in order */
+function compareLineup(
+    active: LLMModel,
+    compareModels: LLMModel[],
+    hasKeyForModel: (model: LLMModel) => boolean
+): LLMModel[] {
+    const others = compareModels.filter((m) => m !== active && getModelConfig(m) && hasKeyForModel(m));
+    return [active, ...others].slice(0, MAX_COMPARE_MODELS);
+}
+
+function CompareBar({ activeModel }: { activeModel: LLMModel }) {
+    const { compareModels, setCompareModels, hasKeyForModel } = useSettingsStore();
+    const lineup = compareLineup(activeModel, compareModels, hasKeyForModel);
+    const options = listModels().filter((m) => !lineup.includes(m.id) && hasKeyForModel(m.id));
+    const nameOf = (model: LLMModel) => getModelConfig(model)?.name ?? model;
+
+    return (
+        <div className="mb-2 flex flex-wrap items-center gap-1.5 text-[10px] text-[var(--accent-dim)]">
+            <span>⚖ Comparing</span>
+            {lineup.map((model, i) => (
+                <span
+                    key={model}
+                    className="flex items-center gap-1 rounded-full border border-[var(--border-subtle)] bg-[var(--bg-surface)] px-2 py-0.5 text-[var(--accent-muted)]"
+                >
+                    {nameOf(model)}
+                    {i > 0 && (
+                        <button
+                            onClick={() => setCompareModels(compareModels.filter((m) => m !== model))}
+                            title="Remove from comparison"
+                            className="hover:text-[var(--accent-error)]"
+                        >
+                            ✕
+                        </button>
+                    )}
+                </span>
+            ))}
+            {lineup.length < MAX_COMPARE_MODELS && options.length > 0 && (
+                <select
+                    value=""
+                    onChange={(e) => setCompareModels([...lineup.slice(1), e.target.value as LLMModel])}
+                    className="rounded-full border border-dashed border-[var(--border-subtle)] bg-transparent px-2 py-0.5 text-[10px] text-[var(--accent-dim)] focus:outline-none"
+                >
+                    <option value="">+ Add model</option>
+                    {options.map((m) => (
+                        <option key={m.id} value={m.id}>
+                            {m.name}
+                        </option>
+                    ))}
+                </select>
+            )}
+            {lineup.length < 2 && <span>— add a model to compare against</span>}
+        </div>
+    );
+}
+
+/** One column per model; keeping a reply makes it the conversation's answer */
+function CompareColumns({
+    conversationId,
+    candidates,
+    isStreaming,
+}: {
+    conversationId: string;
+    candidates: MessageCandidate[];
+    isStreaming: boolean;
+}) {
+    const { pickCandidate, updateLastAssistant, setSandboxCode } = useProjectStore();
+
+    const handleKeep = async (index: number) => {
+        const { content, toolCalls } = candidates[index];
+        await pickCandidate(conversationId, index);
+        if (!toolCalls) {
+            const preview = getLatestUiPreview(content);
+            if (preview) await setSandboxCode(conversationId, preview);
+            return;
+        }
+        const applied: ToolCall[] = [];
+        for (const call of toolCalls) {
+            applied.push({ ...call, result: await applyToolCall(conversationId, call) });
+        }
+        await updateLastAssistant(conversationId, { toolCalls: applied });
+    };
+
+    return (
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${candidates.length}, minmax(0, 1fr))` }}>
+            {candidates.map((candidate, i) => (
+                <div
+                    key={candidate.model}
+                    className="flex min-w-0 flex-col rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[var(--bg-surface)] px-3 py-2"
+                >
+                    <div className="mb-2 text-[10px] font-semibold uppercase tracking-widest text-[var(--accent-dim)]">
+                        {getModelConfig(candidate.model)?.name ?? candidate.model}
+                    </div>
+                    {candidate.reasoning && (
+                        <ReasoningBlock
+                            reasoning={candidate.reasoning}
+                            isThinking={isStreaming && !!candidate.streaming && !candidate.content}
+                        />
+                    )}
+                    <div className="flex-1">
+                        <AssistantMessage
+                            content={candidate.content}
+                            onPreviewClick={(code) => setSandboxCode(conversationId, code)}
+                        />
+                        {candidate.toolCalls && (
+                            <ToolCallCards
+                                toolCalls={candidate.toolCalls}
+                                onPreview={(code) => setSandboxCode(conversationId, code)}
+                            />
+                        )}
+                        {isStreaming && candidate.streaming && (
+                            <span className="inline-block h-4 w-1.5 animate-pulse bg-[var(--accent-primary)]" />
+                        )}
+                    </div>
+                    {candidate.usage && (
+                        <div className="mt-1 text-[10px] text-[var(--accent-dim)]">
+                            <UsageLine usage={candidate.usage} />
+                        </div>
+                    )}
+                    {!isStreaming && (
+                        <button
+                            onClick={() => handleKeep(i)}
+                            className="mt-2 rounded-[var(--radius-sm)] border border-[var(--accent-success)]/30 bg-[var(--accent-success)]/5 px-3 py-1.5 text-xs text-[var(--accent-success)] transition-all hover:bg-[var(--accent-success)]/15 hover:border-[var(--accent-success)]/60 cursor-pointer"
+                        >
+                            ✓ Keep this one
+                        </button>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// ── Helper: Spec documents ──
+
+/**
+ * Saves a finished spec reply. JSON that fits the phase's schema (after
+ * repairs) is stored as data and the reply is replaced by its rendered
+ * markdown; anything else, e.g. a reply cut off mid-object, is kept as-is.
+ */
+async function saveSpec(conversationId: string, phase: ConversationPhase, reply: string) {
+    const store = useProjectStore.getState();
+    const parsed = parseSpec(phase, reply);
+    if (!parsed) {
+        await store.setSpecDoc(conversationId, phase, reply);
+        return;
+    }
+    const markdown = renderSpecMarkdown(phase, parsed.spec);
+    await store.setSpecDoc(conversationId, phase, markdown, parsed.spec);
+    await store.updateLastAssistant(conversationId, {
+        content: markdown,
+        specRepairs: parsed.repairs.length > 0 ? parsed.repairs : undefined,
+    });
+}
+
+// ── Helper: Architect tool calls ──
+
+/** Carries out a tool call's effect on the UI; returns the result the model sees next turn */
+async function applyToolCall(conversationId: string, call: ToolCall): Promise<string> {
+    const store = useProjectStore.getState();
+    const action = parseArchitectAction(call);
+    if (!action) return `Unknown tool or invalid arguments: ${call.name}`;
+
+    switch (action.name) {
+        case "propose_options":
+            return "Shown to the user as option cards.";
+        case "request_lock":
+            return "Shown to the user as a lock confirmation card. The phase is only locked if they confirm.";
+        case "render_preview":
+            await store.setSandboxCode(conversationId, action.code);
+            return "Rendered in the user's sandbox.";
+        case "update_spec_section": {
+            const label = PHASE_LABELS[action.phase];
+            const doc = store.conversations.find((c) => c.id === conversationId)?.specDocs[action.phase];
+            if (!doc) return `The ${label} phase isn't locked yet, so it has no spec document to update.`;
+            await store.setSpecDoc(conversationId, action.phase, replaceSpecSection(doc, action.heading, action.content));
+            return `Updated "${action.heading}" in the ${label} spec.`;
+        }
+    }
+}
+
+/** Option cards, lock confirmations, previews and spec edits from a reply's tool calls */
+function ToolCallCards({
+    toolCalls,
+    currentPhase,
+    specDocs = {},
+    onPreview,
+    onChoose,
+    onLock,
+}: {
+    toolCalls: ToolCall[];
+    currentPhase?: ConversationPhase;
+    specDocs?: Conversation["specDocs"];
+    onPreview: (code: string) => void;
+    /** Only set while the reply is the latest */
+    onChoose?: (option: ProposedOption) => void;
+    onLock?: () => void;
+}) {
+    return (
+        <>
+            {toolCalls.map((call, i) => {
+                const action = parseArchitectAction(call);
+                if (!action) return null;
+
+                switch (action.name) {
+                    case "propose_options":
+                        return (
+                            <div key={i} className="my-2 grid gap-2 sm:grid-cols-2">
+                                {action.options.map((option) => (
+                                    <div
+                                        key={option.name}
+                                        className="flex flex-col rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-surface)] px-3 py-2"
+                                    >
+                                        <div className="text-xs font-semibold text-[var(--accent-primary)]">{option.name}</div>
+                                        <div className="mt-0.5 flex-1 text-xs text-[var(--accent-dim)]">{option.summary}</div>
+                                        {onChoose && (
+                                            <button
+                                                onClick={() => onChoose(option)}
+                                                className="mt-2 self-start rounded-[var(--radius-sm)] border border-[var(--accent-primary)]/30 bg-[var(--accent-primary)]/5 px-2.5 py-1 text-xs text-[var(--accent-primary)] transition-all hover:bg-[var(--accent-primary)]/15 hover:border-[var(--accent-primary)]/60 cursor-pointer"
+                                            >
+                                                Choose
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        );
+                    case "request_lock": {
+                        const label = PHASE_LABELS[action.phase];
+                        const locked = !!specDocs[action.phase];
+                        return (
+                            <div
+                                key={i}
+                                className="my-2 rounded-[var(--radius-sm)] border border-[var(--accent-success)]/30 bg-[var(--accent-success)]/5 px-3 py-2"
+                            >
+                                <div className="mb-1 text-xs font-semibold text-[var(--accent-success)]">
+                                    🔒 Lock {label}?
+                                </div>
+                                {action.summary && (
+                                    <div className="text-xs text-[var(--accent-muted)]">
+                                        <Markdown>{action.summary}</Markdown>
+                                    </div>
+                                )}
+                                {locked ? (
+                                    <div className="mt-1 text-[10px] text-[var(--accent-success)]">✓ Locked</div>
+                                ) : onLock && action.phase === currentPhase ? (
+                                    <button
+                                        onClick={onLock}
+                                        className="mt-2 rounded-[var(--radius-sm)] border border-[var(--accent-success)]/30 bg-[var(--accent-success)]/10 px-3 py-1.5 text-xs font-medium text-[var(--accent-success)] transition-all hover:bg-[var(--accent-success)]/20 hover:border-[var(--accent-success)]/60 cursor-pointer"
+                                    >
+                                        Lock & Generate Spec
+                                    </button>
+                                ) : (
+                                    <div className="mt-1 text-[10px] text-[var(--accent-dim)]">Not locked</div>
+                                )}
+                            </div>
+                        );
+                    }
+                    case "render_preview":
+                        return (
+                            <button
+                                key={i}
+                                onClick={() => onPreview(action.code)}
+                                className="my-2 flex items-center gap-2 rounded-[var(--radius-sm)] border border-[var(--accent-primary)]/30 bg-[var(--accent-primary)]/5 px-3 py-2 text-xs text-[var(--accent-primary)] transition-all hover:bg-[var(--accent-primary)]/15 hover:border-[var(--accent-primary)]/60 cursor-pointer"
+                            >
+                                <span>🎨</span>
+                                <span>Show {action.title} in Sandbox →</span>
+                            </button>
+                        );
+                    case "update_spec_section":
+                        return (
+                            <div key={i} className="my-1 text-[10px] text-[var(--accent-dim)]" title={call.result}>
+                                📝 {PHASE_LABELS[action.phase]} spec · {action.heading}
+                            </div>
+                        );
+                }
+            })}
+        </>
+    );
+}
+
+// ── Helper: Collapsible reasoning trace above a reply ──
+
+function ReasoningBlock({ reasoning, isThinking }: { reasoning: string; isThinking: boolean }) {
+    return (
+        <details className="mb-2 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-surface)]">
+            <summary className="cursor-pointer select-none px-3 py-1.5 text-xs text-[var(--accent-dim)] hover:text-[var(--accent-muted)]">
+                🧠 {isThinking ? "Thinking…" : "Architect's reasoning"}
+            </summary>
+            <div className="max-h-80 overflow-y-auto border-t border-[var(--border-subtle)] px-3 py-2 text-xs text-[var(--accent-dim)]">
+                <Markdown>{reasoning}</Markdown>
+            </div>
+        </details>
+    );
+}
+
 // ── Helper: Renders assistant message content with clickable preview buttons ──
 
 function AssistantMessage({
     content,
+    model,
     onPreviewClick,
 }: {
     content: string;
+    /** Shown as a badge above the reply */
+    model?: LLMModel;
     onPreviewClick: (code: string) => void;
 }) {
     const previews = extractUiPreviews(content);
+    const badge = model && <ModelBadge key="model" model={model} />;
 
     if (previews.length === 0) {
         return (
-            <Markdown>
-                {content}
-            </Markdown>
+            <>
+                {badge}
+                <Markdown>
+                    {content}
+                </Markdown>
+            </>
         );
     }
 
     const parts = content.split(/<ui_preview>[\s\S]*?<\/ui_preview>/);
-    const elements: React.ReactNode[] = [];
+    const elements: React.ReactNode[] = [badge];
 
     for (let i = 0; i < parts.length; i++) {
         const text = parts[i].trim();
@@ -458,3 +1506,11 @@ function AssistantMessage({
 
     return <>{elements}</>;
 }
+
+function ModelBadge({ model }: { model: LLMModel }) {
+    return (
+        <div className="mb-1.5 inline-block rounded-full border border-[var(--border-subtle)] px-2 py-0.5 text-[10px] text-[var(--accent-dim)]">
+            {getModelConfig(model)?.name ?? model}
+        </div>
+    );
+}
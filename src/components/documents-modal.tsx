@@ -0,0 +1,163 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useProjectStore } from "@/store/project-store";
+import { useSettingsStore } from "@/store/settings-store";
+import { createProjectDocument, getEnabledDocuments, SUPPORTED_DOCUMENT_EXTENSIONS } from "@/lib/documents";
+import { getModelConfig } from "@/lib/providers/registry";
+import { formatTokens } from "@/lib/usage";
+
+interface DocumentsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+export default function DocumentsModal({ isOpen, onClose }: DocumentsModalProps) {
+    const {
+        projects,
+        activeProjectId,
+        addProjectDocument,
+        updateProjectDocument,
+        removeProjectDocument,
+    } = useProjectStore();
+    const { activeLLMModel } = useSettingsStore();
+
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) return null;
+
+    const project = projects.find((p) => p.id === activeProjectId);
+    if (!project) return null;
+
+    const documents = project.documents ?? [];
+    const enabledTokens = getEnabledDocuments(documents).reduce((sum, d) => sum + d.tokenEstimate, 0);
+    const contextWindow = getModelConfig(activeLLMModel)?.contextWindow;
+    const contextShare = contextWindow ? enabledTokens / contextWindow : 0;
+
+    const handleFiles = async (files: File[]) => {
+        setBusy(true);
+        setError(null);
+        for (const file of files) {
+            try {
+                await addProjectDocument(project.id, await createProjectDocument(file));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : String(err));
+            }
+        }
+        setBusy(false);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center"
+            onClick={onClose}
+        >
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+            <div
+                className="relative w-full max-w-md animate-fade-in rounded-[var(--radius-md)] border border-[var(--border-subtle)] bg-[var(--bg-surface)] p-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="mb-4 flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">Project Documents</h2>
+                    <button
+                        onClick={onClose}
+                        className="flex h-8 w-8 items-center justify-center rounded-[var(--radius-sm)] text-[var(--accent-muted)] transition-colors hover:bg-[var(--bg-elevated)] hover:text-[var(--accent-primary)]"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                <p className="mb-4 text-sm text-[var(--accent-dim)]">
+                    PRDs, meeting notes and other references for <strong>{project.name}</strong>.
+                    Enabled documents are sent as context in every conversation of this project.
+                </p>
+
+                <div className="mb-3 max-h-64 space-y-1.5 overflow-y-auto">
+                    {documents.length === 0 && (
+                        <div className="px-1 text-xs italic text-[var(--accent-dim)]">
+                            No documents yet
+                        </div>
+                    )}
+                    {documents.map((doc) => (
+                        <div
+                            key={doc.id}
+                            className={`flex items-center gap-2 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-3 py-2 text-sm ${doc.enabled ? "" : "opacity-50"}`}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={doc.enabled}
+                                onChange={(e) =>
+                                    updateProjectDocument(project.id, doc.id, { enabled: e.target.checked })
+                                }
+                                title={doc.enabled ? "Sent as context" : "Not sent"}
+                            />
+                            <span className="flex-1 truncate text-[var(--accent-muted)]" title={doc.name}>
+                                {doc.name}
+                            </span>
+                            <span className="text-xs text-[var(--accent-dim)]">
+                                ~{formatTokens(doc.tokenEstimate)} tokens
+                            </span>
+                            <button
+                                onClick={() => {
+                                    if (confirm(`Remove ${doc.name} from this project?`))
+                                        removeProjectDocument(project.id, doc.id);
+                                }}
+                                title="Remove"
+                                className="text-xs text-[var(--accent-dim)] hover:text-[var(--accent-error)]"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        setIsDragging(true);
+                    }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        setIsDragging(false);
+                        handleFiles(Array.from(e.dataTransfer.files));
+                    }}
+                    disabled={busy}
+                    className={`w-full rounded-[var(--radius-sm)] border border-dashed px-4 py-4 text-xs transition-colors disabled:opacity-50 ${isDragging
+                        ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/5 text-[var(--accent-primary)]"
+                        : "border-[var(--border-subtle)] text-[var(--accent-dim)] hover:border-[var(--border-focus)] hover:text-[var(--accent-muted)]"
+                        }`}
+                >
+                    {busy ? "Extracting text…" : "+ Add Markdown, text or PDF (click or drop)"}
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(",")}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                        handleFiles(Array.from(e.target.files ?? []));
+                        e.target.value = "";
+                    }}
+                />
+
+                {error && (
+                    <div className="mt-2 rounded-[var(--radius-sm)] bg-[var(--accent-error)]/10 px-3 py-2 text-xs text-[var(--accent-error)]">
+                        {error}
+                    </div>
+                )}
+
+                <div className={`mt-4 text-xs ${contextShare > 0.5 ? "text-[var(--accent-warning)]" : "text-[var(--accent-dim)]"}`}>
+                    ~{formatTokens(enabledTokens)} tokens per request
+                    {contextWindow && ` · ${Math.round(contextShare * 100)}% of the model's context window`}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -2,18 +2,30 @@
 
 import { useState } from "react";
 import { useProjectStore } from "@/store/project-store";
-import { compileSingleFile, compileMultiFile } from "@/lib/spec-compiler";
+import { CompiledSection, SectionSource, compileSections, compileSingleFile, compileMultiFile } from "@/lib/spec-compiler";
+import { compileHtml } from "@/lib/spec-html";
+import { compileDocx } from "@/lib/spec-docx";
+import { AGENT_PROFILES, AgentProfileId, compileAgentFiles } from "@/lib/agent-files";
+import { compileTaskFiles, getTasks, isTaskGraphStale } from "@/lib/task-graph";
 import JSZip from "jszip";
 import { saveAs } from "file-saver";
 
+const SOURCE_BADGES: Record<SectionSource, { label: string; className: string }> = {
+    locked: { label: "🔒 Locked spec", className: "text-[var(--accent-success)]" },
+    conversation: { label: "⚠ From conversation", className: "text-[var(--accent-warning)]" },
+    missing: { label: "— Missing", className: "text-[var(--accent-dim)]" },
+};
+
 interface ExportModalProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
 export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
-    const { getActiveConversation } = useProjectStore();
+    const { getActiveConversation, projects } = useProjectStore();
     const [exporting, setExporting] = useState(false);
+    const [includeReasoning, setIncludeReasoning] = useState(false);
+    const [agentProfiles, setAgentProfiles] = useState<AgentProfileId[]>(() => AGENT_PROFILES.map((p) => p.id));
 
     if (!isOpen) return null;
 
@@ -23,7 +35,7 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
     const handleSingleFile = async () => {
         setExporting(true);
         try {
-            const content = compileSingleFile(conversation);
+            const content = compileSingleFile(conversation, { includeReasoning });
             const blob = new Blob([content], { type: "text/markdown" });
             saveAs(blob, `${slugify(conversation.title)}-spec.md`);
         } finally {
@@ -35,7 +47,11 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
     const handleMultiFile = async () => {
         setExporting(true);
         try {
-            const files = compileMultiFile(conversation);
+            const files = {
+                ...compileMultiFile(conversation),
+                ...compileTaskFiles(conversation),
+                ...compileAgentFiles(conversation, agentProfiles),
+            };
             const zip = new JSZip();
 
             const folder = zip.folder(slugify(conversation.title));
@@ -53,8 +69,50 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
         }
     };
 
+    const handleHtml = () => {
+        setExporting(true);
+        try {
+            const blob = new Blob([compileHtml(conversation, { includeReasoning })], { type: "text/html" });
+            saveAs(blob, `${slugify(conversation.title)}-spec.html`);
+        } finally {
+            setExporting(false);
+            onClose();
+        }
+    };
+
+    const handleDocx = async () => {
+        setExporting(true);
+        try {
+            const projectName = projects.find((p) => p.id === conversation.projectId)?.name;
+            const blob = await compileDocx(conversation, { includeReasoning, projectName });
+            saveAs(blob, `${slugify(conversation.title)}-spec.docx`);
+        } finally {
+            setExporting(false);
+            onClose();
+        }
+    };
+
+    const handlePrint = () => {
+        setExporting(true);
+        try {
+            printHtml(compileHtml(conversation, { includeReasoning }));
+        } finally {
+            setExporting(false);
+            onClose();
+        }
+    };
+
+    const toggleAgentProfile = (id: AgentProfileId) => {
+        setAgentProfiles((current) =>
+            current.includes(id) ? current.filter((p) => p !== id) : [...current, id]
+        );
+    };
+
+    const sections = compileSections(conversation);
+    const taskCount = getTasks(conversation).length;
     const messageCount = conversation.messages.length;
     const hasContent = messageCount > 0;
+    const hasReasoning = conversation.messages.some((m) => m.reasoning);
 
     return (
         <div
@@ -82,6 +140,26 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
                     agents.
                 </p>
 
+                <ul className="mb-4 space-y-1 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-3 py-2">
+                    {sections.map((section) => (
+                        <SectionSourceRow key={section.phase} section={section} />
+                    ))}
+                </ul>
+
+                {hasContent && taskCount === 0 && (
+                    <div className="mb-4 rounded-[var(--radius-sm)] bg-[var(--bg-elevated)] px-3 py-2 text-xs text-[var(--accent-dim)]">
+                        {conversation.specDocs.export
+                            ? "The implementation spec has no task graph, so the ZIP won't include tasks.json. Regenerate the implementation plan to add one."
+                            : "No task graph yet — the ZIP gets tasks.json once the implementation plan is generated."}
+                    </div>
+                )}
+
+                {isTaskGraphStale(conversation) && (
+                    <div className="mb-4 rounded-[var(--radius-sm)] bg-[var(--accent-warning)]/10 px-3 py-2 text-xs text-[var(--accent-warning)]">
+                        The implementation doc was edited after its task graph was generated — tasks.json may not reflect the edits.
+                    </div>
+                )}
+
                 {!hasContent && (
                     <div className="mb-4 rounded-[var(--radius-sm)] bg-[var(--accent-warning)]/10 px-3 py-2 text-xs text-[var(--accent-warning)]">
                         No conversation content to export yet.
@@ -112,12 +190,81 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
                         <div>
                             <div className="text-sm font-medium">Multi-File ZIP</div>
                             <div className="text-xs text-[var(--accent-dim)]">
-                                @vision.md, @design.md, @stack.md, @steps.md
+                                @01-vision.md … @04-implementation.md
+                                {taskCount > 0 && ` + tasks.json (${taskCount} tasks)`}
+                                {agentProfiles.length > 0 && " + coding agent files"}
+                            </div>
+                        </div>
+                    </button>
+
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-1 text-xs text-[var(--accent-muted)]">
+                        <span className="text-[var(--accent-dim)]">Agent files in the ZIP:</span>
+                        {AGENT_PROFILES.map((profile) => (
+                            <label key={profile.id} className="flex cursor-pointer items-center gap-1" title={profile.files}>
+                                <input
+                                    type="checkbox"
+                                    checked={agentProfiles.includes(profile.id)}
+                                    onChange={() => toggleAgentProfile(profile.id)}
+                                />
+                                {profile.name}
+                            </label>
+                        ))}
+                    </div>
+
+                    <button
+                        onClick={handleHtml}
+                        disabled={!hasContent || exporting}
+                        className="flex w-full items-center gap-3 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-4 py-3 text-left transition-colors hover:bg-[var(--bg-elevated)] disabled:opacity-40"
+                    >
+                        <span className="text-xl">🌐</span>
+                        <div>
+                            <div className="text-sm font-medium">Standalone HTML</div>
+                            <div className="text-xs text-[var(--accent-dim)]">
+                                One self-contained page with a table of contents
+                            </div>
+                        </div>
+                    </button>
+
+                    <button
+                        onClick={handleDocx}
+                        disabled={!hasContent || exporting}
+                        className="flex w-full items-center gap-3 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-4 py-3 text-left transition-colors hover:bg-[var(--bg-elevated)] disabled:opacity-40"
+                    >
+                        <span className="text-xl">📝</span>
+                        <div>
+                            <div className="text-sm font-medium">Word Document</div>
+                            <div className="text-xs text-[var(--accent-dim)]">
+                                .docx with a cover page and table of contents
+                            </div>
+                        </div>
+                    </button>
+
+                    <button
+                        onClick={handlePrint}
+                        disabled={!hasContent || exporting}
+                        className="flex w-full items-center gap-3 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-4 py-3 text-left transition-colors hover:bg-[var(--bg-elevated)] disabled:opacity-40"
+                    >
+                        <span className="text-xl">🖨️</span>
+                        <div>
+                            <div className="text-sm font-medium">Print / Save as PDF</div>
+                            <div className="text-xs text-[var(--accent-dim)]">
+                                Opens the print dialog for the HTML spec; no file is downloaded
                             </div>
                         </div>
                     </button>
                 </div>
 
+                {hasReasoning && (
+                    <label className="mt-3 flex cursor-pointer items-center gap-2 text-xs text-[var(--accent-muted)]">
+                        <input
+                            type="checkbox"
+                            checked={includeReasoning}
+                            onChange={(e) => setIncludeReasoning(e.target.checked)}
+                        />
+                        Include model reasoning in the conversation log
+                    </label>
+                )}
+
                 <div className="mt-4 text-xs text-[var(--accent-dim)]">
                     {messageCount} messages in conversation
                 </div>
@@ -126,6 +273,45 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
     );
 }
 
+function SectionSourceRow({ section }: { section: CompiledSection }) {
+    const badge = SOURCE_BADGES[section.source];
+    return (
+        <li className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-[var(--accent-muted)]">{section.title}</span>
+            <span
+                className={badge.className}
+                title={
+                    section.matchedHeading
+                        ? `Not locked — taken from the conversation ("${section.matchedHeading}")`
+                        : undefined
+                }
+            >
+                {badge.label}
+            </span>
+        </li>
+    );
+}
+
+/**
+ * Opens the print dialog for a document, from a hidden frame so the app stays
+ * put. The frame is same-origin so it can be printed from here, but sandboxed
+ * without scripts.
+ */
+function printHtml(html: string) {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("sandbox", "allow-same-origin allow-modals");
+    frame.style.cssText = "position: fixed; width: 0; height: 0; border: 0;";
+    frame.onload = () => {
+        const view = frame.contentWindow;
+        if (!view) return frame.remove();
+        view.addEventListener("afterprint", () => frame.remove());
+        view.focus();
+        view.print();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+}
+
 function slugify(text: string): string {
     return text
         .toLowerCase()
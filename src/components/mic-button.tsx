@@ -2,6 +2,7 @@
 
 import { useRef, useState, useCallback, useEffect } from "react";
 import { useSettingsStore } from "@/store/settings-store";
+import { LLM_PROXY_ENABLED } from "@/lib/llm-proxy";
 
 interface MicButtonProps {
     onTranscript: (transcript: string) => void;
@@ -17,6 +18,7 @@ export default function MicButton({ onTranscript }: MicButtonProps) {
     const animFrameRef = useRef<number>(0);
     const streamRef = useRef<MediaStream | null>(null);
     const openaiKey = useSettingsStore((s) => s.openaiKey);
+    const canTranscribe = LLM_PROXY_ENABLED || !!openaiKey;
 
     // Visualiser
     const draw = useCallback(() => {
@@ -46,7 +48,7 @@ export default function MicButton({ onTranscript }: MicButtonProps) {
     }, []);
 
     const startRecording = useCallback(async () => {
-        if (!openaiKey) return;
+        if (!canTranscribe) return;
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
             streamRef.current = stream;
@@ -79,11 +81,14 @@ export default function MicButton({ onTranscript }: MicButtonProps) {
                     formData.append("file", blob, "recording.webm");
                     formData.append("model", "whisper-1");
 
-                    const res = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-                        method: "POST",
-                        headers: { Authorization: `Bearer ${openaiKey}` },
-                        body: formData,
-                    });
+                    // In proxy mode the server adds its own OpenAI key
+                    const res = LLM_PROXY_ENABLED
+                        ? await fetch("/api/transcribe", { method: "POST", body: formData })
+                        : await fetch("https://api.openai.com/v1/audio/transcriptions", {
+                            method: "POST",
+                            headers: { Authorization: `Bearer ${openaiKey}` },
+                            body: formData,
+                        });
 
                     if (!res.ok) {
                         const errorBody = await res.text();
@@ -107,7 +112,7 @@ export default function MicButton({ onTranscript }: MicButtonProps) {
         } catch (err) {
             console.error("Mic access error:", err);
         }
-    }, [openaiKey, onTranscript, draw]);
+    }, [canTranscribe, openaiKey, onTranscript, draw]);
 
     const stopRecording = useCallback(() => {
         const mr = mediaRecorderRef.current;
@@ -146,7 +151,7 @@ export default function MicButton({ onTranscript }: MicButtonProps) {
         };
     }, []);
 
-    if (!openaiKey) return null;
+    if (!canTranscribe) return null;
 
     return (
         <div className="flex items-center gap-2">
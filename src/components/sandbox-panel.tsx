@@ -5,14 +5,16 @@ import Markdown from "@/components/markdown";
 import { useProjectStore } from "@/store/project-store";
 import { useSettingsStore } from "@/store/settings-store";
 import { streamChat } from "@/lib/llm-client";
-import { getModelConfig, ConversationPhase } from "@/types";
+import { getTasks, isTaskGraphStale } from "@/lib/task-graph";
+import { ConversationPhase, ImplementationTask } from "@/types";
 
 type TabMode = "preview" | "markdown" | "editor";
 
 export default function SandboxPanel() {
-  const { activeConversationId, getActiveConversation, setSandboxCode, setSpecDoc } =
+  const { activeConversationId, getActiveConversation, setSandboxCode, setSpecDoc, addAuxUsage } =
     useProjectStore();
-  const { activeLLMModel, getKeyForProvider, isConfigured } = useSettingsStore();
+  const { getModelForTask, getParams, getKeyForModel, getFallbackChain, maxRetries, isConfigured } =
+    useSettingsStore();
   const conversation = getActiveConversation();
   const sandboxCode = conversation?.sandboxCode;
 
@@ -65,7 +67,7 @@ export default function SandboxPanel() {
   // Capture the current sandbox code at the moment the user clicks Generate
   const designCodeSnapshotRef = useRef<string>("");
 
-  const handleGeneratePreview = useCallback(() => {
+  const handleGeneratePreview = useCallback(async () => {
     if (isGenerating || !isConfigured || !activeConversationId) return;
 
     // Snapshot the design code NOW before generation starts
@@ -100,8 +102,8 @@ STRICT RULES:
 Output ONLY the raw JavaScript/JSX code.`;
 
     setIsGenerating(true);
-    const config = getModelConfig(activeLLMModel);
-    const apiKey = getKeyForProvider(config.provider);
+    const model = getModelForTask("preview", conversation?.model);
+    const apiKey = getKeyForModel(model);
     const abortController = new AbortController();
     abortRef.current = abortController;
     let fullResponse = "";
@@ -115,64 +117,74 @@ Output ONLY the raw JavaScript/JSX code.`;
 - For self-closing HTML tags (img, br, hr, input), ALWAYS use the /> self-closing syntax.
 - The last line of output must be the closing brace of the App function.`;
 
-    streamChat({
+    let failure: Error | null = null;
+    for await (const event of streamChat({
       messages: [
         { id: "", role: "user", content: prompt, timestamp: Date.now() },
       ],
       apiKey,
-      model: activeLLMModel,
+      model,
+      fallbacks: getFallbackChain(model),
+      params: getParams(model, "preview"),
+      maxRetries,
       signal: abortController.signal,
       systemPrompt: codeSystemPrompt,
-      onChunk: (chunk) => {
-        fullResponse += chunk;
-      },
-      onDone: () => {
-        let cleaned = fullResponse.trim();
-        // Strip code fences if AI wraps output
-        const fenceMatch = cleaned.match(/^```(?:jsx?|tsx?|react|javascript)?\s*\n([\s\S]*?)\n\s*```\s*$/);
-        if (fenceMatch) cleaned = fenceMatch[1].trim();
-        if (cleaned.startsWith("```")) {
-          cleaned = cleaned.replace(/^```(?:jsx?|tsx?|react|javascript)?\s*\n/, "").trim();
-        }
-        if (cleaned.endsWith("```")) {
-          cleaned = cleaned.replace(/\n?```\s*$/, "").trim();
-        }
+    })) {
+      if (event.type === "text") {
+        fullResponse += event.text;
+      } else if (event.type === "usage") {
+        addAuxUsage(activeConversationId, event.usage);
+      } else if (event.type === "error") {
+        failure = event.error;
+      }
+    }
 
-        // Truncation repair: close any unclosed braces/parens/tags
-        cleaned = repairTruncatedCode(cleaned);
+    if (failure) {
+      console.error("Preview generation error:", failure);
+      // Restore old code on error
+      if (designCodeSnapshotRef.current) {
+        setSandboxCode(activeConversationId!, designCodeSnapshotRef.current);
+      }
+      setPreviewError(`Preview generation error: ${failure.message}. The previous preview has been restored.`);
+      setIsGenerating(false);
+      abortRef.current = null;
+      return;
+    }
 
-        // Validate JSX by attempting a Babel transform before saving
-        try {
-          // Quick validation: see if Babel can parse it
-          // We do this in a Function constructor to avoid needing Babel as a direct dep
-          // The actual parsing happens via a simple regex check + structural validation
-          validateJSXStructure(cleaned);
-          setPreviewError(null);
-          setSandboxCode(activeConversationId!, cleaned);
-        } catch (validationErr: unknown) {
-          const errMsg = validationErr instanceof Error ? validationErr.message : String(validationErr);
-          console.error("Generated code validation failed:", errMsg);
-          // Keep the old code
-          if (designCodeSnapshotRef.current) {
-            setSandboxCode(activeConversationId!, designCodeSnapshotRef.current);
-          }
-          setPreviewError(`Preview generation failed: ${errMsg}. The previous preview has been restored.`);
-        }
-        setIsGenerating(false);
-        abortRef.current = null;
-      },
-      onError: (error) => {
-        console.error("Preview generation error:", error);
-        // Restore old code on error
-        if (designCodeSnapshotRef.current) {
-          setSandboxCode(activeConversationId!, designCodeSnapshotRef.current);
-        }
-        setPreviewError(`Preview generation error: ${error.message}. The previous preview has been restored.`);
-        setIsGenerating(false);
-        abortRef.current = null;
-      },
-    });
-  }, [isGenerating, isConfigured, activeConversationId, specDocs, sandboxCode, activeLLMModel, getKeyForProvider, setSandboxCode]);
+    let cleaned = fullResponse.trim();
+    // Strip code fences if AI wraps output
+    const fenceMatch = cleaned.match(/^```(?:jsx?|tsx?|react|javascript)?\s*\n([\s\S]*?)\n\s*```\s*$/);
+    if (fenceMatch) cleaned = fenceMatch[1].trim();
+    if (cleaned.startsWith("```")) {
+      cleaned = cleaned.replace(/^```(?:jsx?|tsx?|react|javascript)?\s*\n/, "").trim();
+    }
+    if (cleaned.endsWith("```")) {
+      cleaned = cleaned.replace(/\n?```\s*$/, "").trim();
+    }
+
+    // Truncation repair: close any unclosed braces/parens/tags
+    cleaned = repairTruncatedCode(cleaned);
+
+    // Validate JSX by attempting a Babel transform before saving
+    try {
+      // Quick validation: see if Babel can parse it
+      // We do this in a Function constructor to avoid needing Babel as a direct dep
+      // The actual parsing happens via a simple regex check + structural validation
+      validateJSXStructure(cleaned);
+      setPreviewError(null);
+      setSandboxCode(activeConversationId!, cleaned);
+    } catch (validationErr: unknown) {
+      const errMsg = validationErr instanceof Error ? validationErr.message : String(validationErr);
+      console.error("Generated code validation failed:", errMsg);
+      // Keep the old code
+      if (designCodeSnapshotRef.current) {
+        setSandboxCode(activeConversationId!, designCodeSnapshotRef.current);
+      }
+      setPreviewError(`Preview generation failed: ${errMsg}. The previous preview has been restored.`);
+    }
+    setIsGenerating(false);
+    abortRef.current = null;
+  }, [isGenerating, isConfigured, activeConversationId, specDocs, sandboxCode, conversation?.model, getModelForTask, getParams, getKeyForModel, getFallbackChain, maxRetries, setSandboxCode, addAuxUsage]);
 
   const handleStopGeneration = useCallback(() => {
     abortRef.current?.abort();
@@ -251,7 +263,11 @@ Output ONLY the raw JavaScript/JSX code.`;
           />
         )}
         {activeTab === "markdown" && (
-          <SpecTab specDocs={specDocs} />
+          <SpecTab
+            specDocs={specDocs}
+            tasks={conversation ? getTasks(conversation) : []}
+            tasksStale={!!conversation && isTaskGraphStale(conversation)}
+          />
         )}
         {activeTab === "editor" && (
           <EditorTab
@@ -353,7 +369,15 @@ const PHASE_LABELS: Record<ConversationPhase, string> = {
   export: "Implementation",
 };
 
-function SpecTab({ specDocs }: { specDocs: Partial<Record<ConversationPhase, string>> }) {
+function SpecTab({
+  specDocs,
+  tasks,
+  tasksStale,
+}: {
+  specDocs: Partial<Record<ConversationPhase, string>>;
+  tasks: ImplementationTask[];
+  tasksStale: boolean;
+}) {
   const hasAnyDocs = Object.values(specDocs).some((v) => v && v.trim());
   const [copied, setCopied] = useState(false);
 
@@ -416,6 +440,70 @@ function SpecTab({ specDocs }: { specDocs: Partial<Record<ConversationPhase, str
           </div>
         );
       })}
+      {tasks.length > 0 && <TaskList tasks={tasks} stale={tasksStale} />}
+    </div>
+  );
+}
+
+// ── Task graph (implementation tasks in dependency order) ──
+
+function TaskList({ tasks, stale }: { tasks: ImplementationTask[]; stale: boolean }) {
+  return (
+    <div className="mb-6">
+      <div className="mb-3 flex items-center gap-2">
+        <span className="rounded bg-[var(--accent-primary)]/10 px-2 py-0.5 text-xs font-medium text-[var(--accent-primary)]">
+          tasks.json
+        </span>
+        <span className="text-xs text-[var(--accent-dim)]">
+          {tasks.length} tasks, in dependency order
+        </span>
+      </div>
+      {stale && (
+        <p className="mb-2 text-xs text-[var(--accent-warning)]">
+          Generated before the implementation doc was edited — may not reflect the edits.
+        </p>
+      )}
+      <ol className="space-y-2">
+        {tasks.map((task) => (
+          <li
+            key={task.id}
+            className="rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-surface)] px-3 py-2"
+          >
+            <div className="flex items-baseline gap-2">
+              <span className="shrink-0 font-mono text-[10px] text-[var(--accent-primary)]">{task.id}</span>
+              <span className="flex-1 text-sm font-medium text-[var(--accent-muted)]">{task.title}</span>
+              {task.estimate && (
+                <span className="shrink-0 text-[10px] text-[var(--accent-dim)]">{task.estimate}</span>
+              )}
+            </div>
+            {task.description && (
+              <p className="mt-1 text-xs text-[var(--accent-dim)]">{task.description}</p>
+            )}
+            {task.dependsOn.length > 0 && (
+              <p className="mt-1 text-[10px] text-[var(--accent-dim)]">
+                After {task.dependsOn.join(", ")}
+              </p>
+            )}
+            {task.files.length > 0 && (
+              <p className="mt-1 truncate font-mono text-[10px] text-[var(--accent-dim)]" title={task.files.join("\n")}>
+                {task.files.join(" · ")}
+              </p>
+            )}
+            {task.acceptanceCriteria.length > 0 && (
+              <details className="mt-1 text-xs text-[var(--accent-dim)]">
+                <summary className="cursor-pointer text-[10px]">
+                  {task.acceptanceCriteria.length} acceptance criteria
+                </summary>
+                <ul className="mt-1 list-disc space-y-0.5 pl-4">
+                  {task.acceptanceCriteria.map((criterion, i) => (
+                    <li key={i}>{criterion}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </li>
+        ))}
+      </ol>
     </div>
   );
 }
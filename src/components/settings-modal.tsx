@@ -1,8 +1,23 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useSettingsStore } from "@/store/settings-store";
-import { LLM_MODELS } from "@/types";
+import { saveAs } from "file-saver";
+import { RefreshModelsResult, useSettingsStore } from "@/store/settings-store";
+import { getModelConfig, isRetiredModel, listModels } from "@/lib/providers/registry";
+import { deleteTranscript, listTranscripts } from "@/lib/mock-provider";
+import { LLM_PROXY_ENABLED } from "@/lib/llm-proxy";
+import { getParamLimits, validateParams } from "@/lib/generation-params";
+import {
+    AzureDeployment,
+    CustomEndpoint,
+    GenerationParams,
+    LLMModel,
+    LLMModelConfig,
+    ModelRouting,
+    ModelTask,
+    ReasoningEffort,
+    Transcript,
+} from "@/types";
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -17,6 +32,12 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         gemini: s.geminiKey,
         anthropic: s.anthropicKey,
         mistral: s.mistralKey,
+        openrouter: s.openrouterKey,
+    });
+    const [azure, setAzure] = useState({
+        resourceName: s.azure.resourceName,
+        apiVersion: s.azure.apiVersion,
+        apiKey: s.azure.apiKey,
     });
     const [showKeys, setShowKeys] = useState(false);
 
@@ -26,22 +47,68 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             gemini: s.geminiKey,
             anthropic: s.anthropicKey,
             mistral: s.mistralKey,
+            openrouter: s.openrouterKey,
+        });
+        setAzure({
+            resourceName: s.azure.resourceName,
+            apiVersion: s.azure.apiVersion,
+            apiKey: s.azure.apiKey,
         });
-    }, [s.openaiKey, s.geminiKey, s.anthropicKey, s.mistralKey, isOpen]);
+    }, [
+        s.openaiKey,
+        s.geminiKey,
+        s.anthropicKey,
+        s.mistralKey,
+        s.openrouterKey,
+        s.azure.resourceName,
+        s.azure.apiVersion,
+        s.azure.apiKey,
+        isOpen,
+    ]);
 
     if (!isOpen) return null;
 
+    const hasKeyFor = (m: LLMModelConfig) => {
+        if (m.provider === "custom" || m.provider === "mock") return true;
+        // Azure is called direct, so it needs a key even in proxy mode
+        if (m.provider === "azure") return azure.apiKey.trim().length > 0;
+        return LLM_PROXY_ENABLED || keys[m.provider].trim().length > 0;
+    };
+    const discoveredIds = new Set(s.modelCatalog.models.map((m) => m.id));
+    const models = listModels();
+    const curatedModels = models.filter((m) => !discoveredIds.has(m.id));
+    const discoveredModels = models.filter((m) => discoveredIds.has(m.id));
+    const modelOption = (m: LLMModelConfig) => (
+        <ModelOption
+            key={m.id}
+            model={m}
+            active={s.activeLLMModel === m.id}
+            available={hasKeyFor(m)}
+            detail={m.provider === "custom"
+                ? s.customEndpoints.find((e) => e.id === m.endpointId)?.name
+                : m.provider}
+            onSelect={() => s.setLLMModel(m.id)}
+        />
+    );
+
     const handleSave = () => {
         s.setKey("openai", keys.openai.trim());
         s.setKey("gemini", keys.gemini.trim());
         s.setKey("anthropic", keys.anthropic.trim());
         s.setKey("mistral", keys.mistral.trim());
+        s.setKey("openrouter", keys.openrouter.trim());
+        s.setAzureConfig({
+            resourceName: azure.resourceName.trim(),
+            apiVersion: azure.apiVersion.trim(),
+            apiKey: azure.apiKey.trim(),
+        });
         onClose();
     };
 
     const handleClear = () => {
         s.clearKeys();
-        setKeys({ openai: "", gemini: "", anthropic: "", mistral: "" });
+        setKeys({ openai: "", gemini: "", anthropic: "", mistral: "", openrouter: "" });
+        setAzure({ ...azure, apiKey: "" });
     };
 
     return (
@@ -66,77 +133,267 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 </div>
 
                 {/* ── API Keys ─────────────────────────────────────────── */}
-                <Section title="API Keys">
-                    <KeyInput
-                        label="OpenAI"
-                        value={keys.openai}
-                        onChange={(v) => setKeys({ ...keys, openai: v })}
-                        placeholder="sk-..."
-                        show={showKeys}
-                        configured={s.openaiKey.length > 0}
+                {LLM_PROXY_ENABLED ? (
+                    <Section title="API Keys">
+                        <p className="text-xs text-[var(--accent-dim)]">
+                            Managed by this deployment — requests go through its server, so no keys are needed here.
+                        </p>
+                    </Section>
+                ) : (
+                    <Section title="API Keys">
+                        <KeyInput
+                            label="OpenAI"
+                            value={keys.openai}
+                            onChange={(v) => setKeys({ ...keys, openai: v })}
+                            placeholder="sk-..."
+                            show={showKeys}
+                            configured={s.openaiKey.length > 0}
+                        />
+                        <KeyInput
+                            label="Google Gemini"
+                            value={keys.gemini}
+                            onChange={(v) => setKeys({ ...keys, gemini: v })}
+                            placeholder="AIza..."
+                            show={showKeys}
+                            configured={s.geminiKey.length > 0}
+                        />
+                        <KeyInput
+                            label="Anthropic"
+                            value={keys.anthropic}
+                            onChange={(v) => setKeys({ ...keys, anthropic: v })}
+                            placeholder="sk-ant-..."
+                            show={showKeys}
+                            configured={s.anthropicKey.length > 0}
+                        />
+                        <KeyInput
+                            label="Mistral"
+                            value={keys.mistral}
+                            onChange={(v) => setKeys({ ...keys, mistral: v })}
+                            placeholder="your-mistral-key"
+                            show={showKeys}
+                            configured={s.mistralKey.length > 0}
+                        />
+                        <KeyInput
+                            label="OpenRouter"
+                            value={keys.openrouter}
+                            onChange={(v) => setKeys({ ...keys, openrouter: v })}
+                            placeholder="sk-or-..."
+                            show={showKeys}
+                            configured={s.openrouterKey.length > 0}
+                        />
+                        <button
+                            onClick={() => setShowKeys(!showKeys)}
+                            className="mt-1 text-xs text-[var(--accent-dim)] transition-colors hover:text-[var(--accent-muted)]"
+                        >
+                            {showKeys ? "Hide keys" : "Show keys"}
+                        </button>
+                    </Section>
+                )}
+
+                {/* ── LLM Model ────────────────────────────────────────── */}
+                <Section title="Chat Model">
+                    <RefreshModels
+                        refreshedAt={s.modelCatalog.refreshedAt}
+                        onRefresh={s.refreshModels}
                     />
-                    <KeyInput
-                        label="Google Gemini"
-                        value={keys.gemini}
-                        onChange={(v) => setKeys({ ...keys, gemini: v })}
-                        placeholder="AIza..."
-                        show={showKeys}
-                        configured={s.geminiKey.length > 0}
+                    {isRetiredModel(s.activeLLMModel) && (
+                        <div className="mb-2 rounded-[var(--radius-sm)] bg-[var(--accent-warning)]/10 px-3 py-2 text-xs text-[var(--accent-warning)]">
+                            {getModelConfig(s.activeLLMModel)?.name ?? s.activeLLMModel} is no longer offered by its provider — pick another model.
+                        </div>
+                    )}
+                    <div className="grid grid-cols-1 gap-1.5">
+                        {curatedModels.map(modelOption)}
+                    </div>
+                    {discoveredModels.length > 0 && (
+                        <details className="mt-2">
+                            <summary className="cursor-pointer text-xs text-[var(--accent-dim)] hover:text-[var(--accent-muted)]">
+                                More models from your providers ({discoveredModels.length})
+                            </summary>
+                            <div className="mt-1.5 grid max-h-64 grid-cols-1 gap-1.5 overflow-y-auto">
+                                {discoveredModels.map(modelOption)}
+                            </div>
+                        </details>
+                    )}
+                    {getModelConfig(s.activeLLMModel)?.supportsReasoning && (
+                        <div className="mt-3 flex items-center gap-2">
+                            <label
+                                className="text-xs font-medium text-[var(--accent-muted)]"
+                                title="Stream the model's reasoning summary / thinking and show it above each reply"
+                            >
+                                Show reasoning
+                            </label>
+                            <div className="ml-auto flex gap-1">
+                                <ToggleBtn
+                                    label="On"
+                                    active={s.reasoningModels.includes(s.activeLLMModel)}
+                                    onClick={() => s.setReasoningEnabled(s.activeLLMModel, true)}
+                                />
+                                <ToggleBtn
+                                    label="Off"
+                                    active={!s.reasoningModels.includes(s.activeLLMModel)}
+                                    onClick={() => s.setReasoningEnabled(s.activeLLMModel, false)}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </Section>
+
+                {/* ── Model Routing ────────────────────────────────────── */}
+                <Section title="Model Routing">
+                    <TaskRouting
+                        routing={s.modelRouting}
+                        activeModel={s.activeLLMModel}
+                        onChange={s.setTaskModel}
+                        isAvailable={(m) => s.hasKeyForModel(m)}
                     />
-                    <KeyInput
-                        label="Anthropic"
-                        value={keys.anthropic}
-                        onChange={(v) => setKeys({ ...keys, anthropic: v })}
-                        placeholder="sk-ant-..."
-                        show={showKeys}
-                        configured={s.anthropicKey.length > 0}
+                </Section>
+
+                {/* ── Generation Parameters ────────────────────────────── */}
+                <Section title="Generation Parameters">
+                    <GenerationParamsEditor
+                        modelParams={s.modelParams}
+                        taskParams={s.taskParams}
+                        activeModel={s.activeLLMModel}
+                        onModelChange={s.setModelParams}
+                        onTaskChange={s.setTaskParams}
+                        isAvailable={(m) => s.hasKeyForModel(m)}
+                    />
+                </Section>
+
+                {/* ── Reliability ──────────────────────────────────────── */}
+                <Section title="Reliability">
+                    <div className="mb-3 flex items-center gap-2">
+                        <label className="text-xs font-medium text-[var(--accent-muted)]">
+                            Retries per model
+                        </label>
+                        <div className="ml-auto flex gap-1">
+                            {[0, 1, 2, 3, 5].map((n) => (
+                                <ToggleBtn
+                                    key={n}
+                                    label={String(n)}
+                                    active={s.maxRetries === n}
+                                    onClick={() => s.setMaxRetries(n)}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                    <div className="mb-3 flex items-center gap-2">
+                        <label className="text-xs font-medium text-[var(--accent-muted)]">
+                            Auto-continue cut-off replies
+                        </label>
+                        <div className="ml-auto flex gap-1">
+                            <ToggleBtn
+                                label="On"
+                                active={s.autoContinue}
+                                onClick={() => s.setAutoContinue(true)}
+                            />
+                            <ToggleBtn
+                                label="Off"
+                                active={!s.autoContinue}
+                                onClick={() => s.setAutoContinue(false)}
+                            />
+                        </div>
+                    </div>
+                    <FallbackChain
+                        value={s.fallbackModels}
+                        activeModel={s.activeLLMModel}
+                        onChange={s.setFallbackModels}
+                        isAvailable={(m) => s.hasKeyForModel(m)}
                     />
+                </Section>
+
+                {/* ── Azure OpenAI ─────────────────────────────────────── */}
+                <Section title="Azure OpenAI">
+                    <p className="mb-3 text-xs text-[var(--accent-dim)]">
+                        Deployments on your own Azure OpenAI resource, called directly{LLM_PROXY_ENABLED && " (not through this deployment's proxy)"}.
+                    </p>
+                    <div className="mb-3 flex gap-2">
+                        <input
+                            value={azure.resourceName}
+                            onChange={(e) => setAzure({ ...azure, resourceName: e.target.value })}
+                            placeholder="Resource name"
+                            className="min-w-0 flex-1 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-3 py-2 font-mono text-sm text-[var(--accent-primary)] placeholder-[var(--accent-dim)] transition-colors focus:border-[var(--border-focus)] focus:outline-none"
+                        />
+                        <input
+                            value={azure.apiVersion}
+                            onChange={(e) => setAzure({ ...azure, apiVersion: e.target.value })}
+                            placeholder="API version"
+                            title="api-version query parameter"
+                            className="w-44 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-3 py-2 font-mono text-sm text-[var(--accent-primary)] placeholder-[var(--accent-dim)] transition-colors focus:border-[var(--border-focus)] focus:outline-none"
+                        />
+                    </div>
                     <KeyInput
-                        label="Mistral"
-                        value={keys.mistral}
-                        onChange={(v) => setKeys({ ...keys, mistral: v })}
-                        placeholder="your-mistral-key"
+                        label="API key"
+                        value={azure.apiKey}
+                        onChange={(v) => setAzure({ ...azure, apiKey: v })}
+                        placeholder="your-azure-key"
                         show={showKeys}
-                        configured={s.mistralKey.length > 0}
+                        configured={s.azure.apiKey.length > 0}
+                    />
+                    {s.azure.deployments.map((deployment) => (
+                        <AzureDeploymentRow
+                            key={deployment.deployment}
+                            deployment={deployment}
+                            onRemove={() =>
+                                s.setAzureConfig({
+                                    deployments: s.azure.deployments.filter((d) => d.deployment !== deployment.deployment),
+                                })
+                            }
+                        />
+                    ))}
+                    <AzureDeploymentForm
+                        existing={s.azure.deployments.map((d) => d.deployment)}
+                        onAdd={(deployment) =>
+                            s.setAzureConfig({ deployments: [...s.azure.deployments, deployment] })
+                        }
                     />
-                    <button
-                        onClick={() => setShowKeys(!showKeys)}
-                        className="mt-1 text-xs text-[var(--accent-dim)] transition-colors hover:text-[var(--accent-muted)]"
-                    >
-                        {showKeys ? "Hide keys" : "Show keys"}
-                    </button>
                 </Section>
 
-                {/* ── LLM Model ────────────────────────────────────────── */}
-                <Section title="Chat Model">
-                    <div className="grid grid-cols-1 gap-1.5">
-                        {LLM_MODELS.map((m) => {
-                            const hasKey =
-                                m.provider === "openai" ? keys.openai.trim().length > 0
-                                    : m.provider === "gemini" ? keys.gemini.trim().length > 0
-                                        : m.provider === "anthropic" ? keys.anthropic.trim().length > 0
-                                            : m.provider === "mistral" ? keys.mistral.trim().length > 0
-                                                : false;
-                            return (
-                                <button
-                                    key={m.id}
-                                    onClick={() => s.setLLMModel(m.id)}
-                                    disabled={!hasKey}
-                                    className={`flex items-center justify-between rounded-[var(--radius-sm)] border px-3 py-2 text-sm transition-colors ${s.activeLLMModel === m.id
-                                        ? "border-[var(--accent-primary)] bg-[var(--bg-elevated)] text-[var(--accent-primary)]"
-                                        : hasKey
-                                            ? "border-[var(--border-subtle)] text-[var(--accent-muted)] hover:border-[var(--border-focus)]"
-                                            : "border-[var(--border-subtle)] text-[var(--accent-dim)] opacity-40 cursor-not-allowed"
-                                        }`}
-                                >
-                                    <span>{m.name}</span>
-                                    <span className="text-xs text-[var(--accent-dim)]">
-                                        {m.provider}
-                                    </span>
-                                </button>
-                            );
-                        })}
+                {/* ── Custom Endpoints ─────────────────────────────────── */}
+                <Section title="Custom Endpoints">
+                    <p className="mb-3 text-xs text-[var(--accent-dim)]">
+                        Any OpenAI-compatible server — Ollama, vLLM, LM Studio, llama.cpp.
+                    </p>
+                    {s.customEndpoints.map((endpoint) => (
+                        <CustomEndpointRow
+                            key={endpoint.id}
+                            endpoint={endpoint}
+                            onRemove={() => s.removeCustomEndpoint(endpoint.id)}
+                        />
+                    ))}
+                    <CustomEndpointForm onAdd={(endpoint) => s.addCustomEndpoint(endpoint)} />
+                </Section>
+
+                {/* ── Mock Provider ────────────────────────────────────── */}
+                <Section title="Mock Provider">
+                    <p className="mb-3 text-xs text-[var(--accent-dim)]">
+                        Work offline with the Mock models: Scripted returns canned replies, Replay plays back a recorded transcript.
+                    </p>
+                    <div className="mb-3 flex items-center gap-2">
+                        <label
+                            className="text-xs font-medium text-[var(--accent-muted)]"
+                            title="Save every real model response into a new transcript until switched off"
+                        >
+                            Record transcripts
+                        </label>
+                        <div className="ml-auto flex gap-1">
+                            <ToggleBtn
+                                label="On"
+                                active={s.recordTranscripts}
+                                onClick={() => s.setRecordTranscripts(true)}
+                            />
+                            <ToggleBtn
+                                label="Off"
+                                active={!s.recordTranscripts}
+                                onClick={() => s.setRecordTranscripts(false)}
+                            />
+                        </div>
                     </div>
+                    <TranscriptList
+                        recording={s.recordTranscripts}
+                        selectedId={s.replayTranscriptId}
+                        onSelect={s.setReplayTranscriptId}
+                    />
                 </Section>
 
                 {/* ── Actions ──────────────────────────────────────────── */}
@@ -169,6 +426,80 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
 // ── Helper components ───────────────────────────────────────────────────────
 
+function ModelOption({
+    model,
+    active,
+    available,
+    detail,
+    onSelect,
+}: {
+    model: LLMModelConfig;
+    active: boolean;
+    available: boolean;
+    detail?: string;
+    onSelect: () => void;
+}) {
+    return (
+        <button
+            onClick={onSelect}
+            disabled={!available}
+            className={`flex items-center justify-between rounded-[var(--radius-sm)] border px-3 py-2 text-sm transition-colors ${active
+                ? "border-[var(--accent-primary)] bg-[var(--bg-elevated)] text-[var(--accent-primary)]"
+                : available
+                    ? "border-[var(--border-subtle)] text-[var(--accent-muted)] hover:border-[var(--border-focus)]"
+                    : "border-[var(--border-subtle)] text-[var(--accent-dim)] opacity-40 cursor-not-allowed"
+                }`}
+        >
+            <span className="truncate">{model.name}</span>
+            <span className="text-xs text-[var(--accent-dim)]">{detail}</span>
+        </button>
+    );
+}
+
+function RefreshModels({
+    refreshedAt,
+    onRefresh,
+}: {
+    refreshedAt?: number;
+    onRefresh: () => Promise<RefreshModelsResult>;
+}) {
+    const [refreshing, setRefreshing] = useState(false);
+    const [result, setResult] = useState<RefreshModelsResult | null>(null);
+
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        setResult(await onRefresh());
+        setRefreshing(false);
+    };
+
+    return (
+        <div className="mb-3">
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-[var(--accent-dim)]">
+                    {result
+                        ? `${result.added} new ${result.added === 1 ? "model" : "models"}`
+                        : refreshedAt
+                            ? `Model list updated ${new Date(refreshedAt).toLocaleDateString()}`
+                            : "Built-in model list"}
+                </span>
+                <button
+                    onClick={handleRefresh}
+                    disabled={refreshing}
+                    title="List the models available to your saved keys"
+                    className="ml-auto rounded-[var(--radius-sm)] px-2 py-1 text-xs text-[var(--accent-muted)] transition-colors hover:bg-[var(--bg-elevated)] disabled:opacity-50"
+                >
+                    {refreshing ? "Refreshing…" : "↻ Refresh models"}
+                </button>
+            </div>
+            {result?.errors.map((error) => (
+                <div key={error} className="mt-1 truncate text-xs text-[var(--accent-error)]" title={error}>
+                    {error}
+                </div>
+            ))}
+        </div>
+    );
+}
+
 function Section({
     title,
     children,
@@ -225,6 +556,679 @@ function KeyInput({
     );
 }
 
+function FallbackChain({
+    value,
+    activeModel,
+    onChange,
+    isAvailable,
+}: {
+    value: LLMModel[];
+    activeModel: LLMModel;
+    onChange: (models: LLMModel[]) => void;
+    isAvailable: (model: LLMModel) => boolean;
+}) {
+    const models = listModels();
+    const nameOf = (id: LLMModel) => getModelConfig(id)?.name ?? id;
+    const candidates = models.filter((m) => !value.includes(m.id) && isAvailable(m.id));
+
+    const move = (index: number, delta: number) => {
+        const next = [...value];
+        const [item] = next.splice(index, 1);
+        next.splice(index + delta, 0, item);
+        onChange(next);
+    };
+
+    return (
+        <div>
+            <div className="mb-1 text-xs font-medium text-[var(--accent-muted)]">
+                Fallback chain
+            </div>
+            <p className="mb-2 text-xs text-[var(--accent-dim)]">
+                Tried in order when the active model keeps failing (rate limits, outages).
+            </p>
+            {value.map((id, i) => (
+                <div
+                    key={id}
+                    className={`mb-1 flex items-center gap-2 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-3 py-1.5 text-sm ${id === activeModel || !isAvailable(id) ? "opacity-40" : ""}`}
+                >
+                    <span className="text-xs text-[var(--accent-dim)]">{i + 1}.</span>
+                    <span className="flex-1 truncate text-[var(--accent-muted)]">{nameOf(id)}</span>
+                    <button
+                        onClick={() => move(i, -1)}
+                        disabled={i === 0}
+                        title="Move up"
+                        className="text-xs text-[var(--accent-dim)] hover:text-[var(--accent-primary)] disabled:opacity-30"
+                    >
+                        ↑
+                    </button>
+                    <button
+                        onClick={() => move(i, 1)}
+                        disabled={i === value.length - 1}
+                        title="Move down"
+                        className="text-xs text-[var(--accent-dim)] hover:text-[var(--accent-primary)] disabled:opacity-30"
+                    >
+                        ↓
+                    </button>
+                    <button
+                        onClick={() => onChange(value.filter((m) => m !== id))}
+                        title="Remove"
+                        className="text-xs text-[var(--accent-dim)] hover:text-[var(--accent-error)]"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            {candidates.length > 0 && (
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && onChange([...value, e.target.value as LLMModel])}
+                    className="mt-1 w-full rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-3 py-2 text-sm text-[var(--accent-muted)] focus:border-[var(--border-focus)] focus:outline-none"
+                >
+                    <option value="">+ Add fallback model…</option>
+                    {candidates.map((m) => (
+                        <option key={m.id} value={m.id}>
+                            {m.name}
+                        </option>
+                    ))}
+                </select>
+            )}
+        </div>
+    );
+}
+
+const TASK_LABELS: { task: ModelTask; label: string }[] = [
+    { task: "chat:vision", label: "Chat · Vision & Scope" },
+    { task: "chat:design", label: "Chat · Design System" },
+    { task: "chat:stack", label: "Chat · Tech Stack" },
+    { task: "chat:export", label: "Chat · Implementation" },
+    { task: "spec", label: "Spec generation" },
+    { task: "preview", label: "Preview code" },
+    { task: "summary", label: "Summaries" },
+];
+
+function TaskRouting({
+    routing,
+    activeModel,
+    onChange,
+    isAvailable,
+}: {
+    routing: ModelRouting;
+    activeModel: LLMModel;
+    onChange: (task: ModelTask, model: LLMModel | null) => void;
+    isAvailable: (model: LLMModel) => boolean;
+}) {
+    const models = listModels().filter((m) => isAvailable(m.id));
+    const activeName = getModelConfig(activeModel)?.name ?? activeModel;
+
+    return (
+        <div>
+            <p className="mb-2 text-xs text-[var(--accent-dim)]">
+                Pick a model per task — e.g. a fast one for brainstorming and a stronger one for specs and code.
+            </p>
+            {TASK_LABELS.map(({ task, label }) => {
+                const routed = routing[task];
+                const missing = routed && !models.some((m) => m.id === routed);
+                return (
+                    <div key={task} className="mb-1.5 flex items-center gap-2">
+                        <label className="w-40 shrink-0 text-xs text-[var(--accent-muted)]">{label}</label>
+                        <select
+                            value={routed ?? ""}
+                            onChange={(e) => onChange(task, (e.target.value || null) as LLMModel | null)}
+                            className={`min-w-0 flex-1 rounded-[var(--radius-sm)] border bg-[var(--bg-base)] px-2 py-1 text-xs text-[var(--accent-muted)] focus:border-[var(--border-focus)] focus:outline-none ${missing ? "border-[var(--accent-warning)]" : "border-[var(--border-subtle)]"}`}
+                            title={missing ? `Unavailable — ${activeName} is used instead` : undefined}
+                        >
+                            <option value="">Chat model ({activeName})</option>
+                            {missing && <option value={routed}>{getModelConfig(routed)?.name ?? routed}</option>}
+                            {models.map((m) => (
+                                <option key={m.id} value={m.id}>
+                                    {m.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+function GenerationParamsEditor({
+    modelParams,
+    taskParams,
+    activeModel,
+    onModelChange,
+    onTaskChange,
+    isAvailable,
+}: {
+    modelParams: Partial<Record<LLMModel, GenerationParams>>;
+    taskParams: Partial<Record<ModelTask, GenerationParams>>;
+    activeModel: LLMModel;
+    onModelChange: (model: LLMModel, params: GenerationParams) => void;
+    onTaskChange: (task: ModelTask, params: GenerationParams) => void;
+    isAvailable: (model: LLMModel) => boolean;
+}) {
+    // `model:<id>` or `task:<task>`; model IDs may contain colons themselves
+    const [scope, setScope] = useState<string>(`model:${activeModel}`);
+    const isTask = scope.startsWith("task:");
+    const id = scope.slice(scope.indexOf(":") + 1);
+    const config = isTask ? undefined : getModelConfig(id as LLMModel);
+    const current = (isTask ? taskParams[id as ModelTask] : modelParams[id as LLMModel]) ?? {};
+    const models = listModels().filter((m) => isAvailable(m.id));
+    const isSet = (params?: GenerationParams) => (params ? " •" : "");
+
+    return (
+        <div>
+            <p className="mb-2 text-xs text-[var(--accent-dim)]">
+                Override sampling and output length per model or per task. Task settings win, and every request is fitted to its model&apos;s limits.
+            </p>
+            <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                className="mb-2 w-full rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-3 py-2 text-sm text-[var(--accent-muted)] focus:border-[var(--border-focus)] focus:outline-none"
+            >
+                <optgroup label="Models">
+                    {models.map((m) => (
+                        <option key={m.id} value={`model:${m.id}`}>
+                            {m.name}
+                            {isSet(modelParams[m.id])}
+                        </option>
+                    ))}
+                </optgroup>
+                <optgroup label="Tasks">
+                    {TASK_LABELS.map(({ task, label }) => (
+                        <option key={task} value={`task:${task}`}>
+                            {label}
+                            {isSet(taskParams[task])}
+                        </option>
+                    ))}
+                </optgroup>
+            </select>
+            <ParamsForm
+                key={scope}
+                initial={current}
+                config={config}
+                onSave={(params) =>
+                    isTask ? onTaskChange(id as ModelTask, params) : onModelChange(id as LLMModel, params)
+                }
+            />
+        </div>
+    );
+}
+
+const EMPTY_PARAMS_DRAFT = { temperature: "", topP: "", maxTokens: "", reasoningEffort: "" };
+
+function ParamsForm({
+    initial,
+    config,
+    onSave,
+}: {
+    initial: GenerationParams;
+    /** Undefined for task settings, which may go to any model */
+    config?: LLMModelConfig;
+    onSave: (params: GenerationParams) => void;
+}) {
+    const [draft, setDraft] = useState({
+        temperature: initial.temperature?.toString() ?? "",
+        topP: initial.topP?.toString() ?? "",
+        maxTokens: initial.maxTokens?.toString() ?? "",
+        reasoningEffort: initial.reasoningEffort ?? "",
+    });
+    const toNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+    const params: GenerationParams = {
+        temperature: toNumber(draft.temperature),
+        topP: toNumber(draft.topP),
+        maxTokens: toNumber(draft.maxTokens),
+        reasoningEffort: (draft.reasoningEffort || undefined) as ReasoningEffort | undefined,
+    };
+    const errors = validateParams(params, config);
+    const limits = getParamLimits(config);
+    const [minTemp, maxTemp] = limits.temperature;
+
+    const field = (key: "temperature" | "topP" | "maxTokens", label: string, placeholder: string) => (
+        <label className="flex flex-col gap-1 text-xs text-[var(--accent-muted)]">
+            {label}
+            <input
+                inputMode="decimal"
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder={placeholder}
+                className="rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-2 py-1.5 text-sm text-[var(--accent-primary)] placeholder-[var(--accent-dim)] focus:border-[var(--border-focus)] focus:outline-none"
+            />
+        </label>
+    );
+
+    return (
+        <div>
+            <div className="grid grid-cols-3 gap-2">
+                {field("temperature", "Temperature", `${minTemp}–${maxTemp}`)}
+                {field("topP", "Top-p", "0–1")}
+                {field("maxTokens", "Max output", config ? `≤ ${config.maxTokens}` : "model max")}
+            </div>
+            {limits.reasoningEfforts.length > 0 && (
+                <label className="mt-2 flex items-center gap-2 text-xs text-[var(--accent-muted)]">
+                    Reasoning effort
+                    <select
+                        value={draft.reasoningEffort}
+                        onChange={(e) => setDraft({ ...draft, reasoningEffort: e.target.value })}
+                        className="ml-auto rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-2 py-1 text-xs text-[var(--accent-muted)] focus:outline-none"
+                    >
+                        <option value="">Default{config?.reasoningEffort ? ` (${config.reasoningEffort})` : ""}</option>
+                        {limits.reasoningEfforts.map((effort) => (
+                            <option key={effort} value={effort}>
+                                {effort}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            )}
+            {errors.map((error) => (
+                <div key={error} className="mt-1 text-xs text-[var(--accent-error)]">
+                    {error}
+                </div>
+            ))}
+            <div className="mt-2 flex justify-end gap-2">
+                <button
+                    onClick={() => {
+                        setDraft(EMPTY_PARAMS_DRAFT);
+                        onSave({});
+                    }}
+                    className="rounded-[var(--radius-sm)] px-3 py-1 text-xs text-[var(--accent-dim)] transition-colors hover:bg-[var(--bg-elevated)]"
+                >
+                    Reset
+                </button>
+                <button
+                    onClick={() => onSave(params)}
+                    disabled={errors.length > 0}
+                    className="rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-3 py-1 text-xs text-[var(--accent-muted)] transition-colors hover:bg-[var(--bg-elevated)] disabled:opacity-30"
+                >
+                    Apply
+                </button>
+            </div>
+        </div>
+    );
+}
+
+function TranscriptList({
+    recording,
+    selectedId,
+    onSelect,
+}: {
+    recording: boolean;
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+}) {
+    const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+
+    // Reload when a recording stops
+    useEffect(() => {
+        listTranscripts().then(setTranscripts);
+    }, [recording]);
+
+    const handleDelete = async (transcript: Transcript) => {
+        if (!confirm(`Delete "${transcript.name}"?`)) return;
+        await deleteTranscript(transcript.id);
+        if (transcript.id === selectedId) onSelect(null);
+        setTranscripts(await listTranscripts());
+    };
+
+    const handleDownload = (transcript: Transcript) => {
+        const blob = new Blob([JSON.stringify(transcript, null, 2)], { type: "application/json" });
+        saveAs(blob, `transcript-${transcript.id}.json`);
+    };
+
+    if (transcripts.length === 0) {
+        return (
+            <div className="text-xs italic text-[var(--accent-dim)]">
+                No transcripts recorded yet
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <div className="mb-1 text-xs font-medium text-[var(--accent-muted)]">
+                Replay transcript
+            </div>
+            {transcripts.map((t) => (
+                <div
+                    key={t.id}
+                    className={`mb-1 flex items-center gap-2 rounded-[var(--radius-sm)] border px-3 py-1.5 text-sm ${t.id === selectedId
+                        ? "border-[var(--accent-primary)] bg-[var(--bg-elevated)]"
+                        : "border-[var(--border-subtle)]"
+                        }`}
+                >
+                    <button
+                        onClick={() => onSelect(t.id === selectedId ? null : t.id)}
+                        className="flex-1 truncate text-left text-[var(--accent-muted)] hover:text-[var(--accent-primary)]"
+                    >
+                        {t.name}
+                    </button>
+                    <span className="text-xs text-[var(--accent-dim)]">
+                        {t.responses.length} {t.responses.length === 1 ? "response" : "responses"}
+                    </span>
+                    <button
+                        onClick={() => handleDownload(t)}
+                        title="Download as JSON"
+                        className="text-xs text-[var(--accent-dim)] hover:text-[var(--accent-primary)]"
+                    >
+                        ⬇
+                    </button>
+                    <button
+                        onClick={() => handleDelete(t)}
+                        title="Delete"
+                        className="text-xs text-[var(--accent-dim)] hover:text-[var(--accent-error)]"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function CustomEndpointRow({
+    endpoint,
+    onRemove,
+}: {
+    endpoint: CustomEndpoint;
+    onRemove: () => void;
+}) {
+    return (
+        <div className="mb-2 flex items-start justify-between gap-2 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-3 py-2">
+            <div className="min-w-0">
+                <div className="text-sm text-[var(--accent-primary)]">{endpoint.name}</div>
+                <div className="truncate font-mono text-xs text-[var(--accent-dim)]">
+                    {endpoint.baseUrl}
+                </div>
+                <div className="mt-1 text-xs text-[var(--accent-muted)]">
+                    {endpoint.models.map((m) => m.apiModel).join(", ")}
+                </div>
+            </div>
+            <button
+                onClick={onRemove}
+                title="Remove endpoint"
+                className="flex h-6 w-6 shrink-0 items-center justify-center rounded text-xs text-[var(--accent-dim)] hover:bg-[var(--accent-error)]/20 hover:text-[var(--accent-error)]"
+            >
+                ✕
+            </button>
+        </div>
+    );
+}
+
+const EMPTY_ENDPOINT_FORM = {
+    name: "",
+    baseUrl: "http://localhost:11434/v1",
+    apiKey: "",
+    models: "",
+    maxTokens: "8192",
+    contextWindow: "8192",
+};
+
+function CustomEndpointForm({
+    onAdd,
+}: {
+    onAdd: (endpoint: Omit<CustomEndpoint, "id">) => void;
+}) {
+    const [form, setForm] = useState(EMPTY_ENDPOINT_FORM);
+    const [open, setOpen] = useState(false);
+
+    const modelIds = form.models
+        .split(",")
+        .map((m) => m.trim())
+        .filter(Boolean);
+    const canAdd = form.name.trim() && /^https?:\/\//.test(form.baseUrl.trim()) && modelIds.length > 0;
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        const maxTokens = parseInt(form.maxTokens, 10) || 8192;
+        const contextWindow = parseInt(form.contextWindow, 10) || undefined;
+        onAdd({
+            name: form.name.trim(),
+            baseUrl: form.baseUrl.trim(),
+            apiKey: form.apiKey.trim(),
+            models: modelIds.map((apiModel) => ({
+                apiModel,
+                name: apiModel,
+                maxTokens,
+                contextWindow,
+            })),
+        });
+        setForm(EMPTY_ENDPOINT_FORM);
+        setOpen(false);
+    };
+
+    if (!open) {
+        return (
+            <button
+                onClick={() => setOpen(true)}
+                className="flex w-full items-center justify-center gap-2 rounded-[var(--radius-sm)] border border-dashed border-[var(--border-subtle)] py-2 text-sm text-[var(--accent-dim)] transition-colors hover:border-[var(--border-focus)] hover:text-[var(--accent-muted)]"
+            >
+                <span>+</span> Add Endpoint
+            </button>
+        );
+    }
+
+    const inputClass =
+        "mb-2 w-full rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-3 py-2 text-sm text-[var(--accent-primary)] placeholder-[var(--accent-dim)] transition-colors focus:border-[var(--border-focus)] focus:outline-none";
+
+    return (
+        <div className="rounded-[var(--radius-sm)] border border-[var(--border-subtle)] p-3">
+            <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name (e.g. Team Ollama)"
+                className={inputClass}
+            />
+            <input
+                value={form.baseUrl}
+                onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+                placeholder="Base URL (e.g. http://localhost:11434/v1)"
+                className={`${inputClass} font-mono`}
+            />
+            <input
+                type="password"
+                value={form.apiKey}
+                onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+                placeholder="API key (optional)"
+                className={`${inputClass} font-mono`}
+            />
+            <input
+                value={form.models}
+                onChange={(e) => setForm({ ...form, models: e.target.value })}
+                placeholder="Models, comma-separated (e.g. llama3.1:70b, qwen2.5-coder)"
+                className={`${inputClass} font-mono`}
+            />
+            <div className="mb-2 flex items-center gap-2">
+                <label className="text-xs text-[var(--accent-muted)]">Context</label>
+                <input
+                    value={form.contextWindow}
+                    onChange={(e) => setForm({ ...form, contextWindow: e.target.value.replace(/\D/g, "") })}
+                    className="w-20 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-2 py-1 font-mono text-sm text-[var(--accent-primary)] focus:border-[var(--border-focus)] focus:outline-none"
+                />
+                <label className="text-xs text-[var(--accent-muted)]">Max output</label>
+                <input
+                    value={form.maxTokens}
+                    onChange={(e) => setForm({ ...form, maxTokens: e.target.value.replace(/\D/g, "") })}
+                    className="w-20 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-2 py-1 font-mono text-sm text-[var(--accent-primary)] focus:border-[var(--border-focus)] focus:outline-none"
+                />
+            </div>
+            <div className="flex items-center gap-2">
+                <div className="ml-auto flex gap-2">
+                    <button
+                        onClick={() => {
+                            setForm(EMPTY_ENDPOINT_FORM);
+                            setOpen(false);
+                        }}
+                        className="rounded-[var(--radius-sm)] px-3 py-1 text-xs text-[var(--accent-muted)] transition-colors hover:bg-[var(--bg-elevated)]"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleAdd}
+                        disabled={!canAdd}
+                        className="rounded-[var(--radius-sm)] bg-[var(--accent-primary)] px-3 py-1 text-xs font-medium text-[var(--bg-base)] transition-colors hover:bg-[var(--accent-muted)] disabled:opacity-30"
+                    >
+                        Add
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function AzureDeploymentRow({
+    deployment,
+    onRemove,
+}: {
+    deployment: AzureDeployment;
+    onRemove: () => void;
+}) {
+    const traits = [
+        `${deployment.maxTokens.toLocaleString()} max output`,
+        deployment.reasoning && "reasoning",
+        deployment.supportsVision && "vision",
+    ].filter(Boolean);
+    return (
+        <div className="mb-2 flex items-start justify-between gap-2 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] px-3 py-2">
+            <div className="min-w-0">
+                <div className="text-sm text-[var(--accent-primary)]">{deployment.name}</div>
+                <div className="truncate font-mono text-xs text-[var(--accent-dim)]">
+                    {deployment.deployment}
+                </div>
+                <div className="mt-1 text-xs text-[var(--accent-muted)]">{traits.join(" · ")}</div>
+            </div>
+            <button
+                onClick={onRemove}
+                title="Remove deployment"
+                className="flex h-6 w-6 shrink-0 items-center justify-center rounded text-xs text-[var(--accent-dim)] hover:bg-[var(--accent-error)]/20 hover:text-[var(--accent-error)]"
+            >
+                ✕
+            </button>
+        </div>
+    );
+}
+
+const EMPTY_DEPLOYMENT_FORM = {
+    deployment: "",
+    name: "",
+    maxTokens: "16384",
+    contextWindow: "128000",
+    reasoning: false,
+    supportsVision: false,
+};
+
+function AzureDeploymentForm({
+    existing,
+    onAdd,
+}: {
+    existing: string[];
+    onAdd: (deployment: AzureDeployment) => void;
+}) {
+    const [form, setForm] = useState(EMPTY_DEPLOYMENT_FORM);
+    const [open, setOpen] = useState(false);
+
+    const deployment = form.deployment.trim();
+    const canAdd = deployment && !existing.includes(deployment);
+
+    const handleAdd = () => {
+        if (!canAdd) return;
+        onAdd({
+            deployment,
+            name: form.name.trim() || deployment,
+            maxTokens: parseInt(form.maxTokens, 10) || 16384,
+            contextWindow: parseInt(form.contextWindow, 10) || undefined,
+            reasoning: form.reasoning,
+            supportsVision: form.supportsVision,
+        });
+        setForm(EMPTY_DEPLOYMENT_FORM);
+        setOpen(false);
+    };
+
+    if (!open) {
+        return (
+            <button
+                onClick={() => setOpen(true)}
+                className="flex w-full items-center justify-center gap-2 rounded-[var(--radius-sm)] border border-dashed border-[var(--border-subtle)] py-2 text-sm text-[var(--accent-dim)] transition-colors hover:border-[var(--border-focus)] hover:text-[var(--accent-muted)]"
+            >
+                <span>+</span> Add Deployment
+            </button>
+        );
+    }
+
+    const inputClass =
+        "mb-2 w-full rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-3 py-2 text-sm text-[var(--accent-primary)] placeholder-[var(--accent-dim)] transition-colors focus:border-[var(--border-focus)] focus:outline-none";
+
+    return (
+        <div className="rounded-[var(--radius-sm)] border border-[var(--border-subtle)] p-3">
+            <input
+                value={form.deployment}
+                onChange={(e) => setForm({ ...form, deployment: e.target.value })}
+                placeholder="Deployment name (e.g. gpt-4o-prod)"
+                className={`${inputClass} font-mono`}
+            />
+            <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Display name (optional)"
+                className={inputClass}
+            />
+            <div className="mb-2 flex items-center gap-2">
+                <label className="text-xs text-[var(--accent-muted)]">Context</label>
+                <input
+                    value={form.contextWindow}
+                    onChange={(e) => setForm({ ...form, contextWindow: e.target.value.replace(/\D/g, "") })}
+                    className="w-20 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-2 py-1 font-mono text-sm text-[var(--accent-primary)] focus:border-[var(--border-focus)] focus:outline-none"
+                />
+                <label className="text-xs text-[var(--accent-muted)]">Max output</label>
+                <input
+                    value={form.maxTokens}
+                    onChange={(e) => setForm({ ...form, maxTokens: e.target.value.replace(/\D/g, "") })}
+                    className="w-20 rounded-[var(--radius-sm)] border border-[var(--border-subtle)] bg-[var(--bg-base)] px-2 py-1 font-mono text-sm text-[var(--accent-primary)] focus:border-[var(--border-focus)] focus:outline-none"
+                />
+            </div>
+            <div className="flex items-center gap-3">
+                <label
+                    className="flex cursor-pointer items-center gap-2 text-xs text-[var(--accent-muted)]"
+                    title="o-series and GPT-5 deployments take a reasoning effort instead of a temperature"
+                >
+                    <input
+                        type="checkbox"
+                        checked={form.reasoning}
+                        onChange={(e) => setForm({ ...form, reasoning: e.target.checked })}
+                    />
+                    Reasoning model
+                </label>
+                <label className="flex cursor-pointer items-center gap-2 text-xs text-[var(--accent-muted)]">
+                    <input
+                        type="checkbox"
+                        checked={form.supportsVision}
+                        onChange={(e) => setForm({ ...form, supportsVision: e.target.checked })}
+                    />
+                    Vision
+                </label>
+                <div className="ml-auto flex gap-2">
+                    <button
+                        onClick={() => {
+                            setForm(EMPTY_DEPLOYMENT_FORM);
+                            setOpen(false);
+                        }}
+                        className="rounded-[var(--radius-sm)] px-3 py-1 text-xs text-[var(--accent-muted)] transition-colors hover:bg-[var(--bg-elevated)]"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleAdd}
+                        disabled={!canAdd}
+                        className="rounded-[var(--radius-sm)] bg-[var(--accent-primary)] px-3 py-1 text-xs font-medium text-[var(--bg-base)] transition-colors hover:bg-[var(--accent-muted)] disabled:opacity-30"
+                    >
+                        Add
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
 function ToggleBtn({
     label,
     active,
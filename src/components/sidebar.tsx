@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useProjectStore } from "@/store/project-store";
+import { formatCost, formatUsage, getProjectUsage } from "@/lib/usage";
 
 export default function Sidebar() {
     const {
@@ -112,6 +113,7 @@ export default function Sidebar() {
                             .sort((a, b) => b.updatedAt - a.updatedAt);
                         const isExpanded = expandedProjects.has(project.id);
                         const isActive = activeProjectId === project.id;
+                        const projectUsage = getProjectUsage(projectConvs);
 
                         return (
                             <div key={project.id} className="mb-1">
@@ -148,6 +150,15 @@ export default function Sidebar() {
                                         <span className="flex-1 truncate">{project.name}</span>
                                     )}
 
+                                    {projectUsage?.costUsd !== undefined && (
+                                        <span
+                                            className="text-[10px] text-[var(--accent-dim)] group-hover:hidden"
+                                            title={formatUsage(projectUsage)}
+                                        >
+                                            {formatCost(projectUsage.costUsd)}
+                                        </span>
+                                    )}
+
                                     {/* Actions */}
                                     <div className="flex gap-0.5 opacity-0 group-hover:opacity-100">
                                         <button
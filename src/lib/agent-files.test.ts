@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { Conversation } from "@/types";
+import { AGENT_PROFILES, compileAgentFiles } from "./agent-files";
+
+const long = (label: string) => Array.from({ length: 400 }, (_, i) => `- ${label} rule ${i}`).join("\n");
+
+const conversation: Conversation = {
+    id: "c1",
+    projectId: "p1",
+    title: "Habit Tracker",
+    phase: "export",
+    messages: [],
+    sandboxCode: null,
+    specDocs: {
+        vision: `# Vision & Scope\n\n## Problem\n\nStudents drop habits.\n\n${long("scope")}`,
+        design: `# Design System\n\n## Colors\n\n${long("color")}`,
+        stack: `# Tech Stack\n\n## Frontend\n\nNext.js\n\n${long("stack")}`,
+        export: `# Implementation Plan\n\n## Steps\n\n${long("step")}`,
+    },
+    createdAt: 0,
+    updatedAt: 0,
+};
+
+describe("compileAgentFiles", () => {
+    const files = compileAgentFiles(conversation, AGENT_PROFILES.map((p) => p.id));
+
+    it("writes every profile's files within its length limit", () => {
+        expect(Object.keys(files)).toEqual(
+            expect.arrayContaining([
+                "AGENTS.md",
+                "CLAUDE.md",
+                ".cursor/rules/project.mdc",
+                ".cursor/rules/design-system.mdc",
+                ".github/copilot-instructions.md",
+            ])
+        );
+        for (const profile of AGENT_PROFILES) {
+            for (const [path, content] of Object.entries(compileAgentFiles(conversation, [profile.id]))) {
+                expect(content.length, path).toBeLessThanOrEqual(profile.maxLength);
+            }
+        }
+    });
+
+    it("points at the spec files in the project root", () => {
+        for (const [path, content] of Object.entries(files)) {
+            expect(content, path).toContain("project root");
+            expect(content, path).not.toContain("next to this file");
+        }
+    });
+});
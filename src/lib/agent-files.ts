@@ -0,0 +1,322 @@
+import { Conversation, ConversationPhase, DesignSpec, ImplementationSpec, PhaseSpecs } from "@/types";
+import { CompiledSection, compileSections, nestHeadings } from "./spec-compiler";
+
+/**
+ * Agent instruction files: the specs condensed into the files coding agents
+ * pick up on their own. Structured specs are summarised field by field; a
+ * phase without one falls back to its compiled markdown. Each file keeps to
+ * its agent's length limit by dropping its lowest-priority blocks, and points
+ * at the full `@0N` spec files bundled in the project root.
+ */
+
+export type AgentProfileId = "agents" | "claude" | "cursor" | "copilot";
+
+export interface AgentProfile {
+    id: AgentProfileId;
+    name: string;
+    /** The files it writes, as shown in the export dialog */
+    files: string;
+    /** Characters per file */
+    maxLength: number;
+    build: (spec: SpecSource, maxLength: number) => Record<string, string>;
+}
+
+interface SpecSource {
+    title: string;
+    sections: Record<ConversationPhase, CompiledSection>;
+    /** Structured specs of locked phases */
+    data: Partial<PhaseSpecs>;
+}
+
+export const AGENT_PROFILES: AgentProfile[] = [
+    {
+        id: "agents",
+        name: "AGENTS.md",
+        files: "AGENTS.md",
+        // Codex reads up to 32 KiB of project docs by default
+        maxLength: 32_000,
+        build: (spec, maxLength) => ({
+            "AGENTS.md": fit(
+                `# ${spec.title}\n\nInstructions for coding agents working on this project.`,
+                [
+                    overview(spec, "full"),
+                    stack(spec, "full"),
+                    structure(spec),
+                    plan(spec, "full"),
+                    dataAndApi(spec),
+                    conventions(spec),
+                    design(spec, "full"),
+                ],
+                specFiles(),
+                maxLength
+            ),
+        }),
+    },
+    {
+        id: "claude",
+        name: "CLAUDE.md",
+        files: "CLAUDE.md",
+        // Loaded into every session, so kept to the essentials
+        maxLength: 10_000,
+        build: (spec, maxLength) => ({
+            "CLAUDE.md": fit(
+                `# ${spec.title}`,
+                [overview(spec, "brief"), stack(spec, "brief"), structure(spec), conventions(spec), plan(spec, "brief"), design(spec, "brief")],
+                specFiles(),
+                maxLength
+            ),
+        }),
+    },
+    {
+        id: "cursor",
+        name: "Cursor rules",
+        files: ".cursor/rules/*.mdc",
+        // Cursor suggests keeping each rule under 500 lines
+        maxLength: 12_000,
+        build: (spec, maxLength) => {
+            const rules: Record<string, string> = {
+                ".cursor/rules/project.mdc": mdcRule(
+                    { description: `${spec.title} — project overview and tech stack`, alwaysApply: true },
+                    fit(`# ${spec.title}`, [overview(spec, "brief"), stack(spec, "brief"), structure(spec)], specFiles(), maxLength)
+                ),
+            };
+            const designRules = design(spec, "full");
+            if (designRules) {
+                rules[".cursor/rules/design-system.mdc"] = mdcRule(
+                    { description: "Design tokens and component rules for UI work", globs: UI_GLOBS },
+                    fit("", [designRules], specFile("design"), maxLength)
+                );
+            }
+            const implementation = [plan(spec, "full"), dataAndApi(spec), conventions(spec)].filter(Boolean);
+            if (implementation.length > 0) {
+                // Without file paths in the plan there are no globs, and the agent pulls the rule in when needed
+                rules[".cursor/rules/implementation.mdc"] = mdcRule(
+                    {
+                        description: "Implementation plan, data models, API routes and testing",
+                        globs: planGlobs(spec.data.export),
+                    },
+                    fit("", implementation, specFile("export"), maxLength)
+                );
+            }
+            return rules;
+        },
+    },
+    {
+        id: "copilot",
+        name: "Copilot",
+        files: ".github/copilot-instructions.md",
+        // Copilot code review only reads the first 4,000 characters
+        maxLength: 4_000,
+        build: (spec, maxLength) => ({
+            ".github/copilot-instructions.md": fit(
+                `# ${spec.title}`,
+                [overview(spec, "brief"), stack(spec, "brief"), conventions(spec), design(spec, "brief"), structure(spec)],
+                specFiles(),
+                maxLength
+            ),
+        }),
+    },
+];
+
+/** Every file of the chosen profiles, by path */
+export function compileAgentFiles(conversation: Conversation, profiles: AgentProfileId[]): Record<string, string> {
+    const sections = compileSections(conversation);
+    const spec: SpecSource = {
+        title: conversation.title,
+        sections: Object.fromEntries(sections.map((s) => [s.phase, s])) as SpecSource["sections"],
+        // An edited doc wins over the data it was first rendered from
+        data: Object.fromEntries(
+            Object.entries(conversation.specData ?? {}).filter(
+                ([phase]) => !conversation.specDataStale?.[phase as ConversationPhase]
+            )
+        ),
+    };
+    return Object.assign(
+        {},
+        ...AGENT_PROFILES.filter((p) => profiles.includes(p.id)).map((p) => p.build(spec, p.maxLength))
+    );
+}
+
+// ─── Blocks ─────────────────────────────────────────────────────────────────
+
+type Detail = "full" | "brief";
+
+const UI_GLOBS = ["**/*.tsx", "**/*.jsx", "**/*.vue", "**/*.svelte", "**/*.css", "**/*.scss"];
+
+function overview(spec: SpecSource, detail: Detail): string {
+    const vision = spec.data.vision;
+    if (!vision) return fallback("Project overview", spec.sections.vision, detail);
+
+    const features = vision.mvpFeatures.map((f) =>
+        detail === "full" && f.description ? `**${f.name}** — ${f.description}` : f.name
+    );
+    return block("Project overview", [
+        `**${vision.projectName || spec.title}**${vision.tagline ? ` — ${vision.tagline}` : ""}`,
+        detail === "full" ? vision.problem : "",
+        vision.targetUsers.length > 0 ? `Users: ${vision.targetUsers.join("; ")}` : "",
+        features.length > 0 ? `MVP features:\n${bullets(features)}` : "",
+        vision.cutFeatures.length > 0
+            ? `Out of scope for the MVP — don't build: ${vision.cutFeatures.map((f) => f.name).join(", ")}`
+            : "",
+    ]);
+}
+
+function stack(spec: SpecSource, detail: Detail): string {
+    const stackSpec = spec.data.stack;
+    if (!stackSpec) return fallback("Tech stack", spec.sections.stack, detail);
+    return block("Tech stack", [
+        bullets(stackSpec.choices.map((c) => `**${c.layer}:** ${c.technology}`)),
+        stackSpec.integrations.length > 0 ? `Integrations: ${stackSpec.integrations.join(", ")}` : "",
+    ]);
+}
+
+function structure(spec: SpecSource): string {
+    const tree = spec.data.stack?.folderStructure.trim();
+    return tree ? block("Project structure", ["```\n" + tree + "\n```"]) : "";
+}
+
+function conventions(spec: SpecSource): string {
+    const { stack: stackSpec, export: implementation } = spec.data;
+    return block("Conventions", [
+        stackSpec?.tooling.length ? `Tooling:\n${bullets(stackSpec.tooling)}` : "",
+        implementation?.stateManagement ? `State management: ${implementation.stateManagement}` : "",
+        implementation?.testing.length ? `Testing:\n${bullets(implementation.testing)}` : "",
+    ]);
+}
+
+function plan(spec: SpecSource, detail: Detail): string {
+    const implementation = spec.data.export;
+    if (!implementation) return fallback("Implementation plan", spec.sections.export, detail);
+
+    const steps = implementation.steps.map((step, i) => {
+        if (detail === "brief") return `${i + 1}. ${step.title}`;
+        const files = step.files.length > 0 ? `\n   Files: ${step.files.map((f) => `\`${f}\``).join(", ")}` : "";
+        return `${i + 1}. **${step.title}** — ${step.description}${files}`;
+    });
+    return block("Implementation plan", [
+        detail === "brief" ? "Build in this order; the implementation spec has the details of each step." : "",
+        steps.join("\n"),
+    ]);
+}
+
+function dataAndApi(spec: SpecSource): string {
+    const implementation = spec.data.export;
+    if (!implementation) return "";
+    return block("Data models & API", [
+        bullets(implementation.dataModels.map((m) => `**${m.name}:** ${m.fields.join(", ")}`)),
+        bullets(implementation.apiRoutes.map((r) => `\`${r.method} ${r.path}\` — ${r.description}`)),
+    ]);
+}
+
+function design(spec: SpecSource, detail: Detail): string {
+    const designSpec = spec.data.design;
+    if (!designSpec) return fallback("Design system", spec.sections.design, detail);
+    if (detail === "brief") {
+        return block("Design system", [
+            `${designSpec.name ? `**${designSpec.name}** — ` : ""}${designSpec.vibe}`,
+            designSpec.colors.length > 0 ? `Colors: ${designSpec.colors.map((c) => `\`${c.token}\` ${c.hex}`).join(", ")}` : "",
+            "Use the design tokens rather than raw values.",
+        ]);
+    }
+    return block("Design system", [
+        `${designSpec.name ? `**${designSpec.name}** — ` : ""}${designSpec.vibe}`,
+        ...designDetails(designSpec),
+    ]);
+}
+
+function designDetails(spec: DesignSpec): string[] {
+    return [
+        labelledList("Typography", spec.typography.map((t) => `${t.role}: ${t.family} ${t.weight}, ${t.size}`)),
+        labelledList("Colors", spec.colors.map((c) => `\`${c.token}\` ${c.hex} — ${c.usage}`)),
+        spec.spacing.length > 0 ? `Spacing scale: ${spec.spacing.join(", ")}` : "",
+        spec.radius.length > 0 ? `Radius: ${spec.radius.map((r) => `\`${r.token}\` ${r.value}`).join(", ")}` : "",
+        labelledList("Components", spec.components.map((c) => `**${c.name}:** ${c.rules}`)),
+        labelledList("Motion", spec.motion),
+    ];
+}
+
+const SPEC_FILES: Record<ConversationPhase, string> = {
+    vision: "`@01-vision.md` — vision & scope",
+    design: "`@02-design.md` — design system",
+    stack: "`@03-stack.md` — tech stack & architecture",
+    export: "`@04-implementation.md` — implementation plan",
+};
+
+function specFiles(): string {
+    return block("Specs", [
+        "The full specs are in the project root. Read the relevant one before starting a task:",
+        bullets(Object.values(SPEC_FILES)),
+    ]);
+}
+
+function specFile(phase: ConversationPhase): string {
+    return `Full detail in the project root: ${SPEC_FILES[phase]}.`;
+}
+
+/** A phase without structured data: its compiled markdown, or just a pointer when brief */
+function fallback(title: string, section: CompiledSection, detail: Detail): string {
+    if (!section.content) return "";
+    if (detail === "brief") return block(title, [`See ${SPEC_FILES[section.phase]}.`]);
+    return block(title, [nestHeadings(section.content, 2)]);
+}
+
+/** Directories the plan's files live in, e.g. `src/app/**` */
+function planGlobs(implementation: ImplementationSpec | undefined): string[] {
+    const dirs = (implementation?.steps ?? [])
+        .flatMap((step) => step.files)
+        .map((file) => file.trim().split(/\s/)[0].replace(/[`'"]/g, "").replace(/^\.?\//, ""))
+        .map((file) => file.split("/").slice(0, -1))
+        .filter((parts) => parts.length > 0)
+        .map((parts) => `${parts.slice(0, 2).join("/")}/**`);
+    // `src/**` already covers `src/app/**`
+    const unique = [...new Set(dirs)];
+    return unique.filter((glob) => !unique.some((other) => other !== glob && glob.startsWith(other.slice(0, -2)))).slice(0, 8);
+}
+
+// ─── Formatting ─────────────────────────────────────────────────────────────
+
+function block(title: string, parts: string[]): string {
+    const body = parts.filter((p) => p.trim()).join("\n\n");
+    return body ? `## ${title}\n\n${body}` : "";
+}
+
+function bullets(items: string[]): string {
+    return items.map((item) => `- ${item}`).join("\n");
+}
+
+function labelledList(label: string, items: string[]): string {
+    return items.length > 0 ? `${label}:\n${bullets(items)}` : "";
+}
+
+/**
+ * Header, blocks and footer within `maxLength`. Blocks are in priority order;
+ * the last ones are dropped first and a note says so. The footer always stays.
+ */
+function fit(header: string, blocks: string[], footer: string, maxLength: number): string {
+    const render = (body: string[], trimmed: boolean) =>
+        [header, ...body, trimmed ? TRIMMED_NOTE : "", footer].filter(Boolean).join("\n\n") + "\n";
+    const kept = blocks.filter(Boolean);
+    if (render(kept, false).length <= maxLength) return render(kept, false);
+
+    while (kept.length > 1 && render(kept, true).length > maxLength) kept.pop();
+    const doc = render(kept, true);
+    if (doc.length <= maxLength || kept.length === 0) return doc;
+
+    // The top block alone is too long: cut it at a line break
+    const room = kept[0].length - (doc.length - maxLength);
+    kept[0] = kept[0].slice(0, Math.max(kept[0].lastIndexOf("\n", room), 0));
+    return render(kept, true);
+}
+
+const TRIMMED_NOTE = "> Trimmed to fit this agent's instruction limit — the spec files below have the rest.";
+
+/** A Cursor project rule: frontmatter and body. Cursor reads the values unquoted. */
+function mdcRule(meta: { description: string; globs?: string[]; alwaysApply?: boolean }, body: string): string {
+    return `---
+description: ${meta.description.replace(/[:\n]+/g, " ")}
+globs: ${meta.globs?.join(", ") ?? ""}
+alwaysApply: ${meta.alwaysApply ?? false}
+---
+
+${body}`;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { ToolCall } from "@/types";
+import { parseArchitectAction, replaceSpecSection } from "./architect-tools";
+
+const call = (name: string, args: unknown): ToolCall => ({ id: "call_1", name, arguments: JSON.stringify(args) });
+
+describe("parseArchitectAction", () => {
+    it("checks the arguments of each tool", () => {
+        expect(parseArchitectAction(call("request_lock", { phase: "design" }))).toEqual({
+            name: "request_lock",
+            phase: "design",
+            summary: "",
+        });
+        expect(parseArchitectAction(call("request_lock", { phase: "colors" }))).toBeNull();
+        expect(parseArchitectAction(call("render_preview", { code: "  " }))).toBeNull();
+        expect(parseArchitectAction(call("render_preview", { code: "function A() {}" }))).toMatchObject({
+            title: "Preview",
+        });
+    });
+
+    it("keeps only named options", () => {
+        const action = parseArchitectAction(
+            call("propose_options", { phase: "vision", options: [{ name: "A" }, { summary: "No name" }, null] })
+        );
+        expect(action).toEqual({ name: "propose_options", phase: "vision", options: [{ name: "A", summary: "" }] });
+        expect(parseArchitectAction(call("propose_options", { phase: "vision", options: [] }))).toBeNull();
+    });
+
+    it("returns null for unknown tools and malformed arguments", () => {
+        expect(parseArchitectAction(call("delete_everything", {}))).toBeNull();
+        expect(parseArchitectAction({ id: "call_1", name: "request_lock", arguments: "{ phase:" })).toBeNull();
+    });
+});
+
+describe("replaceSpecSection", () => {
+    const doc = [
+        "# Design System",
+        "",
+        "## Color tokens",
+        "",
+        "- Primary: #000",
+        "",
+        "### Dark mode",
+        "",
+        "Inverted.",
+        "",
+        "## Typography",
+        "",
+        "Inter",
+    ].join("\n");
+
+    it("replaces a section and its subsections up to the next heading of its level", () => {
+        expect(replaceSpecSection(doc, "color TOKENS", "- Primary: #fff\n")).toBe(
+            ["# Design System", "", "## Color tokens", "", "- Primary: #fff", "", "## Typography", "", "Inter"].join("\n")
+        );
+    });
+
+    it("replaces the last section up to the end of the doc", () => {
+        expect(replaceSpecSection(doc, "## Typography", "Geist")).toBe(doc.replace(/Inter$/, "Geist"));
+    });
+
+    it("appends a missing section", () => {
+        expect(replaceSpecSection(doc, "Spacing", "4px grid")).toBe(`${doc}\n\n## Spacing\n\n4px grid\n`);
+    });
+
+    it("ignores headings inside code blocks", () => {
+        const withCode = "## Setup\n\n```sh\n# Typography\nnpm i\n```\n\n## Typography\n\nInter";
+        expect(replaceSpecSection(withCode, "Typography", "Geist")).toBe(withCode.replace(/Inter$/, "Geist"));
+    });
+});
@@ -0,0 +1,175 @@
+import { ConversationPhase, ToolCall, ToolDefinition } from "@/types";
+
+/**
+ * Tools the architect drives the UI with: option cards, the lock
+ * confirmation, sandbox previews and spec edits. They replace conventions in
+ * the reply text, so the UI reacts to structured calls instead of phrases.
+ * Each call's result is sent back with it on the next turn.
+ */
+
+const PHASES: ConversationPhase[] = ["vision", "design", "stack", "export"];
+
+const PHASE_PARAM = {
+    type: "string",
+    enum: PHASES,
+    description: "vision = Vision & Scope, design = Design System, stack = Tech Stack, export = Implementation",
+};
+
+export const ARCHITECT_TOOLS: ToolDefinition[] = [
+    {
+        name: "propose_options",
+        description:
+            "Show the options you just proposed as cards the user can pick from. Describe the options in your reply first, then call this.",
+        parameters: {
+            type: "object",
+            properties: {
+                phase: PHASE_PARAM,
+                options: {
+                    type: "array",
+                    description: "2 to 3 options, in the order you presented them",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string", description: "Short name, e.g. \"Option A: Neo-Brutalist\"" },
+                            summary: { type: "string", description: "One sentence on what sets it apart" },
+                        },
+                        required: ["name", "summary"],
+                    },
+                },
+            },
+            required: ["phase", "options"],
+        },
+    },
+    {
+        name: "request_lock",
+        description:
+            "Ask the user to lock the current phase. Shows a confirmation card; the phase is only locked if the user confirms, and the app then writes its spec document. Use this instead of asking in text.",
+        parameters: {
+            type: "object",
+            properties: {
+                phase: PHASE_PARAM,
+                summary: { type: "string", description: "The decisions that will be locked, as short markdown bullets" },
+            },
+            required: ["phase", "summary"],
+        },
+    },
+    {
+        name: "render_preview",
+        description:
+            "Render a live UI preview in the user's sandbox. The code is plain React: one function component with inline styles, no import or export statements.",
+        parameters: {
+            type: "object",
+            properties: {
+                title: { type: "string", description: "What the preview shows, e.g. \"Option B: Midnight Minimal\"" },
+                code: { type: "string", description: "e.g. function DesignPreview() { return <div>...</div>; }" },
+            },
+            required: ["title", "code"],
+        },
+    },
+    {
+        name: "update_spec_section",
+        description:
+            "Rewrite one section of a locked phase's spec document, e.g. after the user changes a decision. The section is found by its heading and replaced up to the next heading of the same level; a missing one is appended.",
+        parameters: {
+            type: "object",
+            properties: {
+                phase: PHASE_PARAM,
+                heading: { type: "string", description: "Heading text without the #s, e.g. \"Color tokens\"" },
+                content: { type: "string", description: "The new section body in markdown, without the heading" },
+            },
+            required: ["phase", "heading", "content"],
+        },
+    },
+];
+
+export interface ProposedOption {
+    name: string;
+    summary: string;
+}
+
+/** A tool call with its arguments checked */
+export type ArchitectAction =
+    | { name: "propose_options"; phase: ConversationPhase; options: ProposedOption[] }
+    | { name: "request_lock"; phase: ConversationPhase; summary: string }
+    | { name: "render_preview"; title: string; code: string }
+    | { name: "update_spec_section"; phase: ConversationPhase; heading: string; content: string };
+
+/** Null for unknown tools and malformed arguments */
+export function parseArchitectAction(call: ToolCall): ArchitectAction | null {
+    let args;
+    try {
+        args = JSON.parse(call.arguments || "{}");
+    } catch {
+        return null;
+    }
+    const str = (value: unknown) => (typeof value === "string" ? value : null);
+    const phase = PHASES.find((p) => p === args?.phase);
+
+    switch (call.name) {
+        case "propose_options": {
+            const options: ProposedOption[] = Array.isArray(args.options)
+                ? args.options
+                    .filter((o: unknown) => str((o as ProposedOption)?.name))
+                    .map((o: ProposedOption) => ({ name: o.name, summary: str(o.summary) ?? "" }))
+                : [];
+            return phase && options.length > 0 ? { name: call.name, phase, options } : null;
+        }
+        case "request_lock":
+            return phase ? { name: call.name, phase, summary: str(args.summary) ?? "" } : null;
+        case "render_preview": {
+            const code = str(args.code)?.trim();
+            return code ? { name: call.name, title: str(args.title) || "Preview", code } : null;
+        }
+        case "update_spec_section": {
+            const heading = str(args.heading)?.trim();
+            const content = str(args.content);
+            return phase && heading && content !== null
+                ? { name: call.name, phase, heading, content }
+                : null;
+        }
+        default:
+            return null;
+    }
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Replaces the body of the section titled `heading` (any level, matched
+ * case-insensitively) up to the next heading of the same or a higher level.
+ * Appends a new `##` section if there's none. Code blocks are skipped.
+ */
+export function replaceSpecSection(doc: string, heading: string, content: string): string {
+    const lines = doc.split("\n");
+    const wanted = normalizeHeading(heading);
+    const body = content.trim();
+
+    let inFence = false;
+    let start = -1;
+    let level = 0;
+    let end = lines.length;
+    for (let i = 0; i < lines.length; i++) {
+        if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+        const match = !inFence && lines[i].match(HEADING);
+        if (!match) continue;
+        if (start === -1) {
+            if (normalizeHeading(match[2]) === wanted) {
+                start = i;
+                level = match[1].length;
+            }
+        } else if (match[1].length <= level) {
+            end = i;
+            break;
+        }
+    }
+
+    if (start === -1) {
+        return `${doc.trimEnd()}\n\n## ${heading.replace(/^#+\s*/, "")}\n\n${body}\n`;
+    }
+    const rest = lines.slice(end);
+    return [...lines.slice(0, start + 1), "", body, ...(rest.length > 0 ? ["", ...rest] : [])].join("\n");
+}
+
+function normalizeHeading(text: string) {
+    return text.replace(/^#+\s*/, "").trim().toLowerCase();
+}
@@ -0,0 +1,96 @@
+import { del as idbDel, get as idbGet, set as idbSet } from "idb-keyval";
+import { v4 as uuid } from "uuid";
+import { Attachment, Message } from "@/types";
+
+/**
+ * Image attachments. Message objects only carry metadata; the blobs are
+ * stored in IndexedDB one key per attachment so the conversation list stays
+ * small and fast to persist.
+ */
+
+const DB_ATTACHMENT_PREFIX = "vibe-architect-attachment-";
+
+/** Formats every vision provider accepts */
+export const SUPPORTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/** Anthropic's per-image limit, the strictest of the providers */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Rough prompt cost of one image, for context budgeting */
+export const IMAGE_TOKEN_ESTIMATE = 1500;
+
+/** Base64 payloads for a request's images, keyed by attachment id */
+export type ImageDataMap = Map<string, string>;
+
+/** Validates and stores an image. Throws with a user-facing message if it's unsupported. */
+export async function saveImageAttachment(file: File): Promise<Attachment> {
+    if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+        throw new Error(`${file.name || "This file"} isn't a PNG, JPEG, GIF or WebP image`);
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+        throw new Error(`${file.name || "This image"} is larger than 5 MB`);
+    }
+
+    const attachment: Attachment = {
+        id: uuid(),
+        name: file.name || "pasted-image",
+        mimeType: file.type,
+        size: file.size,
+    };
+    await idbSet(DB_ATTACHMENT_PREFIX + attachment.id, file);
+    return attachment;
+}
+
+export function getAttachmentBlob(id: string): Promise<Blob | undefined> {
+    return idbGet<Blob>(DB_ATTACHMENT_PREFIX + id);
+}
+
+export async function deleteAttachments(attachments: Attachment[]) {
+    await Promise.all(attachments.map((a) => idbDel(DB_ATTACHMENT_PREFIX + a.id)));
+}
+
+/** All attachments referenced by these messages */
+export function collectAttachments(messages: Message[]): Attachment[] {
+    return messages.flatMap((m) => m.attachments ?? []);
+}
+
+/** Loads the base64 data for every image referenced by `messages` */
+export async function loadImageData(messages: Message[]): Promise<ImageDataMap> {
+    const images: ImageDataMap = new Map();
+    await Promise.all(
+        collectAttachments(messages).map(async (a) => {
+            const blob = await getAttachmentBlob(a.id);
+            if (blob) images.set(a.id, await toBase64(blob));
+        })
+    );
+    return images;
+}
+
+/** A message's attached images that have data available */
+export function getMessageImages(message: Message, images?: ImageDataMap) {
+    return (message.attachments ?? []).flatMap((a) => {
+        const data = images?.get(a.id);
+        return data ? [{ mimeType: a.mimeType, data }] : [];
+    });
+}
+
+/** For models without vision: tell the model images were attached instead of sending them */
+export function describeAttachments(messages: Message[]): Message[] {
+    return messages.map((m) => {
+        if (!m.attachments?.length) return m;
+        const notes = m.attachments
+            .map((a) => `[Attached image "${a.name}" — not visible to this model]`)
+            .join("\n");
+        return { ...m, content: m.content ? `${m.content}\n\n${notes}` : notes };
+    });
+}
+
+async function toBase64(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = "";
+    // Chunked to stay under the argument limit of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
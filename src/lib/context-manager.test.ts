@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { Conversation, LLMModelConfig, Message } from "@/types";
+import { getInputBudget, planContext } from "./context-manager";
+
+// 8192-token window, 1000 reserved for the reply
+const CONFIG: LLMModelConfig = { id: "custom:local", name: "Local", provider: "custom", maxTokens: 1000, contextWindow: 8192 };
+const BUDGET = getInputBudget(CONFIG);
+
+/** Alternating user/assistant turns of ~`tokens` tokens each */
+function turns(count: number, tokens = 400): Message[] {
+    return Array.from({ length: count }, (_, i) => ({
+        id: `m${i}`,
+        role: i % 2 === 0 ? "user" : "assistant",
+        content: `${i} `.padEnd(tokens * 4, "x"),
+        timestamp: i,
+    }));
+}
+
+const spec = (tokens: number) => "# Spec\n".padEnd(tokens * 4, "x");
+
+function plan(history: Message[], conversation: Partial<Pick<Conversation, "summary" | "specDocs">> = {}, summaryFailed = false) {
+    return planContext(history, { specDocs: {}, ...conversation }, CONFIG, "", { summaryFailed });
+}
+
+const sentIds = (messages: Message[]) => messages.filter((m) => !m.id.startsWith("context-")).map((m) => m.id);
+
+describe("planContext", () => {
+    it("sends a history that fits unchanged", () => {
+        const history = turns(6);
+        expect(plan(history)).toEqual({
+            messages: history,
+            toSummarize: [],
+            compactedCount: 0,
+            omittedCount: 0,
+            overBudgetTokens: 0,
+        });
+    });
+
+    it("keeps recent turns verbatim and folds the rest into the summary", () => {
+        const history = turns(30);
+        const result = plan(history);
+
+        expect(result.compactedCount).toBeGreaterThan(0);
+        expect(result.toSummarize).toEqual(history.slice(0, result.compactedCount));
+        expect(sentIds(result.messages)).toEqual(history.slice(result.compactedCount).map((m) => m.id));
+        expect(result.messages[0]).toMatchObject({ role: "user", contextPreamble: true });
+        expect(result.overBudgetTokens).toBe(0);
+    });
+
+    it("leaves room for the locked specs", () => {
+        const history = turns(30);
+        const specDocs = { vision: spec(1500), design: spec(1500), stack: spec(1500) };
+        const withoutSpecs = plan(history);
+        const withSpecs = plan(history, { specDocs });
+
+        expect(withSpecs.compactedCount).toBeGreaterThan(withoutSpecs.compactedCount);
+        expect(withSpecs.messages[0].content).toContain('<locked_spec file="@03-stack.md">');
+        expect(withSpecs.overBudgetTokens).toBe(0);
+    });
+
+    it("reports what's left over when the locked specs alone don't fit", () => {
+        const history = turns(30);
+        const specDocs = { vision: spec(3000), design: spec(3000), stack: spec(3000) };
+        const result = plan(history, { specDocs });
+
+        // Only the newest exchange is left verbatim
+        expect(sentIds(result.messages)).toEqual(["m28", "m29"]);
+        expect(result.overBudgetTokens).toBeGreaterThan(9000 - BUDGET);
+    });
+
+    it("only folds in turns after the existing summary", () => {
+        const history = turns(30);
+        const summary = { content: "- Habit tracker for students", throughMessageId: "m9", messageCount: 10, updatedAt: 0 };
+        const result = plan(history, { summary });
+
+        expect(result.toSummarize[0].id).toBe("m10");
+        expect(result.messages[0].content).toContain("- Habit tracker for students");
+    });
+
+    it("summarizes afresh once the summary's last message is gone", () => {
+        const history = turns(30);
+        const summary = { content: "- Stale summary", throughMessageId: "deleted", messageCount: 10, updatedAt: 0 };
+        const result = plan(history, { summary });
+
+        expect(result.toSummarize[0].id).toBe("m0");
+        expect(result.messages[0].content).not.toContain("Stale summary");
+    });
+
+    it("marks turns it couldn't summarize as omitted", () => {
+        const history = turns(30);
+        const result = plan(history, {}, true);
+
+        expect(result.toSummarize).toEqual([]);
+        expect(result.omittedCount).toBe(result.compactedCount);
+        expect(result.messages[0].content).toContain(`<omitted_messages count="${result.omittedCount}">`);
+    });
+});
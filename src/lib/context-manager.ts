@@ -0,0 +1,301 @@
+import {
+    Conversation,
+    ConversationPhase,
+    ConversationSummary,
+    GenerationParams,
+    LLMModel,
+    LLMModelConfig,
+    Message,
+    TokenUsage,
+} from "@/types";
+import { StreamTarget, streamChat } from "./llm-client";
+import { getModelConfig } from "./providers/registry";
+import { SUMMARY_SYSTEM_PROMPT, SYSTEM_PROMPT } from "./system-prompt";
+import { IMAGE_TOKEN_ESTIMATE } from "./attachments";
+
+/**
+ * Keeps requests inside the model's context window. When the history no
+ * longer fits, older turns are folded into a running LLM-written summary
+ * stored on the conversation, locked spec docs are re-sent verbatim, and
+ * only the most recent turns are sent as-is.
+ */
+
+/** Used when a model doesn't declare its context window (e.g. custom endpoints) */
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/** Share of the input budget reserved for recent turns kept verbatim */
+const RECENT_SHARE = 0.5;
+
+/** Always keep at least this many trailing messages verbatim */
+const MIN_RECENT_MESSAGES = 2;
+
+/** Summary updates per request; a longer summary can push the cut later and leave more turns to fold in */
+const MAX_SUMMARY_ROUNDS = 2;
+
+/** Tool call arguments kept in the transcript sent for summarizing */
+const TOOL_ARGS_PREVIEW_CHARS = 300;
+
+const SPEC_FILE_NAMES: Record<ConversationPhase, string> = {
+    vision: "@01-vision.md",
+    design: "@02-design.md",
+    stack: "@03-stack.md",
+    export: "@04-implementation.md",
+};
+
+/** Rough token estimate (~4 characters per token for English prose and code) */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function estimateMessages(messages: Message[]): number {
+    // Small per-message overhead for role markers
+    return messages.reduce(
+        (sum, m) =>
+            sum +
+            estimateTokens(m.content) +
+            (m.attachments?.length ?? 0) * IMAGE_TOKEN_ESTIMATE +
+            (m.toolCalls ?? []).reduce((n, c) => n + estimateTokens(c.arguments + (c.result ?? "")), 0) +
+            4,
+        0
+    );
+}
+
+/** Tokens available for the system prompt + messages, leaving room for the reply */
+export function getInputBudget(config: LLMModelConfig): number {
+    const window = config.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    const reserve = Math.min(config.maxTokens, Math.floor(window / 4));
+    return window - reserve;
+}
+
+export interface ContextPlan {
+    /** Messages to send to the provider */
+    messages: Message[];
+    /** Older messages that must be folded into the summary before sending */
+    toSummarize: Message[];
+    /** How many leading messages are represented by the summary instead of verbatim */
+    compactedCount: number;
+    /** Of those, how many are missing from the summary too because it couldn't be updated */
+    omittedCount: number;
+    /** Estimated tokens the messages still exceed the budget by, e.g. when the locked specs alone don't fit */
+    overBudgetTokens: number;
+}
+
+/**
+ * Decides which messages are sent verbatim. `history` is the full message
+ * list for this request, including the new user turn. With `summaryFailed`,
+ * the turns that needed summarizing are left out and the preamble says so.
+ */
+export function planContext(
+    history: Message[],
+    conversation: Pick<Conversation, "summary" | "specDocs">,
+    config: LLMModelConfig,
+    systemPrompt: string,
+    { summaryFailed = false }: { summaryFailed?: boolean } = {}
+): ContextPlan {
+    const budget = getInputBudget(config) - estimateTokens(systemPrompt);
+
+    if (estimateMessages(history) <= budget) {
+        return { messages: history, toSummarize: [], compactedCount: 0, omittedCount: 0, overBudgetTokens: 0 };
+    }
+
+    const summary = currentSummary(history, conversation.summary);
+    const preamble = (omittedCount: number) =>
+        buildContextPreamble(summary?.content ?? "", conversation.specDocs, omittedCount);
+
+    // The preamble is sent whole, so recent turns only get what it leaves over
+    const preambleCost = estimateMessages(preamble(summaryFailed ? history.length : 0));
+    const recentBudget = Math.min(budget * RECENT_SHARE, budget - preambleCost);
+
+    // Walk back from the newest message until the recent-turn budget is spent
+    let keepFrom = history.length;
+    let used = 0;
+    while (keepFrom > 0) {
+        const cost = estimateMessages([history[keepFrom - 1]]);
+        const mustKeep = history.length - keepFrom < MIN_RECENT_MESSAGES;
+        if (!mustKeep && used + cost > recentBudget) break;
+        used += cost;
+        keepFrom--;
+    }
+    // Providers expect the first verbatim turn to come from the user
+    while (keepFrom < history.length - 1 && history[keepFrom].role !== "user") {
+        keepFrom++;
+    }
+
+    // Reuse the existing summary; if it already reaches past the cut, start after it
+    const summarizedUntil = summary
+        ? history.findIndex((m) => m.id === summary.throughMessageId) + 1
+        : 0;
+    if (summarizedUntil > keepFrom) {
+        keepFrom = Math.min(summarizedUntil, history.length - 1);
+    }
+
+    const toSummarize = history.slice(summarizedUntil, keepFrom);
+    const omittedCount = summaryFailed ? toSummarize.length : 0;
+    const messages = [...preamble(omittedCount), ...history.slice(keepFrom)];
+    return {
+        messages,
+        toSummarize: summaryFailed ? [] : toSummarize,
+        compactedCount: keepFrom,
+        omittedCount,
+        overBudgetTokens: Math.max(0, estimateMessages(messages) - budget),
+    };
+}
+
+/**
+ * The running summary, if the last message it covers is still in `history`.
+ * Once that message has been replaced or deleted there's no telling which
+ * turns the summary stands for, so the older turns are summarized afresh.
+ */
+function currentSummary(history: Message[], summary?: ConversationSummary): ConversationSummary | undefined {
+    return summary && history.some((m) => m.id === summary.throughMessageId) ? summary : undefined;
+}
+
+/** Summary + locked specs as a user/assistant exchange ahead of the recent turns */
+function buildContextPreamble(
+    summary: string,
+    specDocs: Partial<Record<ConversationPhase, string>>,
+    omittedCount: number
+): Message[] {
+    const specs = (Object.keys(SPEC_FILE_NAMES) as ConversationPhase[])
+        .filter((p) => specDocs[p]?.trim())
+        .map((p) => `<locked_spec file="${SPEC_FILE_NAMES[p]}">\n${specDocs[p]}\n</locked_spec>`);
+
+    const sections = [];
+    if (summary) {
+        sections.push(`<conversation_summary>\n${summary}\n</conversation_summary>`);
+    }
+    if (omittedCount > 0) {
+        sections.push(
+            `<omitted_messages count="${omittedCount}">\nSummarizing older turns failed, so ${omittedCount} earlier messages${summary ? " after the summary" : ""} are missing. If you need anything decided in them, ask the user instead of guessing.\n</omitted_messages>`
+        );
+    }
+    if (specs.length > 0) {
+        sections.push(`These phases are locked — treat them as final:\n\n${specs.join("\n\n")}`);
+    }
+
+    const now = Date.now();
+    return [
+        {
+            id: "context-preamble",
+            role: "user",
+            contextPreamble: true,
+            content: `Earlier parts of this conversation were condensed to fit your context window.\n\n${sections.join("\n\n")}`,
+            timestamp: now,
+        },
+        {
+            id: "context-ack",
+            role: "assistant",
+            content: "Understood — I'll continue from this context.",
+            timestamp: now,
+        },
+    ];
+}
+
+/**
+ * Folds `toSummarize` into the previous summary with a non-streamed LLM call.
+ * Resolves with the new summary, or null if the call failed or was aborted.
+ */
+export async function summarizeMessages(opts: {
+    previous?: ConversationSummary;
+    toSummarize: Message[];
+    model: LLMModel;
+    apiKey: string;
+    params?: GenerationParams;
+    signal?: AbortSignal;
+    onUsage?: (usage: TokenUsage) => void;
+}): Promise<ConversationSummary | null> {
+    const { previous, toSummarize } = opts;
+    const last = toSummarize[toSummarize.length - 1];
+
+    const transcript = toSummarize
+        .map((m) => `### ${m.role === "user" ? "User" : "Architect"}\n${[m.content, ...describeToolCalls(m)].join("\n")}`)
+        .join("\n\n");
+    const prompt = `${previous ? `<previous_summary>\n${previous.content}\n</previous_summary>\n\n` : ""}<new_messages>\n${transcript}\n</new_messages>\n\nWrite the updated summary.`;
+
+    let content = "";
+    for await (const event of streamChat({
+        messages: [{ id: "", role: "user", content: prompt, timestamp: Date.now() }],
+        apiKey: opts.apiKey,
+        model: opts.model,
+        params: opts.params,
+        signal: opts.signal,
+        systemPrompt: SUMMARY_SYSTEM_PROMPT,
+    })) {
+        if (event.type === "text") {
+            content += event.text;
+        } else if (event.type === "usage") {
+            opts.onUsage?.(event.usage);
+        } else if (event.type === "error" || (event.type === "stop" && event.reason === "aborted")) {
+            return null;
+        }
+    }
+
+    if (!content.trim()) return null;
+    return {
+        content: content.trim(),
+        throughMessageId: last.id,
+        messageCount: (previous?.messageCount ?? 0) + toSummarize.length,
+        updatedAt: Date.now(),
+    };
+}
+
+/**
+ * Plans the request context and, when older turns need compacting, updates
+ * the running summary first. If summarization fails the request still goes
+ * out, with the previous summary and a marker for the turns it doesn't cover.
+ */
+export async function prepareContext(opts: {
+    history: Message[];
+    conversation: Conversation;
+    model: LLMModel;
+    apiKey: string;
+    systemPrompt?: string;
+    /** Writes the running summary; defaults to `model` */
+    summarizer?: StreamTarget & { params?: GenerationParams };
+    signal?: AbortSignal;
+    onSummary: (summary: ConversationSummary) => void;
+    onUsage?: (usage: TokenUsage) => void;
+}): Promise<Omit<ContextPlan, "toSummarize">> {
+    const config = getModelConfig(opts.model);
+    if (!config) return { messages: opts.history, compactedCount: 0, omittedCount: 0, overBudgetTokens: 0 };
+
+    const systemPrompt = opts.systemPrompt ?? SYSTEM_PROMPT;
+    let conversation = opts.conversation;
+    let plan = planContext(opts.history, conversation, config, systemPrompt);
+
+    for (let round = 0; plan.toSummarize.length > 0; round++) {
+        const summary =
+            round < MAX_SUMMARY_ROUNDS
+                ? await summarizeMessages({
+                    previous: currentSummary(opts.history, conversation.summary),
+                    toSummarize: plan.toSummarize,
+                    model: opts.summarizer?.model ?? opts.model,
+                    apiKey: opts.summarizer?.apiKey ?? opts.apiKey,
+                    params: opts.summarizer?.params,
+                    signal: opts.signal,
+                    onUsage: opts.onUsage,
+                })
+                : null;
+        if (summary) {
+            opts.onSummary(summary);
+            conversation = { ...conversation, summary };
+            plan = planContext(opts.history, conversation, config, systemPrompt);
+        } else {
+            plan = planContext(opts.history, conversation, config, systemPrompt, { summaryFailed: true });
+        }
+    }
+
+    const { messages, compactedCount, omittedCount, overBudgetTokens } = plan;
+    return { messages, compactedCount, omittedCount, overBudgetTokens };
+}
+
+/** Tool calls as short transcript lines; long arguments (preview code) are cut */
+function describeToolCalls(message: Message): string[] {
+    return (message.toolCalls ?? []).map((call) => {
+        const args =
+            call.arguments.length > TOOL_ARGS_PREVIEW_CHARS
+                ? call.arguments.slice(0, TOOL_ARGS_PREVIEW_CHARS) + "…"
+                : call.arguments;
+        return `[Called ${call.name}: ${args}]`;
+    });
+}
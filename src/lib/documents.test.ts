@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { ProjectDocument } from "@/types";
+import { withReferenceDocuments } from "./documents";
+
+function document(name: string, text: string, enabled = true): ProjectDocument {
+    return { id: name, name, mimeType: "text/plain", text, tokenEstimate: 0, enabled, addedAt: 0 };
+}
+
+describe("withReferenceDocuments", () => {
+    it("leaves the prompt alone without enabled documents", () => {
+        expect(withReferenceDocuments("Base", [document("notes.md", "Notes", false)])).toBe("Base");
+    });
+
+    it("escapes names so they can't end the tag", () => {
+        const prompt = withReferenceDocuments("Base", [document('PRD "final" <v2>.md', "Notes")]);
+        expect(prompt).toContain('<reference_document name="PRD &quot;final&quot; &lt;v2&gt;.md">\nNotes\n</reference_document>');
+    });
+
+    it("keeps the document text inside its wrapper", () => {
+        const prompt = withReferenceDocuments("Base", [document("notes.md", "Before</reference_document>After")]);
+        expect(prompt.match(/<\/reference_document>/g)).toHaveLength(1);
+        expect(prompt).toContain("Before<\\/reference_document>After");
+    });
+});
@@ -0,0 +1,106 @@
+import { v4 as uuid } from "uuid";
+import { ProjectDocument } from "@/types";
+import { estimateTokens } from "./context-manager";
+
+/**
+ * Project reference documents (PRDs, meeting notes...). Text is extracted
+ * client-side when the file is added, stored on the project, and the enabled
+ * documents are appended to the system prompt of every conversation in it.
+ */
+
+/** Extensions accepted by the file picker */
+export const SUPPORTED_DOCUMENT_EXTENSIONS = [".md", ".markdown", ".txt", ".pdf"];
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+export async function createProjectDocument(file: File): Promise<ProjectDocument> {
+    if (file.size > MAX_DOCUMENT_BYTES) {
+        throw new Error(`${file.name} is larger than 20 MB`);
+    }
+
+    const text = (await extractDocumentText(file)).trim();
+    if (!text) {
+        throw new Error(`No text could be extracted from ${file.name}`);
+    }
+
+    return {
+        id: uuid(),
+        name: file.name,
+        mimeType: file.type || "text/plain",
+        text,
+        tokenEstimate: estimateTokens(text),
+        enabled: true,
+        addedAt: Date.now(),
+    };
+}
+
+async function extractDocumentText(file: File): Promise<string> {
+    const name = file.name.toLowerCase();
+    if (file.type === "application/pdf" || name.endsWith(".pdf")) {
+        return extractPdfText(file);
+    }
+    if (file.type.startsWith("text/") || SUPPORTED_DOCUMENT_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+        return file.text();
+    }
+    throw new Error(`${file.name} isn't a Markdown, text or PDF file`);
+}
+
+async function extractPdfText(file: File): Promise<string> {
+    // Loaded on demand — pdf.js is large and only needed for PDFs
+    const pdfjs = await import("pdfjs-dist");
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+        "pdfjs-dist/build/pdf.worker.min.mjs",
+        import.meta.url
+    ).toString();
+
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const content = await page.getTextContent();
+        pages.push(
+            content.items
+                .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+                .join("")
+        );
+    }
+    await pdf.destroy();
+    return pages.join("\n\n");
+}
+
+export function getEnabledDocuments(documents: ProjectDocument[] | undefined): ProjectDocument[] {
+    return (documents ?? []).filter((d) => d.enabled);
+}
+
+/**
+ * Appends the enabled documents to a system prompt. Keeping them in the
+ * system prompt (rather than the history) means they're never compacted
+ * away and are covered by the system prompt cache breakpoint.
+ */
+export function withReferenceDocuments(
+    systemPrompt: string,
+    documents: ProjectDocument[] | undefined
+): string {
+    const enabled = getEnabledDocuments(documents);
+    if (enabled.length === 0) return systemPrompt;
+
+    const blocks = enabled
+        .map((d) => `<reference_document name="${escapeAttribute(d.name)}">\n${escapeClosingTag(d.text)}\n</reference_document>`)
+        .join("\n\n");
+    return `${systemPrompt}
+
+## Reference Documents
+The user attached these documents to the project. Treat them as background context: use them to inform your questions and specs, and point out when the conversation contradicts them.
+
+${blocks}`;
+}
+
+// Names and text are the user's, so neither may end the wrapper tag early
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeClosingTag(text: string): string {
+    return text.replace(/<\/(reference_document)/gi, "<\\/$1");
+}
@@ -0,0 +1,103 @@
+import { GenerationParams, LLMModelConfig, LLMProvider, ReasoningEffort } from "@/types";
+import { PROVIDER_LABELS } from "./providers/registry";
+
+/**
+ * Generation parameters. Users override temperature, top-p, output length and
+ * reasoning effort per model and per task; each request gets the merged
+ * overrides clamped to what its model's provider accepts, so a task setting
+ * never breaks a fallback on a stricter provider.
+ */
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ["low", "medium", "high", "xhigh"];
+
+const TEMPERATURE_RANGE: Record<LLMProvider, [number, number]> = {
+    openai: [0, 2],
+    gemini: [0, 2],
+    anthropic: [0, 1],
+    mistral: [0, 1.5],
+    openrouter: [0, 2],
+    azure: [0, 2],
+    custom: [0, 2],
+    mock: [0, 2],
+};
+
+/** OpenRouter maps these onto each vendor's own reasoning controls */
+const OPENROUTER_EFFORTS: ReasoningEffort[] = ["low", "medium", "high"];
+
+/** Widest range across providers, for task-level settings that apply to any model */
+const ANY_TEMPERATURE: [number, number] = [0, 2];
+
+export interface ParamLimits {
+    temperature: [number, number];
+    maxTokens: number;
+    /** Empty if the model takes no reasoning effort */
+    reasoningEfforts: ReasoningEffort[];
+}
+
+/** What `config` accepts, or what any model might accept if omitted */
+export function getParamLimits(config?: LLMModelConfig): ParamLimits {
+    if (!config) {
+        return { temperature: ANY_TEMPERATURE, maxTokens: Infinity, reasoningEfforts: REASONING_EFFORTS };
+    }
+    return {
+        temperature: TEMPERATURE_RANGE[config.provider],
+        maxTokens: config.maxTokens,
+        // OpenAI-style reasoning models have a default effort; OpenRouter's take one when reasoning
+        reasoningEfforts: config.reasoningEffort
+            ? REASONING_EFFORTS
+            : config.provider === "openrouter" && config.supportsReasoning
+                ? OPENROUTER_EFFORTS
+                : [],
+    };
+}
+
+/** One message per invalid field; empty if the params are usable as-is */
+export function validateParams(params: GenerationParams, config?: LLMModelConfig): string[] {
+    const limits = getParamLimits(config);
+    const errors: string[] = [];
+    const [minTemp, maxTemp] = limits.temperature;
+    const where = config ? ` for ${PROVIDER_LABELS[config.provider]}` : "";
+
+    if (params.temperature !== undefined && !(params.temperature >= minTemp && params.temperature <= maxTemp)) {
+        errors.push(`Temperature must be between ${minTemp} and ${maxTemp}${where}`);
+    }
+    if (params.topP !== undefined && !(params.topP >= 0 && params.topP <= 1)) {
+        errors.push("Top-p must be between 0 and 1");
+    }
+    if (params.maxTokens !== undefined) {
+        if (!Number.isInteger(params.maxTokens) || params.maxTokens < 1) {
+            errors.push("Max output tokens must be a whole number above 0");
+        } else if (params.maxTokens > limits.maxTokens) {
+            errors.push(`Max output tokens must be at most ${limits.maxTokens.toLocaleString()} for ${config?.name}`);
+        }
+    }
+    if (params.reasoningEffort && !limits.reasoningEfforts.includes(params.reasoningEffort)) {
+        errors.push(`${config?.name ?? "This model"} doesn't take a reasoning effort`);
+    }
+    if (config?.provider === "anthropic" && params.temperature !== undefined && params.topP !== undefined) {
+        errors.push("Claude models take a temperature or a top-p, not both");
+    }
+    return errors;
+}
+
+/** Fits params to the model a request actually goes to; non-numbers are dropped */
+export function clampParams(params: GenerationParams, config: LLMModelConfig): GenerationParams {
+    const limits = getParamLimits(config);
+    const [minTemp, maxTemp] = limits.temperature;
+    const clamped: GenerationParams = {};
+
+    if (Number.isFinite(params.temperature)) {
+        clamped.temperature = Math.min(Math.max(params.temperature!, minTemp), maxTemp);
+    }
+    // Claude rejects both together; temperature wins
+    if (Number.isFinite(params.topP) && !(config.provider === "anthropic" && clamped.temperature !== undefined)) {
+        clamped.topP = Math.min(Math.max(params.topP!, 0), 1);
+    }
+    if (Number.isFinite(params.maxTokens)) {
+        clamped.maxTokens = Math.min(Math.max(Math.round(params.maxTokens!), 1), limits.maxTokens);
+    }
+    if (params.reasoningEffort && limits.reasoningEfforts.includes(params.reasoningEffort)) {
+        clamped.reasoningEffort = params.reasoningEffort;
+    }
+    return clamped;
+}
@@ -1,342 +1,433 @@
-import { Message, LLMModel, getModelConfig } from "@/types";
-import { SYSTEM_PROMPT } from "./system-prompt";
+import {
+    GenerationParams,
+    Message,
+    LLMModel,
+    LLMModelConfig,
+    ResponseFormat,
+    StopReason,
+    ThinkingBlock,
+    TokenUsage,
+    ToolCall,
+    ToolDefinition,
+} from "@/types";
+import { SYSTEM_PROMPT, withoutToolInstructions } from "./system-prompt";
+import { computeCost, sumUsage } from "./usage";
+import { describeAttachments, loadImageData } from "./attachments";
+import { isRecording, openMockStream, recordResponse } from "./mock-provider";
+import { LLM_PROXY_ENABLED, ProxyRequestBody } from "./llm-proxy";
+import { clampParams } from "./generation-params";
+import {
+    ProviderAdapter,
+    ProviderRequestInput,
+    getModelConfig,
+    getProviderForModel,
+} from "./providers/registry";
+import { fetchProvider } from "./providers/transport";
+
+/** A model plus the key to call it with */
+export interface StreamTarget {
+    model: LLMModel;
+    apiKey: string;
+}
 
-interface StreamChatOptions {
+/**
+ * Everything a chat stream can produce. A stream always finishes with either
+ * `stop` or `error`; `usage` (if reported) comes right before `stop`.
+ */
+export type StreamEvent =
+    | { type: "text"; text: string }
+    | { type: "reasoning"; text: string }
+    | { type: "tool_call"; call: ToolCall }
+    | { type: "thinking_block"; block: ThinkingBlock }
+    /** The model producing the content that follows; sent again if a fallback takes over */
+    | { type: "model"; model: LLMModel }
+    /** Total across retries and continuations, with cost */
+    | { type: "usage"; usage: TokenUsage }
+    | { type: "stop"; reason: StopReason }
+    /** Retries and fallbacks were exhausted */
+    | { type: "error"; error: Error };
+
+export interface StreamChatOptions {
     messages: Message[];
     apiKey: string;
     model: LLMModel;
-    onChunk: (chunk: string) => void;
-    onDone: () => void;
-    onError: (error: Error) => void;
     signal?: AbortSignal;
     systemPrompt?: string;
+    /** Models to fail over to, in order, once `model` has exhausted its retries */
+    fallbacks?: StreamTarget[];
+    /** Retries per model for rate limits, overloads and network errors */
+    maxRetries?: number;
+    /** Follow-up requests to make when a reply stops at `max_tokens` (default 0) */
+    maxContinuations?: number;
+    /** Request reasoning events from models that support them */
+    reasoning?: boolean;
+    /** Parameter overrides, clamped to each model's limits (fallbacks included) */
+    params?: GenerationParams;
+    /** Functions the model may call; their calls arrive as `tool_call` events */
+    tools?: ToolDefinition[];
+    /** Constrain the reply to JSON, where the provider supports it */
+    responseFormat?: ResponseFormat;
 }
 
-export async function streamChat(opts: StreamChatOptions) {
-    const config = getModelConfig(opts.model);
-
-    switch (config.provider) {
-        case "openai":
-            return streamOpenAI(opts);
-        case "gemini":
-            return streamGemini(opts);
-        case "anthropic":
-            return streamAnthropic(opts);
-        case "mistral":
-            return streamMistral(opts);
-        default:
-            opts.onError(new Error(`Unknown provider: ${config.provider}`));
+/** An HTTP or in-stream error reported by a provider */
+export class ProviderError extends Error {
+    constructor(
+        message: string,
+        readonly status?: number,
+        /** Server-requested wait before retrying, from `retry-after` */
+        readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = "ProviderError";
     }
 }
 
-// ─── OpenAI ─────────────────────────────────────────────────────────────────
-
-async function streamOpenAI(opts: StreamChatOptions) {
-    const { messages, apiKey, model, onChunk, onDone, onError, signal } = opts;
-    const config = getModelConfig(model);
-    const sysPrompt = opts.systemPrompt ?? SYSTEM_PROMPT;
-    const openaiMessages = [
-        { role: "system" as const, content: sysPrompt },
-        ...messages.map((m) => ({
-            role: m.role as "user" | "assistant" | "system",
-            content: m.content,
-        })),
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+/** Rate limits, timeouts and server-side failures (529 = Anthropic overloaded) */
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Streams a chat completion as typed events, retrying transient failures with
+ * exponential backoff and then failing over through `fallbacks`. Retries
+ * before the first text are invisible to the consumer; after that, the next
+ * attempt is asked to continue the partial response so text keeps appending
+ * seamlessly. The same mechanism extends replies cut off by the output
+ * limit, up to `maxContinuations` times.
+ */
+export async function* streamChat(opts: StreamChatOptions): AsyncGenerator<StreamEvent> {
+    const { signal } = opts;
+    const targets: StreamTarget[] = [
+        { model: opts.model, apiKey: opts.apiKey },
+        ...(opts.fallbacks ?? []).filter((f) => f.model !== opts.model),
     ];
-
-    try {
-        const body: Record<string, unknown> = {
-            model: config.apiModel ?? model,
-            messages: openaiMessages,
-            stream: true,
-            max_completion_tokens: config.maxTokens,
-        };
-
-        // Reasoning models use reasoning_effort instead of temperature
-        if (config.reasoningEffort) {
-            body.reasoning_effort = config.reasoningEffort;
-        } else {
-            body.temperature = 0.8;
-        }
-
-        const response = await fetch(
-            "https://api.openai.com/v1/chat/completions",
-            {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${apiKey}`,
-                },
-                body: JSON.stringify(body),
-                signal,
+    const maxRetries = opts.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const maxContinuations = opts.maxContinuations ?? 0;
+
+    let partial = "";
+    const made: Required<Pick<Message, "toolCalls" | "thinkingBlocks">> = { toolCalls: [], thinkingBlocks: [] };
+    let producer: LLMModel | null = null;
+    let continuations = 0;
+    const usages: TokenUsage[] = [];
+    let lastError: unknown = null;
+
+    for (const target of targets) {
+        for (let attempt = 0; ; attempt++) {
+            let stopReason: StopReason = "complete";
+            try {
+                const messages = partial
+                    ? continuationMessages(opts.messages, partial, made)
+                    : opts.messages;
+                // The rest of a cut-off JSON reply isn't a JSON document of its own
+                const request = partial ? { ...opts, responseFormat: undefined } : opts;
+                for await (const event of streamOnce(target, messages, request)) {
+                    if (event.type === "usage") {
+                        usages.push(event.usage);
+                    } else if (event.type === "stop") {
+                        stopReason = event.reason;
+                    } else {
+                        if (producer !== target.model) {
+                            producer = target.model;
+                            yield { type: "model", model: target.model };
+                        }
+                        if (event.type === "text") partial += event.text;
+                        if (event.type === "tool_call") made.toolCalls.push(event.call);
+                        if (event.type === "thinking_block") made.thinkingBlocks.push(event.block);
+                        yield event;
+                    }
+                }
+            } catch (error) {
+                if (isAbortError(error)) {
+                    yield { type: "stop", reason: "aborted" };
+                    return;
+                }
+                lastError = error;
+                if (!isRetryable(error) || attempt >= maxRetries) break;
+
+                try {
+                    await sleep(backoffDelay(error, attempt), signal);
+                } catch {
+                    yield { type: "stop", reason: "aborted" };
+                    return;
+                }
+                continue;
             }
-        );
-
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(`OpenAI API error (${response.status}): ${errorBody}`);
-        }
 
-        await readSSEStream(response, (data) => {
-            if (data === "[DONE]") {
-                onDone();
-                return true;
-            }
-            try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content;
-                if (content) onChunk(content);
-            } catch {
-                // skip malformed
+            if (stopReason === "max_tokens" && continuations < maxContinuations) {
+                continuations++;
+                attempt = -1;
+                continue;
             }
-            return false;
-        });
 
-        onDone();
-    } catch (error) {
-        handleStreamError(error, onDone, onError);
+            const total = sumUsage(usages);
+            if (total) yield { type: "usage", usage: total };
+            yield { type: "stop", reason: stopReason };
+            return;
+        }
     }
+
+    yield { type: "error", error: lastError instanceof Error ? lastError : new Error(String(lastError)) };
 }
 
-// ─── Mistral ────────────────────────────────────────────────────────────────
-
-async function streamMistral(opts: StreamChatOptions) {
-    const { messages, apiKey, model, onChunk, onDone, onError, signal } = opts;
-    const config = getModelConfig(model);
-    const sysPrompt = opts.systemPrompt ?? SYSTEM_PROMPT;
-    const mistralMessages = [
-        { role: "system" as const, content: sysPrompt },
-        ...messages.map((m) => ({
-            role: m.role as "user" | "assistant" | "system",
-            content: m.content,
-        })),
+/**
+ * Messages that ask the model to pick up a cut-off reply where it stopped.
+ */
+export function continuationMessages(
+    messages: Message[],
+    partial: string,
+    /** Tool calls the cut-off reply already made, with the thinking before them */
+    made: Pick<Message, "toolCalls" | "thinkingBlocks"> = {}
+): Message[] {
+    const now = Date.now();
+    const toolCalls = made.toolCalls?.length ? made.toolCalls : undefined;
+    return [
+        ...messages,
+        {
+            id: "",
+            role: "assistant",
+            content: partial,
+            toolCalls,
+            thinkingBlocks: toolCalls && made.thinkingBlocks,
+            timestamp: now,
+        },
+        {
+            id: "",
+            role: "user",
+            content:
+                "Your previous reply was cut off. Continue EXACTLY where it stopped — do not repeat any text, do not add a preamble, and keep the same formatting." +
+                (toolCalls ? " Don't repeat tool calls you already made." : ""),
+            timestamp: now,
+        },
     ];
+}
 
-    try {
-        const response = await fetch("https://api.mistral.ai/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify({
-                model: config.apiModel ?? model,
-                messages: mistralMessages,
-                stream: true,
-                max_tokens: config.maxTokens,
-                temperature: 0.7,
-            }),
-            signal,
-        });
-
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(`Mistral API error (${response.status}): ${errorBody}`);
-        }
+/**
+ * One request against one model. Content events pass straight through; usage
+ * is merged and priced into a single event at the end, and in-stream errors
+ * are thrown so the caller can retry.
+ */
+async function* streamOnce(
+    target: StreamTarget,
+    messages: Message[],
+    opts: StreamChatOptions
+): AsyncGenerator<StreamEvent> {
+    const config = getModelConfig(target.model);
+    if (!config) {
+        throw new Error(`Unknown model: ${target.model}`);
+    }
 
-        await readSSEStream(response, (data) => {
-            if (data === "[DONE]") {
-                onDone();
-                return true;
+    // Local servers often can't call tools. Past calls are dropped along with the
+    // tools, since providers reject calls to functions the request doesn't define.
+    const tools = config.provider === "custom" || !opts.tools?.length ? undefined : opts.tools;
+    const history = tools ? messages : withoutToolCalls(messages);
+    // Nor can they all do JSON mode; the prompt has to carry the format
+    const responseFormat = config.provider === "custom" ? undefined : opts.responseFormat;
+    // Without tools the architect falls back to <ui_preview> tags and the Lock button
+    const systemPrompt = tools || !opts.tools?.length
+        ? opts.systemPrompt ?? SYSTEM_PROMPT
+        : withoutToolInstructions(opts.systemPrompt ?? SYSTEM_PROMPT);
+
+    // Mock models never touch the network but are parsed like a real stream
+    const { adapter, response } =
+        config.provider === "mock"
+            ? await openMockStream({
+                config,
+                messages: history,
+                systemPrompt,
+                reasoning: opts.reasoning && config.supportsReasoning,
+                tools,
+                signal: opts.signal,
+            })
+            : await openProviderStream(target, config, history, { ...opts, systemPrompt, tools, responseFormat });
+
+    const parse = adapter.createStreamParser();
+    const usage: Partial<TokenUsage> = {};
+
+    reading: for await (const data of readSSEStream(response)) {
+        for (const event of parse(data)) {
+            if (event.type === "end") break reading;
+            if (event.type === "error") {
+                throw new ProviderError(`${adapter.name} stream error: ${event.message}`, event.status);
             }
-
-            try {
-                const parsed = JSON.parse(data);
-                const delta = parsed.choices?.[0]?.delta?.content;
-
-                if (typeof delta === "string") {
-                    onChunk(delta);
-                    return false;
-                }
-
-                if (Array.isArray(delta)) {
-                    for (const part of delta) {
-                        if (part?.type === "text" && typeof part.text === "string") {
-                            onChunk(part.text);
-                        }
-                    }
-                    return false;
-                }
-
-                const text = parsed.choices?.[0]?.message?.content;
-                if (typeof text === "string") onChunk(text);
-            } catch {
-                // skip malformed
+            if (event.type === "usage") {
+                Object.assign(usage, stripUndefined(event.usage));
+            } else {
+                yield event;
             }
+        }
+    }
 
-            return false;
-        });
-
-        onDone();
-    } catch (error) {
-        handleStreamError(error, onDone, onError);
+    if (Object.keys(usage).length > 0) {
+        const total: TokenUsage = { inputTokens: 0, outputTokens: 0, ...usage };
+        total.costUsd = computeCost(total, config.pricing);
+        yield { type: "usage", usage: total };
     }
 }
 
-// ─── Google Gemini ──────────────────────────────────────────────────────────
-
-async function streamGemini(opts: StreamChatOptions) {
-    const { messages, apiKey, model, onChunk, onDone, onError, signal } = opts;
-    const config = getModelConfig(model);
-    const geminiModel = config.apiModel ?? model;
-
-    // Build contents array for Gemini format
-    const contents = [];
+/** Sends the request and checks the status; the body is left unread */
+async function openProviderStream(
+    target: StreamTarget,
+    config: LLMModelConfig,
+    messages: Message[],
+    { systemPrompt, signal, reasoning, params, tools, responseFormat }: StreamChatOptions
+): Promise<{ adapter: ProviderAdapter; response: Response }> {
+    const adapter = getProviderForModel(config);
+    if (!adapter) {
+        throw new Error(`Unknown model: ${target.model}`);
+    }
 
-    // System instruction goes separately
-    const sysPrompt = opts.systemPrompt ?? SYSTEM_PROMPT;
-    const systemInstruction = { parts: [{ text: sysPrompt }] };
+    const input: ProviderRequestInput = {
+        messages: config.supportsVision ? messages : describeAttachments(messages),
+        systemPrompt: systemPrompt ?? SYSTEM_PROMPT,
+        config,
+        reasoning: reasoning && config.supportsReasoning,
+        images: config.supportsVision ? await loadImageData(messages) : undefined,
+        params: params && clampParams(params, config),
+        tools,
+        responseFormat,
+    };
+
+    // Azure resources and custom endpoints are the user's own and are always called direct
+    const response =
+        LLM_PROXY_ENABLED && config.provider !== "custom" && config.provider !== "azure"
+            ? await fetchViaProxy(input, signal)
+            : await fetchProvider(adapter, adapter.buildRequest(input), target.apiKey, signal);
+
+    if (!response.ok) {
+        const errorBody = await response.text();
+        throw new ProviderError(
+            `${adapter.name} API error (${response.status}): ${errorBody}`,
+            response.status,
+            parseRetryAfter(response.headers)
+        );
+    }
 
-    for (const msg of messages) {
-        contents.push({
-            role: msg.role === "assistant" ? "model" : "user",
-            parts: [{ text: msg.content }],
-        });
+    if (isRecording()) {
+        const lastUser = messages.findLast((m) => m.role === "user");
+        return {
+            adapter,
+            response: recordResponse(response, {
+                adapterId: adapter.id,
+                model: config.id,
+                prompt: lastUser?.content ?? "",
+            }),
+        };
     }
+    return { adapter, response };
+}
 
-    try {
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:streamGenerateContent?alt=sse&key=${apiKey}`,
-            {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    system_instruction: systemInstruction,
-                    contents,
-                    generationConfig: {
-                        temperature: 0.8,
-                        maxOutputTokens: 8192,
-                    },
-                }),
-                signal,
-            }
-        );
+/** The proxy builds the provider request itself, with the server's key */
+function fetchViaProxy(input: ProviderRequestInput, signal?: AbortSignal): Promise<Response> {
+    const body: ProxyRequestBody = {
+        model: input.config.id,
+        messages: input.messages,
+        systemPrompt: input.systemPrompt,
+        reasoning: input.reasoning,
+        images: input.images && Object.fromEntries(input.images),
+        params: input.params,
+        tools: input.tools,
+        responseFormat: input.responseFormat,
+    };
+    return fetch(`/api/llm/${input.config.provider}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+    });
+}
 
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(`Gemini API error (${response.status}): ${errorBody}`);
-        }
+function withoutToolCalls(messages: Message[]): Message[] {
+    return messages.map((m) => (m.toolCalls ? { ...m, toolCalls: undefined } : m));
+}
 
-        await readSSEStream(response, (data) => {
-            try {
-                const parsed = JSON.parse(data);
-                const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
-                if (text) onChunk(text);
-            } catch {
-                // skip malformed
-            }
-            return false;
-        });
+// ─── Retry helpers ──────────────────────────────────────────────────────────
 
-        onDone();
-    } catch (error) {
-        handleStreamError(error, onDone, onError);
+function isAbortError(error: unknown) {
+    return error instanceof DOMException && error.name === "AbortError";
+}
+
+function isRetryable(error: unknown) {
+    if (error instanceof ProviderError) {
+        return error.status === undefined || RETRYABLE_STATUSES.has(error.status);
     }
+    // fetch() rejects with a TypeError on network failures
+    return error instanceof TypeError;
 }
 
-// ─── Anthropic (Claude) ─────────────────────────────────────────────────────
+function backoffDelay(error: unknown, attempt: number) {
+    if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+    }
+    const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+    const jitter = Math.random() * BASE_BACKOFF_MS;
+    return Math.min(exponential + jitter, MAX_BACKOFF_MS);
+}
 
-async function streamAnthropic(opts: StreamChatOptions) {
-    const { messages, apiKey, model, onChunk, onDone, onError, signal } = opts;
-    const config = getModelConfig(model);
+/** Supports `retry-after-ms`, `retry-after: <seconds>` and `retry-after: <HTTP date>` */
+function parseRetryAfter(headers: Headers): number | undefined {
+    const ms = headers.get("retry-after-ms");
+    if (ms && !isNaN(Number(ms))) return Number(ms);
 
-    // Anthropic uses a messages format similar to OpenAI
-    // but system goes in a separate field and only user/assistant roles
-    const anthropicMessages = messages
-        .filter((m) => m.role !== "system")
-        .map((m) => ({
-            role: m.role as "user" | "assistant",
-            content: m.content,
-        }));
+    const value = headers.get("retry-after");
+    if (!value) return undefined;
+    if (!isNaN(Number(value))) return Number(value) * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
-    try {
-        const response = await fetch("https://api.anthropic.com/v1/messages", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "x-api-key": apiKey,
-                "anthropic-version": "2023-06-01",
-                "anthropic-dangerous-direct-browser-access": "true",
-            },
-            body: JSON.stringify({
-                model: config.apiModel ?? model,
-                max_tokens: config.maxTokens,
-                system: opts.systemPrompt ?? SYSTEM_PROMPT,
-                messages: anthropicMessages,
-                stream: true,
-                temperature: 0.8,
-            }),
-            signal,
-        });
-
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(
-                `Anthropic API error (${response.status}): ${errorBody}`
-            );
+function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException("Aborted", "AbortError"));
+            return;
         }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException("Aborted", "AbortError"));
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
 
-        await readSSEStream(response, (data) => {
-            try {
-                const parsed = JSON.parse(data);
-
-                if (parsed.type === "content_block_delta") {
-                    const text = parsed.delta?.text;
-                    if (text) onChunk(text);
-                } else if (parsed.type === "message_stop") {
-                    onDone();
-                    return true;
-                }
-            } catch {
-                // skip malformed
-            }
-            return false;
-        });
-
-        onDone();
-    } catch (error) {
-        handleStreamError(error, onDone, onError);
-    }
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(obj).filter(([, v]) => v !== undefined)
+    ) as Partial<T>;
 }
 
 // ─── Shared SSE reader ──────────────────────────────────────────────────────
 
-async function readSSEStream(
-    response: Response,
-    onData: (data: string) => boolean // return true to stop
-) {
+/** Yields the payload of each `data:` line */
+async function* readSSEStream(response: Response): AsyncGenerator<string> {
     const reader = response.body?.getReader();
     if (!reader) throw new Error("No response body");
 
     const decoder = new TextDecoder();
     let buffer = "";
 
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-            const trimmed = line.trim();
-            if (!trimmed || !trimmed.startsWith("data: ")) continue;
-            const data = trimmed.slice(6);
-
-            const shouldStop = onData(data);
-            if (shouldStop) return;
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() || "";
+
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (!trimmed || !trimmed.startsWith("data: ")) continue;
+                yield trimmed.slice(6);
+            }
         }
+    } finally {
+        // Release the connection if the consumer stopped early
+        reader.cancel().catch(() => {});
     }
 }
-
-function handleStreamError(
-    error: unknown,
-    onDone: () => void,
-    onError: (error: Error) => void
-) {
-    if (error instanceof DOMException && error.name === "AbortError") {
-        onDone();
-        return;
-    }
-    onError(error instanceof Error ? error : new Error(String(error)));
-}
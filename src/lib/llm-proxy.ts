@@ -0,0 +1,39 @@
+import {
+    BuiltInProvider,
+    GenerationParams,
+    LLMModel,
+    Message,
+    ResponseFormat,
+    ToolDefinition,
+} from "@/types";
+
+/**
+ * Proxy mode for team deployments. With `NEXT_PUBLIC_LLM_PROXY=true`, requests
+ * to the built-in providers go through the `/api/llm/[provider]` route, which
+ * adds keys from server env, so no key is ever entered in or sent to the
+ * browser. Azure, custom endpoints and mock models are unaffected.
+ */
+export const LLM_PROXY_ENABLED = process.env.NEXT_PUBLIC_LLM_PROXY === "true";
+
+/** What the browser posts to `/api/llm/[provider]` */
+export interface ProxyRequestBody {
+    /** Resolved against the server's own model list; see `resolveModel` */
+    model: LLMModel;
+    messages: Message[];
+    systemPrompt: string;
+    reasoning?: boolean;
+    /** Image data by attachment id, for vision models */
+    images?: Record<string, string>;
+    params?: GenerationParams;
+    tools?: ToolDefinition[];
+    responseFormat?: ResponseFormat;
+}
+
+/** Server env var holding each provider's key */
+export const SERVER_KEY_ENV: Record<BuiltInProvider, string> = {
+    openai: "OPENAI_API_KEY",
+    gemini: "GEMINI_API_KEY",
+    anthropic: "ANTHROPIC_API_KEY",
+    mistral: "MISTRAL_API_KEY",
+    openrouter: "OPENROUTER_API_KEY",
+};
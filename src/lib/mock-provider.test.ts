@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Message, RecordedResponse, Transcript } from "@/types";
+import { StreamChatOptions, StreamEvent, streamChat } from "./llm-client";
+import { ARCHITECT_TOOLS } from "./architect-tools";
+import { setMockOptions } from "./mock-provider";
+import { scriptedReply } from "./mock-script";
+import { SYSTEM_PROMPT } from "./system-prompt";
+
+// Transcripts live in IndexedDB, which Node doesn't have
+const idb = vi.hoisted(() => new Map<string, unknown>());
+vi.mock("idb-keyval", () => ({
+    get: async (key: string) => idb.get(key),
+    set: async (key: string, value: unknown) => void idb.set(key, value),
+}));
+
+const DB_TRANSCRIPTS_KEY = "vibe-architect-transcripts";
+
+function userMessage(content: string): Message {
+    return { id: content, role: "user", content, timestamp: 0 };
+}
+
+async function collect(
+    model: "mock-scripted" | "mock-replay",
+    messages: Message[],
+    options: Partial<StreamChatOptions> = {}
+) {
+    const events: StreamEvent[] = [];
+    for await (const event of streamChat({ model, apiKey: "", messages, maxRetries: 0, ...options })) {
+        events.push(event);
+    }
+    return events;
+}
+
+const textOf = (events: StreamEvent[]) => events.map((e) => (e.type === "text" ? e.text : "")).join("");
+const toolCallsOf = (events: StreamEvent[]) => events.flatMap((e) => (e.type === "tool_call" ? [e.call] : []));
+
+/** Anthropic SSE as recorded off the wire, cut at arbitrary points like network reads */
+function anthropicRecording(prompt: string, text: string, stopReason = "end_turn"): RecordedResponse {
+    const wire = [
+        `event: message_start\ndata: ${JSON.stringify({ type: "message_start", message: { usage: { input_tokens: 12, cache_read_input_tokens: 30, output_tokens: 1 } } })}\n\n`,
+        `event: content_block_start\ndata: ${JSON.stringify({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } })}\n\n`,
+        ...text.split(" ").map((word, i) =>
+            `event: content_block_delta\ndata: ${JSON.stringify({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: (i > 0 ? " " : "") + word } })}\n\n`
+        ),
+        `event: content_block_stop\ndata: ${JSON.stringify({ type: "content_block_stop", index: 0 })}\n\n`,
+        `event: message_delta\ndata: ${JSON.stringify({ type: "message_delta", delta: { stop_reason: stopReason }, usage: { output_tokens: 5 } })}\n\n`,
+        `event: message_stop\ndata: ${JSON.stringify({ type: "message_stop" })}\n\n`,
+    ].join("");
+    const chunks: string[] = [];
+    for (let i = 0; i < wire.length; i += 37) chunks.push(wire.slice(i, i + 37));
+    return { adapterId: "anthropic", model: "claude-sonnet-4.5", prompt, chunks };
+}
+
+function saveTranscript(responses: RecordedResponse[]) {
+    const transcript: Transcript = { id: "t1", name: "Recording", createdAt: 0, responses };
+    idb.set(DB_TRANSCRIPTS_KEY, [transcript]);
+    setMockOptions({ recording: false, replayTranscriptId: null });
+    setMockOptions({ recording: false, replayTranscriptId: transcript.id });
+}
+
+beforeEach(() => {
+    idb.clear();
+    setMockOptions({ recording: false, replayTranscriptId: null });
+});
+
+describe("scripted mock model", () => {
+    const messages = [userMessage("A habit tracker for students")];
+
+    it("streams the scripted reply as chat completion chunks", async () => {
+        const events = await collect("mock-scripted", messages);
+
+        expect(events.filter((e) => e.type === "text").length).toBeGreaterThan(1);
+        expect(textOf(events)).toBe(scriptedReply(messages, SYSTEM_PROMPT).text);
+        expect(events.some((e) => e.type === "reasoning")).toBe(false);
+
+        const [usage, stop] = events.slice(-2);
+        expect(usage).toMatchObject({ type: "usage", usage: { inputTokens: expect.any(Number) } });
+        expect(stop).toEqual({ type: "stop", reason: "complete" });
+    });
+
+    it("streams reasoning first when asked for it", async () => {
+        const events = await collect("mock-scripted", messages, { reasoning: true });
+        const firstText = events.findIndex((e) => e.type === "text");
+        const reasoning = events.filter((e) => e.type === "reasoning");
+
+        expect(reasoning.length).toBeGreaterThan(0);
+        expect(events.indexOf(reasoning[reasoning.length - 1])).toBeLessThan(firstText);
+    });
+
+    it("calls the tools the request offers", async () => {
+        const refining = [...messages, userMessage("Looks good, but drop the sharing")];
+        const events = await collect("mock-scripted", refining, { tools: ARCHITECT_TOOLS });
+
+        const calls = toolCallsOf(events);
+        expect(calls.map((c) => c.name)).toEqual(["request_lock"]);
+        expect(JSON.parse(calls[0].arguments)).toMatchObject({ phase: "vision" });
+        expect(events.indexOf(events.find((e) => e.type === "tool_call")!)).toBeGreaterThan(
+            events.findLastIndex((e) => e.type === "text")
+        );
+        expect(events[events.length - 1]).toEqual({ type: "stop", reason: "complete" });
+
+        expect(toolCallsOf(await collect("mock-scripted", refining))).toEqual([]);
+    });
+});
+
+describe("replay mock model", () => {
+    it("parses recorded chunks with the adapter that recorded them", async () => {
+        saveTranscript([anthropicRecording("Hi", "Hello there, how can I help?")]);
+        const events = await collect("mock-replay", [userMessage("Hi")]);
+
+        expect(textOf(events)).toBe("Hello there, how can I help?");
+        expect(events.slice(-2)).toEqual([
+            {
+                type: "usage",
+                usage: { inputTokens: 42, outputTokens: 5, cachedInputTokens: 30 },
+            },
+            { type: "stop", reason: "complete" },
+        ]);
+    });
+
+    it("assembles tool calls streamed in fragments", async () => {
+        const input = JSON.stringify({ phase: "design", summary: "- Midnight Minimal" });
+        const event = (payload: Record<string, unknown>) => `event: ${payload.type}\ndata: ${JSON.stringify(payload)}\n\n`;
+        const chunks = [
+            event({ type: "message_start", message: { usage: { input_tokens: 20, output_tokens: 1 } } }),
+            event({ type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "toolu_1", name: "request_lock", input: {} } }),
+            ...[input.slice(0, 10), input.slice(10, 25), input.slice(25)].map((partial_json) =>
+                event({ type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json } })
+            ),
+            event({ type: "content_block_stop", index: 0 }),
+            event({ type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 9 } }),
+            event({ type: "message_stop" }),
+        ];
+        saveTranscript([{ adapterId: "anthropic", model: "claude-sonnet-4.5", prompt: "Lock it", chunks }]);
+        const events = await collect("mock-replay", [userMessage("Lock it")], { tools: ARCHITECT_TOOLS });
+
+        expect(toolCallsOf(events)).toEqual([{ id: "toolu_1", name: "request_lock", arguments: input }]);
+        expect(events.slice(-2)).toEqual([
+            { type: "usage", usage: { inputTokens: 20, outputTokens: 9 } },
+            { type: "stop", reason: "complete" },
+        ]);
+    });
+
+    it("maps the recorded stop reason", async () => {
+        saveTranscript([anthropicRecording("Hi", "Cut off", "max_tokens")]);
+        const events = await collect("mock-replay", [userMessage("Hi")]);
+        expect(events[events.length - 1]).toEqual({ type: "stop", reason: "max_tokens" });
+    });
+
+    it("replays the response to the same prompt, else the next in order", async () => {
+        saveTranscript([anthropicRecording("First", "One"), anthropicRecording("Second", "Two")]);
+
+        expect(textOf(await collect("mock-replay", [userMessage("Second")]))).toBe("Two");
+        expect(textOf(await collect("mock-replay", [userMessage("Unknown")]))).toBe("One");
+        expect(textOf(await collect("mock-replay", [userMessage("Unknown")]))).toBe("Two");
+    });
+
+    it("surfaces in-stream errors", async () => {
+        const error = `event: error\ndata: ${JSON.stringify({ type: "error", error: { type: "invalid_request_error", message: "Bad request" } })}\n\n`;
+        saveTranscript([{ adapterId: "anthropic", model: "claude-sonnet-4.5", prompt: "Hi", chunks: [error] }]);
+        const events = await collect("mock-replay", [userMessage("Hi")]);
+
+        const last = events[events.length - 1];
+        expect(last.type).toBe("error");
+        expect(last.type === "error" && last.error.message).toContain("Bad request");
+    });
+
+    it("fails without a transcript to replay", async () => {
+        const events = await collect("mock-replay", [userMessage("Hi")]);
+        expect(events).toHaveLength(1);
+        expect(events[0].type === "error" && events[0].error.message).toMatch(/No transcript selected/);
+    });
+});
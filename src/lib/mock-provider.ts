@@ -0,0 +1,235 @@
+import { get as idbGet, set as idbSet } from "idb-keyval";
+import { v4 as uuid } from "uuid";
+import { LLMModelConfig, Message, RecordedResponse, ToolDefinition, Transcript } from "@/types";
+import { ProviderAdapter, getProvider } from "./providers/registry";
+import { estimateTokens } from "./context-manager";
+import { scriptedReply } from "./mock-script";
+
+/**
+ * The offline "mock" provider. Instead of calling an API it produces a
+ * streaming Response that goes through the same SSE reader and adapter parser
+ * as a real one, either from a recorded transcript or from canned replies.
+ * Recording tees real responses into transcripts stored in IndexedDB.
+ */
+
+const DB_TRANSCRIPTS_KEY = "vibe-architect-transcripts";
+
+/** Pause between chunks so replays stream visibly */
+const CHUNK_DELAY_MS = 15;
+
+/** Scripted replies are served as chat completion chunks */
+const SCRIPTED_ADAPTER_ID = "openai";
+
+let recording = false;
+/** Transcript new recordings are appended to; created on the first response */
+let recordingId: string | null = null;
+let replayId: string | null = null;
+/** Next response to replay for requests that match no recorded prompt */
+let replayCursor = 0;
+
+/** Pushed from the settings store, like custom endpoints */
+export function setMockOptions(options: { recording: boolean; replayTranscriptId: string | null }) {
+    if (!options.recording) recordingId = null;
+    recording = options.recording;
+    if (options.replayTranscriptId !== replayId) replayCursor = 0;
+    replayId = options.replayTranscriptId;
+}
+
+export function isRecording() {
+    return recording;
+}
+
+// ─── Transcripts ────────────────────────────────────────────────────────────
+
+export async function listTranscripts(): Promise<Transcript[]> {
+    return (await idbGet<Transcript[]>(DB_TRANSCRIPTS_KEY)) ?? [];
+}
+
+export async function deleteTranscript(id: string) {
+    await updateTranscripts((transcripts) => transcripts.filter((t) => t.id !== id));
+}
+
+// Read-modify-write of a single key, so concurrent saves are queued
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function updateTranscripts(update: (transcripts: Transcript[]) => Transcript[]) {
+    pendingWrite = pendingWrite
+        .then(async () => idbSet(DB_TRANSCRIPTS_KEY, update(await listTranscripts())))
+        .catch((err) => console.error("Failed to save transcript:", err));
+    return pendingWrite;
+}
+
+/**
+ * Returns a copy of `response` whose body is also captured into the current
+ * recording once it has been read to the end. Aborted or failed streams
+ * aren't recorded.
+ */
+export function recordResponse(
+    response: Response,
+    meta: Omit<RecordedResponse, "chunks">
+): Response {
+    if (!response.body) return response;
+
+    const transcriptId = (recordingId ??= uuid());
+    const [body, copy] = response.body.tee();
+
+    readChunks(copy).then((chunks) => {
+        if (!chunks) return;
+        updateTranscripts((transcripts) => {
+            const recorded: RecordedResponse = { ...meta, chunks };
+            const existing = transcripts.find((t) => t.id === transcriptId);
+            if (existing) {
+                return transcripts.map((t) =>
+                    t.id === transcriptId ? { ...t, responses: [...t.responses, recorded] } : t
+                );
+            }
+            const createdAt = Date.now();
+            return [
+                ...transcripts,
+                {
+                    id: transcriptId,
+                    name: `Recording ${new Date(createdAt).toLocaleString()}`,
+                    createdAt,
+                    responses: [recorded],
+                },
+            ];
+        });
+    });
+
+    return new Response(body, { status: response.status, headers: response.headers });
+}
+
+async function readChunks(stream: ReadableStream<Uint8Array>): Promise<string[] | null> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    const chunks: string[] = [];
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) return chunks;
+            chunks.push(decoder.decode(value, { stream: true }));
+        }
+    } catch {
+        return null;
+    }
+}
+
+// ─── Mock responses ─────────────────────────────────────────────────────────
+
+export interface MockStreamInput {
+    config: LLMModelConfig;
+    messages: Message[];
+    systemPrompt: string;
+    reasoning?: boolean;
+    tools?: ToolDefinition[];
+    signal?: AbortSignal;
+}
+
+/** A streaming response for a mock model, and the adapter that parses it */
+export async function openMockStream(
+    input: MockStreamInput
+): Promise<{ adapter: ProviderAdapter; response: Response }> {
+    if (input.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+
+    const recorded =
+        input.config.id === "mock-replay"
+            ? await pickRecordedResponse(input.messages)
+            : scriptedResponse(input);
+
+    // Custom endpoints may have been removed since recording; they all speak chat completions
+    const adapter = getProvider(recorded.adapterId) ?? getProvider(SCRIPTED_ADAPTER_ID)!;
+    return { adapter, response: toResponse(recorded.chunks, input.signal) };
+}
+
+/** The response recorded for the same prompt, else the next one in order */
+async function pickRecordedResponse(messages: Message[]): Promise<RecordedResponse> {
+    const transcript = replayId
+        ? (await listTranscripts()).find((t) => t.id === replayId)
+        : undefined;
+    if (!transcript) {
+        throw new Error("No transcript selected for replay — pick one in Settings");
+    }
+    if (transcript.responses.length === 0) {
+        throw new Error(`Transcript "${transcript.name}" has no responses`);
+    }
+
+    const prompt = lastUserContent(messages);
+    const match = transcript.responses.find((r) => r.prompt === prompt);
+    if (match) return match;
+    return transcript.responses[replayCursor++ % transcript.responses.length];
+}
+
+function scriptedResponse({ config, messages, systemPrompt, reasoning, tools }: MockStreamInput): RecordedResponse {
+    const reply = scriptedReply(messages, systemPrompt);
+    const sse = (payload: unknown) => `data: ${JSON.stringify(payload)}\n\n`;
+    const delta = (fields: Record<string, unknown>) => sse({ choices: [{ index: 0, delta: fields }] });
+    // Only the tools this request offers, like a real model
+    const toolCalls = (reply.toolCalls ?? []).filter((call) => tools?.some((t) => t.name === call.name));
+
+    const chunks = [
+        ...(reasoning ? splitWords(reply.reasoning).map((text) => delta({ reasoning_content: text })) : []),
+        ...splitWords(reply.text).map((text) => delta({ content: text })),
+        ...toolCalls.map((call, index) =>
+            delta({
+                tool_calls: [
+                    {
+                        index,
+                        id: `call_${uuid().replace(/-/g, "")}`,
+                        type: "function",
+                        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                    },
+                ],
+            })
+        ),
+        sse({ choices: [{ index: 0, delta: {}, finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop" }] }),
+        sse({
+            choices: [],
+            usage: {
+                prompt_tokens: estimateTokens(systemPrompt + messages.map((m) => m.content).join("")),
+                completion_tokens: estimateTokens(
+                    reply.text + (reasoning ? reply.reasoning : "") + JSON.stringify(toolCalls.map((c) => c.arguments))
+                ),
+            },
+        }),
+        "data: [DONE]\n\n",
+    ];
+    return { adapterId: SCRIPTED_ADAPTER_ID, model: config.id, prompt: lastUserContent(messages), chunks };
+}
+
+/** A few words per chunk, whitespace kept */
+function splitWords(text: string): string[] {
+    const words = text.match(/\S+\s*|\s+/g) ?? [];
+    const pieces: string[] = [];
+    for (let i = 0; i < words.length; i += 3) {
+        pieces.push(words.slice(i, i + 3).join(""));
+    }
+    return pieces;
+}
+
+function lastUserContent(messages: Message[]): string {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === "user") return messages[i].content;
+    }
+    return "";
+}
+
+function toResponse(chunks: string[], signal?: AbortSignal): Response {
+    const encoder = new TextEncoder();
+    let next = 0;
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (next >= chunks.length) {
+                controller.close();
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS));
+            // Surfaces like an aborted fetch
+            if (signal?.aborted) {
+                controller.error(new DOMException("Aborted", "AbortError"));
+                return;
+            }
+            controller.enqueue(encoder.encode(chunks[next++]));
+        },
+    });
+    return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
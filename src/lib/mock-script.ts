@@ -0,0 +1,352 @@
+import { ConversationPhase, Message, PhaseSpecs } from "@/types";
+import { SUMMARY_SYSTEM_PROMPT } from "./system-prompt";
+
+/**
+ * Canned replies for the scripted mock model. They follow the architect's
+ * Propose -> Refine -> Lock loop closely enough to drive every part of the UI:
+ * phase proposals (with option, preview and lock tool calls), lock-time JSON
+ * specs, summaries and sandbox preview code.
+ */
+
+export interface ScriptedReply {
+    text: string;
+    reasoning: string;
+    /** Made after the text, if the request offers the tool */
+    toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+const PHASES: ConversationPhase[] = ["vision", "design", "stack", "export"];
+
+/** Matches the `@0N-name.md` file named by each PHASE_SPEC_PROMPTS entry */
+const SPEC_REQUEST = /\*\*@0([1-4])-[a-z-]+\.md\*\*/;
+
+const LOCK_MESSAGE = /I'm locking the \*\*/;
+
+export function scriptedReply(messages: Message[], systemPrompt: string): ScriptedReply {
+    const users = messages.filter((m) => m.role === "user");
+    const last = users[users.length - 1]?.content ?? "";
+    const idea = summarizeIdea(users[0]?.content ?? "");
+
+    if (systemPrompt === SUMMARY_SYSTEM_PROMPT) {
+        return {
+            text: `- App idea: ${idea}\n- The user has reviewed the proposals so far; nothing rejected yet\n- Current step: waiting for the user's answer to the last proposal`,
+            reasoning: "Fold the older turns into bullet points.",
+        };
+    }
+
+    if (/function called `App`/.test(last)) {
+        return { text: LANDING_PAGE_CODE, reasoning: "Reuse the design tokens in a compact landing page." };
+    }
+
+    const spec = last.match(SPEC_REQUEST);
+    if (spec) {
+        const phase = PHASES[Number(spec[1]) - 1];
+        return {
+            text: JSON.stringify(SPEC_DATA[phase](idea), null, 2),
+            reasoning: `Write up the locked ${phase} decisions.`,
+        };
+    }
+
+    // Each lock moves the script on to the next phase's proposal
+    const locked = users.filter((m) => LOCK_MESSAGE.test(m.content)).length;
+    const phase = PHASES[Math.min(locked, PHASES.length - 1)];
+    const turnsInPhase = users.length - 1 - users.findLastIndex((m) => LOCK_MESSAGE.test(m.content));
+
+    if (turnsInPhase <= 1) {
+        return {
+            text: PROPOSALS[phase](idea),
+            reasoning: `Propose concrete ${phase} options for: ${idea}.`,
+            toolCalls: PROPOSAL_TOOL_CALLS[phase],
+        };
+    }
+    return {
+        text: REFINEMENTS[phase],
+        reasoning: "Apply the feedback, then ask to lock.",
+        toolCalls:
+            phase === "export"
+                ? undefined
+                : [{ name: "request_lock", arguments: { phase, summary: LOCK_SUMMARIES[phase] } }],
+    };
+}
+
+function summarizeIdea(text: string): string {
+    const line = text.trim().split("\n")[0] || "your app";
+    return line.length > 80 ? line.slice(0, 77) + "..." : line;
+}
+
+// ─── Script ─────────────────────────────────────────────────────────────────
+
+const PROPOSALS: Record<ConversationPhase, (idea: string) => string> = {
+    vision: (idea) => `Love it — **${idea}**. Here's the MVP I'd ship first.
+
+### Core MVP features
+1. **Onboarding in under a minute** — one screen, no email verification up front
+2. **The core loop** — create, track and complete the main item, with instant feedback
+3. **Shareable summary** — a public read-only link so early users bring others in
+
+### Cut for now
+- ❌ **Teams & permissions** — single-player first; add once retention is proven
+- ❌ **Native mobile apps** — a responsive web app covers launch
+
+Does this scope work for you, or should we swap anything?`,
+
+    design: () => `Here are two contrasting visual identities.
+
+### Option A: Neo-Brutalist
+- **Typography:** Space Grotesk (headers), Inter (body)
+- **Colors:** Base \`#FAFAF5\`, Primary \`#111111\`, Accent \`#FF4D00\`
+- **Anatomy:** harsh 2px black borders, no shadows, square corners
+
+### Option B: Midnight Minimal
+- **Typography:** Inter Tight (headers), Inter (body)
+- **Colors:** Base \`#09090B\`, Primary \`#FAFAFA\`, Accent \`#7C5CFF\`
+- **Anatomy:** 1px hairline borders, 12px radius, soft glow on focus
+
+I've put a live preview of each in the sandbox. Which vibe do you prefer — or should I remix them?`,
+
+    stack: () => `Here's the stack I'd pick for this.
+
+- **Frontend:** Next.js (App Router) + TypeScript + Tailwind CSS
+- **Backend:** Next.js route handlers + server actions
+- **Database:** Postgres on Neon with Drizzle ORM
+- **Auth:** Auth.js with magic links
+- **Hosting:** Vercel
+
+**Why:** one repo, one deploy, and a typed path from the database to the UI — the fastest way to get the MVP in front of users.
+
+Does this stack work for you?`,
+
+    export: () => `All three phases are locked! Use **Generate Spec** to produce the implementation plan, or ask me to revisit any decision first.`,
+};
+
+const DESIGN_PREVIEW_A = `function DesignPreview() {
+  return (
+    <div style={{ background: '#FAFAF5', padding: '2rem', color: '#111111', border: '2px solid #111111' }}>
+      <h1 style={{ fontFamily: 'Space Grotesk', fontSize: '2rem', margin: 0 }}>Option A: Neo-Brutalist</h1>
+      <p style={{ fontFamily: 'Inter' }}>Loud, honest and fast.</p>
+      <button style={{ background: '#FF4D00', color: '#111111', padding: '0.75rem 1.5rem', border: '2px solid #111111', cursor: 'pointer' }}>
+        Primary Action
+      </button>
+    </div>
+  );
+}`;
+
+const DESIGN_PREVIEW_B = `function DesignPreview() {
+  return (
+    <div style={{ background: '#09090B', padding: '2rem', color: '#FAFAFA', borderRadius: '12px' }}>
+      <h1 style={{ fontFamily: 'Inter Tight', fontSize: '2rem', margin: 0 }}>Option B: Midnight Minimal</h1>
+      <p style={{ fontFamily: 'Inter', color: '#A1A1AA' }}>Quiet, focused and premium.</p>
+      <button style={{ background: '#7C5CFF', color: '#FAFAFA', padding: '0.75rem 1.5rem', border: 'none', borderRadius: '12px', cursor: 'pointer' }}>
+        Primary Action
+      </button>
+    </div>
+  );
+}`;
+
+/** Only the design proposal offers a choice to pick from */
+const PROPOSAL_TOOL_CALLS: Partial<Record<ConversationPhase, ScriptedReply["toolCalls"]>> = {
+    design: [
+        { name: "render_preview", arguments: { title: "Option A: Neo-Brutalist", code: DESIGN_PREVIEW_A } },
+        { name: "render_preview", arguments: { title: "Option B: Midnight Minimal", code: DESIGN_PREVIEW_B } },
+        {
+            name: "propose_options",
+            arguments: {
+                phase: "design",
+                options: [
+                    { name: "Option A: Neo-Brutalist", summary: "Loud, honest and fast — harsh borders, no shadows" },
+                    { name: "Option B: Midnight Minimal", summary: "Quiet, focused and premium — dark with a violet accent" },
+                ],
+            },
+        },
+    ],
+};
+
+const REFINEMENTS: Record<ConversationPhase, string> = {
+    vision: `Updated — the scope now reflects your feedback. If you're happy with it, lock it in and we'll move on to the Design System.`,
+    design: `Done — I've remixed the palette and components along those lines. Lock it in when you're ready and we'll move on to the Tech Stack.`,
+    stack: `Adjusted the stack accordingly. Once it's locked we can generate the final implementation plan.`,
+    export: `Noted. Whenever you're ready, I'll generate the full implementation spec.`,
+};
+
+const LOCK_SUMMARIES: Record<Exclude<ConversationPhase, "export">, string> = {
+    vision: "- Onboarding, the core loop and shareable summaries\n- Teams and native apps cut from the MVP",
+    design: "- Midnight Minimal: Inter Tight and Inter\n- Base `#09090B`, accent `#7C5CFF`, 12px radius",
+    stack: "- Next.js, Tailwind and Drizzle on Neon Postgres\n- Auth.js magic links, hosted on Vercel",
+};
+
+const SPEC_DATA: { [P in ConversationPhase]: (idea: string) => PhaseSpecs[P] } = {
+    vision: (idea) => ({
+        projectName: idea,
+        tagline: "Everything early users juggle in spreadsheets, in one place",
+        problem: "Early users juggle spreadsheets and notes to do what this app does in one place.",
+        targetUsers: ["Solo makers who want results in minutes", "Small teams without time for an afternoon of setup"],
+        mvpFeatures: [
+            { name: "Onboarding in under a minute", description: "One screen, no email verification up front" },
+            { name: "Core loop", description: "Create, track and complete the main item" },
+            { name: "Shareable summary", description: "Public read-only links" },
+        ],
+        cutFeatures: [
+            { name: "Teams & permissions", reason: "Single-player first; add once retention is proven" },
+            { name: "Native mobile apps", reason: "A responsive web app covers launch" },
+        ],
+        successMetrics: ["40% of sign-ups complete the core loop on day one", "20% week-4 retention"],
+    }),
+
+    design: () => ({
+        name: "Midnight Minimal",
+        vibe: "Quiet, focused and premium: a near-black canvas with one violet accent.",
+        typography: [
+            { role: "Headings", family: "Inter Tight", weight: "600", size: "32 / 24 / 20px" },
+            { role: "Body", family: "Inter", weight: "400", size: "16px / 1.5" },
+            { role: "Code", family: "JetBrains Mono", weight: "400", size: "14px" },
+        ],
+        colors: [
+            { token: "base", hex: "#09090B", usage: "Page background" },
+            { token: "surface", hex: "#18181B", usage: "Cards and panels" },
+            { token: "border", hex: "#27272A", usage: "Hairline borders" },
+            { token: "text-primary", hex: "#FAFAFA", usage: "Body text" },
+            { token: "text-secondary", hex: "#A1A1AA", usage: "Secondary text" },
+            { token: "accent-primary", hex: "#7C5CFF", usage: "Primary actions and focus" },
+            { token: "success", hex: "#22C55E", usage: "Confirmations" },
+            { token: "warning", hex: "#F59E0B", usage: "Warnings" },
+            { token: "error", hex: "#EF4444", usage: "Errors" },
+        ],
+        spacing: ["4px", "8px", "12px", "16px", "24px", "32px", "48px"],
+        radius: [
+            { token: "sm", value: "6px" },
+            { token: "md", value: "12px" },
+            { token: "full", value: "999px" },
+        ],
+        components: [
+            { name: "Buttons", rules: "Solid accent with 12px radius" },
+            { name: "Cards", rules: "1px border on surface" },
+            { name: "Inputs", rules: "Glow accent on focus" },
+        ],
+        motion: ["150ms ease-out for hover", "250ms for panels", "Respect reduced motion"],
+    }),
+
+    stack: () => ({
+        choices: [
+            { layer: "Frontend", technology: "Next.js (App Router), TypeScript, Tailwind CSS", rationale: "One repo, typed end to end" },
+            { layer: "Backend", technology: "Route handlers and server actions", rationale: "No separate API server" },
+            { layer: "Database", technology: "Postgres (Neon) with Drizzle ORM", rationale: "Serverless Postgres with typed queries" },
+            { layer: "Auth", technology: "Auth.js magic links", rationale: "No passwords to manage" },
+            { layer: "Hosting", technology: "Vercel", rationale: "Zero-config deploys for Next.js" },
+        ],
+        integrations: ["Resend for magic link emails"],
+        tooling: ["ESLint", "Prettier", "Vitest", "Playwright", "GitHub Actions"],
+        folderStructure: "src/\n  app/         routes and layouts\n  components/  UI components\n  db/          schema and queries\n  lib/         shared helpers",
+    }),
+
+    export: () => ({
+        steps: [
+            { title: "Scaffold", description: "Next.js app, Tailwind tokens from @02-design.md, CI", files: ["tailwind.config.ts", ".github/workflows/ci.yml"] },
+            { title: "Data model", description: "Drizzle schema for users and items, migrations", files: ["src/db/schema.ts"] },
+            { title: "Auth", description: "Auth.js magic links, protected routes", files: ["src/auth.ts", "src/middleware.ts"] },
+            { title: "Core loop", description: "Item list, create/edit form, completion flow", files: ["src/app/items/page.tsx"] },
+            { title: "Sharing", description: "Public read-only summary page", files: ["src/app/share/[id]/page.tsx"] },
+            { title: "Polish & deploy", description: "Empty states, error boundaries, Vercel deploy", files: [] },
+        ],
+        tasks: [
+            {
+                id: "T1",
+                title: "Scaffold the app",
+                description: "Create the Next.js app with Tailwind and the design tokens from @02-design.md, plus a CI workflow running lint and tests.",
+                files: ["tailwind.config.ts", ".github/workflows/ci.yml"],
+                acceptanceCriteria: ["`npm run dev` serves the home page", "CI passes on a pull request"],
+                estimate: "2h",
+                dependsOn: [],
+            },
+            {
+                id: "T2",
+                title: "Database schema",
+                description: "Drizzle schema for users and items with the first migration.",
+                files: ["src/db/schema.ts"],
+                acceptanceCriteria: ["Migrations apply to an empty database", "Items reference their user"],
+                estimate: "2h",
+                dependsOn: ["T1"],
+            },
+            {
+                id: "T3",
+                title: "Magic link sign-in",
+                description: "Auth.js with magic links sent through Resend; protect every route but the landing and share pages.",
+                files: ["src/auth.ts", "src/middleware.ts"],
+                acceptanceCriteria: ["A new user can sign in from the emailed link", "Signed-out visitors are redirected from /items"],
+                estimate: "4h",
+                dependsOn: ["T2"],
+            },
+            {
+                id: "T4",
+                title: "Item list and editor",
+                description: "The core loop: list, create, edit and complete items with optimistic updates.",
+                files: ["src/app/items/page.tsx"],
+                acceptanceCriteria: ["Items can be created, edited and completed", "Completing an item updates the list instantly"],
+                estimate: "1d",
+                dependsOn: ["T3"],
+            },
+            {
+                id: "T5",
+                title: "Shareable summary",
+                description: "Public read-only summary page and its data route.",
+                files: ["src/app/share/[id]/page.tsx"],
+                acceptanceCriteria: ["The share link works signed out", "It shows no private data"],
+                estimate: "4h",
+                dependsOn: ["T4"],
+            },
+            {
+                id: "T6",
+                title: "Polish and deploy",
+                description: "Empty states and error boundaries, then deploy to Vercel.",
+                files: [],
+                acceptanceCriteria: ["Every page has an empty state", "Production sign-up works end to end"],
+                estimate: "4h",
+                dependsOn: ["T4", "T5"],
+            },
+        ],
+        dataModels: [
+            { name: "User", fields: ["id: uuid", "email: text", "createdAt: timestamp"] },
+            { name: "Item", fields: ["id: uuid", "userId: uuid", "title: text", "completedAt: timestamp?"] },
+        ],
+        apiRoutes: [{ method: "GET", path: "/api/share/[id]", description: "Read-only summary data" }],
+        stateManagement: "Server components for reads; server actions plus useOptimistic for writes.",
+        testing: ["Vitest for queries and actions", "Playwright for sign-up and the core loop"],
+        deployment: ["Set DATABASE_URL and AUTH_SECRET on Vercel", "Run migrations", "Smoke-test sign-up in production"],
+    }),
+};
+
+const LANDING_PAGE_CODE = `function App() {
+  const colors = { base: '#09090B', surface: '#18181B', text: '#FAFAFA', dim: '#A1A1AA', accent: '#7C5CFF' };
+  const section = { padding: '4rem 2rem', maxWidth: '960px', margin: '0 auto' };
+  const card = { background: colors.surface, borderRadius: '12px', padding: '1.5rem', flex: 1 };
+  const button = { background: colors.accent, color: colors.text, border: 'none', borderRadius: '12px', padding: '0.75rem 1.5rem', cursor: 'pointer' };
+  const features = ['Start in a minute', 'Track everything', 'Share the results'];
+
+  return (
+    <div style={{ background: colors.base, color: colors.text, fontFamily: 'Inter', minHeight: '100vh' }}>
+      <nav style={{ display: 'flex', justifyContent: 'space-between', padding: '1rem 2rem' }}>
+        <strong>Mock App</strong>
+        <button style={button}>Sign up</button>
+      </nav>
+      <header style={{ ...section, textAlign: 'center' }}>
+        <h1 style={{ fontSize: '3rem', margin: 0 }}>Ship your idea this week</h1>
+        <p style={{ color: colors.dim }}>A scripted preview from the offline mock model.</p>
+        <button style={button}>Get started</button>
+      </header>
+      <section style={{ ...section, display: 'flex', gap: '1rem' }}>
+        {features.map((title) => (
+          <div key={title} style={card}>
+            <h3 style={{ marginTop: 0 }}>{title}</h3>
+            <p style={{ color: colors.dim }}>Short placeholder copy for this feature.</p>
+          </div>
+        ))}
+      </section>
+      <section style={{ ...section, textAlign: 'center' }}>
+        <h2>Ready when you are</h2>
+        <button style={button}>Create your first project</button>
+      </section>
+      <footer style={{ ...section, color: colors.dim, fontSize: '0.875rem' }}>
+        Made with Vibe Architect
+      </footer>
+    </div>
+  );
+}`;
@@ -0,0 +1,116 @@
+import { BuiltInProvider, LLMModelConfig, LLM_MODELS, ModelCatalog } from "@/types";
+import { DiscoveredModel, getProvider } from "./providers/registry";
+import { fetchProvider } from "./providers/transport";
+import { LLM_PROXY_ENABLED } from "./llm-proxy";
+
+/**
+ * Model discovery. Each provider's model list is merged with curated
+ * metadata into a catalog of extra models on top of `LLM_MODELS`. Models a
+ * provider stops listing are marked retired instead of being removed, so
+ * settings and conversations that reference them still resolve.
+ */
+
+/** Used when neither the provider nor the curated table knows the output limit */
+const DEFAULT_MAX_TOKENS = 8192;
+
+type CuratedMetadata = Pick<
+    LLMModelConfig,
+    "maxTokens" | "contextWindow" | "reasoningEffort" | "supportsReasoning" | "supportsVision"
+>;
+
+/** Known model families, first match wins. Fills in what the model lists don't report. */
+const CURATED: { provider: BuiltInProvider; match: RegExp; metadata: Partial<CuratedMetadata> }[] = [
+    // Reasoning models reject temperature, so they need an effort level
+    {
+        provider: "openai",
+        match: /^gpt-5/,
+        metadata: { maxTokens: 128000, contextWindow: 400000, reasoningEffort: "medium", supportsReasoning: true, supportsVision: true },
+    },
+    {
+        provider: "openai",
+        match: /^o\d/,
+        metadata: { maxTokens: 100000, contextWindow: 200000, reasoningEffort: "medium", supportsReasoning: true, supportsVision: true },
+    },
+    { provider: "openai", match: /^gpt-4\.1/, metadata: { maxTokens: 32768, contextWindow: 1047576, supportsVision: true } },
+    { provider: "openai", match: /^(gpt-4o|chatgpt-4o)/, metadata: { maxTokens: 16384, contextWindow: 128000, supportsVision: true } },
+    {
+        provider: "anthropic",
+        match: /^claude-(opus|sonnet|haiku)-4|^claude-3-7/,
+        metadata: { maxTokens: 32000, contextWindow: 200000, supportsReasoning: true, supportsVision: true },
+    },
+    { provider: "anthropic", match: /^claude-/, metadata: { maxTokens: 8192, contextWindow: 200000, supportsVision: true } },
+    { provider: "gemini", match: /^gemini-(2\.5|3)/, metadata: { supportsReasoning: true, supportsVision: true } },
+    { provider: "gemini", match: /^gemini-/, metadata: { supportsVision: true } },
+    { provider: "mistral", match: /^(pixtral|mistral-(medium|small|large))/, metadata: { maxTokens: 8192, supportsVision: true } },
+];
+
+/** Lists a provider's chat models, through the proxy in proxy mode */
+export async function discoverModels(
+    provider: BuiltInProvider,
+    apiKey: string,
+    signal?: AbortSignal
+): Promise<DiscoveredModel[]> {
+    const adapter = getProvider(provider);
+    if (!adapter?.buildModelsRequest || !adapter.parseModels) {
+        throw new Error(`${provider} can't list its models`);
+    }
+
+    const response = LLM_PROXY_ENABLED
+        ? await fetch(`/api/llm/${provider}`, { signal })
+        : await fetchProvider(adapter, adapter.buildModelsRequest(), apiKey, signal);
+    const body = await response.text();
+    if (!response.ok) {
+        throw new Error(`${adapter.name} API error (${response.status}): ${body}`);
+    }
+    return adapter.parseModels(body);
+}
+
+/**
+ * Merges one provider's model list into the catalog. Built-in models keep
+ * their hand-tuned configs; everything else gets a discovered config.
+ */
+export function mergeDiscoveredModels(
+    catalog: ModelCatalog,
+    provider: BuiltInProvider,
+    discovered: DiscoveredModel[]
+): ModelCatalog {
+    const listed = new Set(discovered.map((d) => d.apiModel));
+    const builtIns = LLM_MODELS.filter((m) => m.provider === provider);
+    const builtInApiModels = new Set(builtIns.map((m) => m.apiModel ?? m.id));
+
+    const updated = new Map(
+        catalog.models.filter((m) => m.provider === provider).map((m) => [m.apiModel ?? m.id, m])
+    );
+    for (const model of discovered) {
+        if (builtInApiModels.has(model.apiModel)) continue;
+        updated.set(model.apiModel, toModelConfig(provider, model));
+    }
+    const models = [...updated.values()];
+
+    const ofProvider = new Set([...builtIns, ...models].map((m) => m.id));
+    const retired = [...builtIns, ...models]
+        .filter((m) => !listed.has(m.apiModel ?? m.id))
+        .map((m) => m.id);
+
+    return {
+        models: [...catalog.models.filter((m) => m.provider !== provider), ...models],
+        retired: [...catalog.retired.filter((id) => !ofProvider.has(id)), ...retired],
+        refreshedAt: Date.now(),
+    };
+}
+
+/** A discovered model's config, with curated metadata filling in what the listing lacks */
+export function toModelConfig(provider: BuiltInProvider, model: DiscoveredModel): LLMModelConfig {
+    const curated = CURATED.find((c) => c.provider === provider && c.match.test(model.apiModel))?.metadata ?? {};
+    return {
+        id: `${provider}:${model.apiModel}`,
+        name: model.name || model.apiModel,
+        provider,
+        apiModel: model.apiModel,
+        maxTokens: model.maxTokens ?? curated.maxTokens ?? DEFAULT_MAX_TOKENS,
+        contextWindow: model.contextWindow ?? curated.contextWindow,
+        reasoningEffort: curated.reasoningEffort,
+        supportsReasoning: model.supportsReasoning ?? curated.supportsReasoning,
+        supportsVision: model.supportsVision ?? curated.supportsVision,
+    };
+}
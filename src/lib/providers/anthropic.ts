@@ -0,0 +1,253 @@
+import { Message, StopReason, ThinkingBlock, ToolCall } from "@/types";
+import { getMessageImages } from "@/lib/attachments";
+import type { ProviderAdapter, ProviderEvent } from "./registry";
+
+/** Maps in-stream error types to the HTTP status they'd have had */
+const ERROR_STATUS: Record<string, number> = {
+    overloaded_error: 529,
+    rate_limit_error: 429,
+    api_error: 500,
+    invalid_request_error: 400,
+};
+
+/** Extended thinking budget; max_tokens must stay above it */
+const THINKING_BUDGET_TOKENS = 16000;
+/** The smallest budget the API accepts; lower output limits go without thinking */
+const MIN_THINKING_BUDGET_TOKENS = 1024;
+
+const DEFAULT_TEMPERATURE = 0.8;
+
+const EPHEMERAL = { type: "ephemeral" } as const;
+
+const HEADERS = {
+    "anthropic-version": "2023-06-01",
+    "anthropic-dangerous-direct-browser-access": "true",
+};
+
+const STOP_REASONS: Record<string, StopReason> = {
+    end_turn: "complete",
+    stop_sequence: "complete",
+    max_tokens: "max_tokens",
+    tool_use: "complete",
+    refusal: "content_filter",
+};
+
+export const anthropicProvider: ProviderAdapter = {
+    id: "anthropic",
+    name: "Anthropic",
+    baseUrl: "https://api.anthropic.com/v1",
+    authStyle: "x-api-key",
+
+    buildRequest: ({ messages, systemPrompt, config, reasoning, images, params = {}, tools }) => {
+        const maxTokens = params.maxTokens ?? config.maxTokens;
+        const thinkingBudget = Math.min(THINKING_BUDGET_TOKENS, Math.floor(maxTokens / 2));
+        const thinking = reasoning && thinkingBudget >= MIN_THINKING_BUDGET_TOKENS;
+
+        // System goes in a separate field and only user/assistant roles are allowed
+        const turns = messages.filter((m) => m.role !== "system");
+        const breakpoints = cacheBreakpoints(turns);
+        const anthropicMessages = turns.map((m, i) => {
+            const attached = getMessageImages(m, images);
+            // Results for the previous turn's tool calls have to open the next user turn
+            const results = m.role === "user" ? toolResultBlocks(turns[i - 1]) : [];
+            const toolUses = (m.toolCalls ?? []).map((call) => ({
+                type: "tool_use",
+                id: call.id,
+                name: call.name,
+                input: parseToolInput(call.arguments),
+            }));
+            // With thinking on, a turn's tool calls go back with the signed thinking before them
+            const thoughts = thinking && toolUses.length > 0 ? m.thinkingBlocks ?? [] : [];
+            if (attached.length === 0 && !breakpoints.has(i) && results.length === 0 && toolUses.length === 0) {
+                return { role: m.role as "user" | "assistant", content: m.content };
+            }
+
+            const blocks: Record<string, unknown>[] = [
+                ...thoughts,
+                ...results,
+                ...attached.map((img) => ({
+                    type: "image",
+                    source: { type: "base64", media_type: img.mimeType, data: img.data },
+                })),
+                ...(m.content ? [{ type: "text", text: m.content }] : []),
+                ...toolUses,
+            ];
+            if (breakpoints.has(i) && blocks.length > 0) {
+                blocks[blocks.length - 1].cache_control = EPHEMERAL;
+            }
+            return { role: m.role as "user" | "assistant", content: blocks.length > 0 ? blocks : m.content };
+        });
+        const trailingResults = toolResultBlocks(turns[turns.length - 1]);
+        if (trailingResults.length > 0) {
+            anthropicMessages.push({ role: "user", content: trailingResults });
+        }
+
+        const body: Record<string, unknown> = {
+            model: config.apiModel ?? config.id,
+            max_tokens: maxTokens,
+            system: [{ type: "text", text: systemPrompt, cache_control: EPHEMERAL }],
+            messages: anthropicMessages,
+            stream: true,
+            ...(tools?.length && {
+                tools: tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.parameters })),
+            }),
+        };
+
+        // Extended thinking requires the default temperature; top-p only applies without a temperature
+        if (thinking) {
+            body.thinking = { type: "enabled", budget_tokens: thinkingBudget };
+        } else if (params.topP !== undefined && params.temperature === undefined) {
+            body.top_p = params.topP;
+        } else {
+            body.temperature = params.temperature ?? DEFAULT_TEMPERATURE;
+        }
+
+        return { path: "/messages", headers: HEADERS, body };
+    },
+
+    createStreamParser: () => {
+        // tool_use blocks stream their input as JSON fragments, keyed by block index
+        const toolBlocks = new Map<number, ToolCall>();
+        // Thinking blocks are kept whole, with the signature that arrives last
+        const thinkingBlocks = new Map<number, ThinkingBlock>();
+
+        return (data) => {
+            const events: ProviderEvent[] = [];
+            try {
+                const parsed = JSON.parse(data);
+
+                if (parsed.type === "content_block_start") {
+                    const block = parsed.content_block;
+                    if (block?.type === "tool_use") {
+                        toolBlocks.set(parsed.index, { id: block.id, name: block.name, arguments: "" });
+                    } else if (block?.type === "thinking") {
+                        thinkingBlocks.set(parsed.index, { type: "thinking", thinking: "", signature: "" });
+                    } else if (block?.type === "redacted_thinking") {
+                        thinkingBlocks.set(parsed.index, { type: "redacted_thinking", data: block.data ?? "" });
+                    }
+                } else if (parsed.type === "content_block_delta") {
+                    const delta = parsed.delta;
+                    const thought = thinkingBlocks.get(parsed.index);
+                    if (delta?.type === "thinking_delta" && delta.thinking) {
+                        if (thought?.type === "thinking") thought.thinking += delta.thinking;
+                        events.push({ type: "reasoning", text: delta.thinking });
+                    } else if (delta?.type === "signature_delta") {
+                        if (thought?.type === "thinking") thought.signature += delta.signature ?? "";
+                    } else if (delta?.type === "input_json_delta") {
+                        const call = toolBlocks.get(parsed.index);
+                        if (call) call.arguments += delta.partial_json ?? "";
+                    } else if (delta?.text) {
+                        events.push({ type: "text", text: delta.text });
+                    }
+                } else if (parsed.type === "content_block_stop") {
+                    const call = toolBlocks.get(parsed.index);
+                    if (call) {
+                        toolBlocks.delete(parsed.index);
+                        events.push({ type: "tool_call", call: { ...call, arguments: call.arguments || "{}" } });
+                    }
+                    const thought = thinkingBlocks.get(parsed.index);
+                    if (thought) {
+                        thinkingBlocks.delete(parsed.index);
+                        events.push({ type: "thinking_block", block: thought });
+                    }
+                } else if (parsed.type === "message_start") {
+                    // input_tokens excludes cache reads and writes, so add them back in
+                    const usage = parsed.message?.usage ?? {};
+                    const cacheRead = usage.cache_read_input_tokens ?? 0;
+                    const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+                    events.push({
+                        type: "usage",
+                        usage: {
+                            inputTokens: (usage.input_tokens ?? 0) + cacheRead + cacheWrite,
+                            outputTokens: usage.output_tokens ?? 0,
+                            cachedInputTokens: cacheRead || undefined,
+                            cacheWriteTokens: cacheWrite || undefined,
+                        },
+                    });
+                } else if (parsed.type === "message_delta") {
+                    const stopReason = parsed.delta?.stop_reason;
+                    if (stopReason) {
+                        events.push({ type: "stop", reason: STOP_REASONS[stopReason] ?? "other" });
+                    }
+                    // Final cumulative output count
+                    if (parsed.usage?.output_tokens !== undefined) {
+                        events.push({ type: "usage", usage: { outputTokens: parsed.usage.output_tokens } });
+                    }
+                } else if (parsed.type === "message_stop") {
+                    events.push({ type: "end" });
+                } else if (parsed.type === "error") {
+                    const type = parsed.error?.type;
+                    events.push(
+                        {
+                            type: "error",
+                            message: parsed.error?.message ?? type ?? "Unknown error",
+                            status: ERROR_STATUS[type],
+                        },
+                        { type: "end" }
+                    );
+                }
+            } catch {
+                // skip malformed
+            }
+            return events;
+        };
+    },
+
+    buildModelsRequest: () => ({ path: "/models?limit=1000", method: "GET", headers: HEADERS }),
+
+    parseModels: (body) => {
+        const models: { id: string; display_name?: string }[] = JSON.parse(body).data ?? [];
+        return models.map((m) => ({ apiModel: m.id, name: m.display_name }));
+    },
+};
+
+/** `tool_result` blocks answering an assistant turn's tool calls */
+function toolResultBlocks(message: Message | undefined): Record<string, unknown>[] {
+    if (message?.role !== "assistant") return [];
+    return (message.toolCalls ?? []).map((call) => ({
+        type: "tool_result",
+        tool_use_id: call.id,
+        content: call.result ?? "OK",
+    }));
+}
+
+/**
+ * The largest prefix that only changes when a phase is locked: the compacted
+ * context preamble carrying the specs, or else the latest reply that generated
+ * a spec. Before any lock, the opening turn.
+ */
+function lockedSpecsEnd(messages: Message[]): number {
+    const preamble = messages.findIndex((m) => m.contextPreamble);
+    if (preamble !== -1) return preamble;
+    return Math.max(messages.findLastIndex((m) => m.specPhase), 0);
+}
+
+function parseToolInput(args: string): unknown {
+    try {
+        return JSON.parse(args || "{}");
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Message indices to mark for prompt caching. With the system prompt that's
+ * the 4 breakpoints allowed per request: the end of the locked specs (see
+ * `lockedSpecsEnd`), the previous user turn (read back from cache on this
+ * request) and the latest message (written for the next).
+ */
+function cacheBreakpoints(messages: Message[]): Set<number> {
+    const points = new Set<number>();
+    if (messages.length === 0) return points;
+
+    const last = messages.length - 1;
+    points.add(lockedSpecsEnd(messages));
+    points.add(last);
+    for (let i = last - 1; i > 0; i--) {
+        if (messages[i].role === "user") {
+            points.add(i);
+            break;
+        }
+    }
+    return points;
+}
@@ -0,0 +1,27 @@
+import { AzureConfig } from "@/types";
+import type { ProviderAdapter } from "./registry";
+import { chatCompletionsBody } from "./openai";
+import { createChatCompletionParser } from "./openai-compatible";
+
+export const DEFAULT_AZURE_API_VERSION = "2025-04-01-preview";
+
+/**
+ * Azure OpenAI: chat completions on a deployment of the user's resource.
+ * The deployment in the path picks the model, and the key goes in the
+ * `api-key` header. Content filter results arrive as extra chunks without
+ * choices, which the chat completions parser passes over.
+ */
+export function createAzureProvider({ resourceName, apiVersion }: Pick<AzureConfig, "resourceName" | "apiVersion">): ProviderAdapter {
+    const version = encodeURIComponent(apiVersion || DEFAULT_AZURE_API_VERSION);
+    return {
+        id: "azure",
+        name: "Azure OpenAI",
+        baseUrl: `https://${resourceName}.openai.azure.com/openai`,
+        authStyle: "api-key",
+        buildRequest: (input) => ({
+            path: `/deployments/${encodeURIComponent(input.config.apiModel ?? input.config.id)}/chat/completions?api-version=${version}`,
+            body: chatCompletionsBody(input),
+        }),
+        createStreamParser: createChatCompletionParser,
+    };
+}
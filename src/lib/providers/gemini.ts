@@ -0,0 +1,174 @@
+import { v4 as uuid } from "uuid";
+import { StopReason } from "@/types";
+import { getMessageImages } from "@/lib/attachments";
+import type { ProviderAdapter, ProviderEvent } from "./registry";
+
+const FINISH_REASONS: Record<string, StopReason> = {
+    STOP: "complete",
+    MAX_TOKENS: "max_tokens",
+    SAFETY: "content_filter",
+    RECITATION: "content_filter",
+    BLOCKLIST: "content_filter",
+    PROHIBITED_CONTENT: "content_filter",
+};
+
+const DEFAULT_TEMPERATURE = 0.8;
+
+export const geminiProvider: ProviderAdapter = {
+    id: "gemini",
+    name: "Gemini",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+    authStyle: "query-key",
+
+    buildRequest: ({ messages, systemPrompt, config, reasoning, images, params = {}, tools, responseFormat }) => {
+        // System instruction goes separately; assistant turns are "model"
+        const turns = messages.flatMap((msg): { role: string; parts: Record<string, unknown>[] }[] => {
+            const calls = msg.toolCalls ?? [];
+            const content = {
+                role: msg.role === "assistant" ? "model" : "user",
+                parts: [
+                    ...getMessageImages(msg, images).map((img) => ({
+                        inline_data: { mime_type: img.mimeType, data: img.data },
+                    })),
+                    ...(msg.content || (!msg.attachments?.length && calls.length === 0) ? [{ text: msg.content }] : []),
+                    ...calls.map((call) => ({ functionCall: { name: call.name, args: parseArgs(call.arguments) } })),
+                ],
+            };
+            if (calls.length === 0) return [content];
+            // Function responses answer the model turn from the user's side
+            return [
+                content,
+                {
+                    role: "user",
+                    parts: calls.map((call) => ({
+                        functionResponse: { name: call.name, response: { result: call.result ?? "OK" } },
+                    })),
+                },
+            ];
+        });
+        // ...sharing a turn with the user's next message, if there is one
+        const contents = turns.reduce<typeof turns>((merged, turn) => {
+            const prev = merged[merged.length - 1];
+            if (prev?.role === "user" && turn.role === "user") {
+                merged[merged.length - 1] = { ...prev, parts: [...prev.parts, ...turn.parts] };
+            } else {
+                merged.push(turn);
+            }
+            return merged;
+        }, []);
+
+        return {
+            path: `/models/${config.apiModel ?? config.id}:streamGenerateContent?alt=sse`,
+            body: {
+                system_instruction: { parts: [{ text: systemPrompt }] },
+                contents,
+                ...(tools?.length && { tools: [{ functionDeclarations: tools }] }),
+                generationConfig: {
+                    temperature: params.temperature ?? DEFAULT_TEMPERATURE,
+                    ...(params.topP !== undefined && { topP: params.topP }),
+                    maxOutputTokens: params.maxTokens ?? config.maxTokens,
+                    ...(reasoning && { thinkingConfig: { includeThoughts: true } }),
+                    ...(responseFormat && {
+                        responseMimeType: "application/json",
+                        responseJsonSchema: responseFormat.schema,
+                    }),
+                },
+            },
+        };
+    },
+
+    createStreamParser: () => (data) => {
+        const events: ProviderEvent[] = [];
+        try {
+            const parsed = JSON.parse(data);
+
+            if (parsed.error) {
+                return [
+                    {
+                        type: "error",
+                        message: parsed.error.message ?? JSON.stringify(parsed.error),
+                        status: parsed.error.code,
+                    },
+                    { type: "end" },
+                ];
+            }
+
+            const candidate = parsed.candidates?.[0];
+            for (const part of candidate?.content?.parts ?? []) {
+                if (part.functionCall) {
+                    events.push({
+                        type: "tool_call",
+                        call: {
+                            // Gemini only sometimes assigns ids; later requests need them unique
+                            id: part.functionCall.id ?? `call_${uuid().replace(/-/g, "")}`,
+                            name: part.functionCall.name,
+                            arguments: JSON.stringify(part.functionCall.args ?? {}),
+                        },
+                    });
+                } else if (part.text) {
+                    events.push({ type: part.thought ? "reasoning" : "text", text: part.text });
+                }
+            }
+            if (candidate?.finishReason) {
+                events.push({
+                    type: "stop",
+                    reason: FINISH_REASONS[candidate.finishReason] ?? "other",
+                });
+            }
+
+            // Every chunk carries cumulative usage; thoughts are billed as output
+            const meta = parsed.usageMetadata;
+            if (meta) {
+                const thoughts = meta.thoughtsTokenCount ?? 0;
+                events.push({
+                    type: "usage",
+                    usage: {
+                        inputTokens: meta.promptTokenCount ?? 0,
+                        outputTokens: (meta.candidatesTokenCount ?? 0) + thoughts,
+                        cachedInputTokens: meta.cachedContentTokenCount,
+                        reasoningTokens: thoughts || undefined,
+                    },
+                });
+            }
+        } catch {
+            // skip malformed
+        }
+        return events;
+    },
+
+    buildModelsRequest: () => ({ path: "/models?pageSize=1000", method: "GET" }),
+
+    parseModels: (body) => {
+        const models: {
+            name: string;
+            displayName?: string;
+            inputTokenLimit?: number;
+            outputTokenLimit?: number;
+            supportedGenerationMethods?: string[];
+            thinking?: boolean;
+        }[] = JSON.parse(body).models ?? [];
+        return models
+            .map((m) => ({ ...m, apiModel: m.name.replace(/^models\//, "") }))
+            .filter(
+                (m) =>
+                    m.apiModel.startsWith("gemini-") &&
+                    !/embedding|image|tts|live/.test(m.apiModel) &&
+                    m.supportedGenerationMethods?.includes("generateContent")
+            )
+            .map((m) => ({
+                apiModel: m.apiModel,
+                name: m.displayName,
+                maxTokens: m.outputTokenLimit,
+                contextWindow: m.inputTokenLimit,
+                supportsReasoning: m.thinking,
+            }));
+    },
+};
+
+function parseArgs(args: string): unknown {
+    try {
+        return JSON.parse(args || "{}");
+    } catch {
+        return {};
+    }
+}
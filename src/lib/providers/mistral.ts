@@ -0,0 +1,58 @@
+import type { ProviderAdapter } from "./registry";
+import {
+    createChatCompletionParser,
+    toChatCompletionMessages,
+    toChatCompletionResponseFormat,
+    toChatCompletionTools,
+} from "./openai-compatible";
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+/** Mistral only accepts tool call ids of exactly 9 letters and digits */
+function mistralToolCallId(id: string) {
+    if (/^[a-zA-Z0-9]{9}$/.test(id)) return id;
+    let hash = 0;
+    for (const char of id) hash = (Math.imul(hash, 31) + char.charCodeAt(0)) >>> 0;
+    return hash.toString(36).padStart(9, "0").slice(-9);
+}
+
+export const mistralProvider: ProviderAdapter = {
+    id: "mistral",
+    name: "Mistral",
+    baseUrl: "https://api.mistral.ai/v1",
+    authStyle: "bearer",
+
+    buildRequest: ({ messages, systemPrompt, config, images, params = {}, tools, responseFormat }) => ({
+        path: "/chat/completions",
+        body: {
+            model: config.apiModel ?? config.id,
+            messages: toChatCompletionMessages(messages, systemPrompt, images, mistralToolCallId),
+            stream: true,
+            max_tokens: params.maxTokens ?? config.maxTokens,
+            temperature: params.temperature ?? DEFAULT_TEMPERATURE,
+            ...(params.topP !== undefined && { top_p: params.topP }),
+            ...(tools?.length && { tools: toChatCompletionTools(tools) }),
+            ...(responseFormat && { response_format: toChatCompletionResponseFormat(responseFormat) }),
+        },
+    }),
+
+    // Mistral may send content as a string or as an array of typed parts
+    createStreamParser: createChatCompletionParser,
+
+    buildModelsRequest: () => ({ path: "/models", method: "GET" }),
+
+    parseModels: (body) => {
+        const models: {
+            id: string;
+            max_context_length?: number;
+            capabilities?: { completion_chat?: boolean; vision?: boolean };
+        }[] = JSON.parse(body).data ?? [];
+        return models
+            .filter((m) => m.capabilities?.completion_chat)
+            .map((m) => ({
+                apiModel: m.id,
+                contextWindow: m.max_context_length,
+                supportsVision: m.capabilities?.vision,
+            }));
+    },
+};
@@ -0,0 +1,188 @@
+import { Message, ResponseFormat, StopReason, ToolCall, ToolDefinition } from "@/types";
+import { ImageDataMap, getMessageImages } from "@/lib/attachments";
+import type { AuthStyle, ProviderAdapter, ProviderEvent, StreamParser } from "./registry";
+
+/**
+ * Chat completions message list with the system prompt prepended and images
+ * inlined. Tool calls are followed by `tool` messages carrying their results;
+ * `toolCallId` rewrites ids for servers that restrict their format.
+ */
+export function toChatCompletionMessages(
+    messages: Message[],
+    systemPrompt: string,
+    images?: ImageDataMap,
+    toolCallId: (id: string) => string = (id) => id
+) {
+    return [
+        { role: "system" as const, content: systemPrompt },
+        ...messages.flatMap((m): Record<string, unknown>[] => {
+            const attached = getMessageImages(m, images);
+            const message = {
+                role: m.role as "user" | "assistant" | "system",
+                content:
+                    attached.length === 0
+                        ? m.content
+                        : [
+                            ...(m.content ? [{ type: "text", text: m.content }] : []),
+                            ...attached.map((img) => ({
+                                type: "image_url",
+                                image_url: { url: `data:${img.mimeType};base64,${img.data}` },
+                            })),
+                        ],
+            };
+            if (!m.toolCalls?.length) return [message];
+            return [
+                {
+                    ...message,
+                    tool_calls: m.toolCalls.map((call) => ({
+                        id: toolCallId(call.id),
+                        type: "function",
+                        function: { name: call.name, arguments: call.arguments },
+                    })),
+                },
+                ...m.toolCalls.map((call) => ({
+                    role: "tool" as const,
+                    tool_call_id: toolCallId(call.id),
+                    content: call.result ?? "OK",
+                })),
+            ];
+        }),
+    ];
+}
+
+/** Tool definitions in the chat completions `tools` format */
+export function toChatCompletionTools(tools: ToolDefinition[]) {
+    return tools.map((tool) => ({
+        type: "function",
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+}
+
+/** JSON mode in the chat completions `response_format` shape */
+export function toChatCompletionResponseFormat({ name, schema }: ResponseFormat) {
+    // Strict mode would also reject the loose schemas tools use, so it's off
+    return { type: "json_schema", json_schema: { name, schema, strict: false } };
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+const FINISH_REASONS: Record<string, StopReason> = {
+    stop: "complete",
+    length: "max_tokens",
+    tool_calls: "complete",
+    content_filter: "content_filter",
+};
+
+/**
+ * Parses a chat completions stream: text deltas, the `reasoning_content` /
+ * `reasoning` deltas some servers add, tool call fragments (emitted once the
+ * choice finishes), the finish reason and the trailing `usage` object.
+ */
+export function createChatCompletionParser(): StreamParser {
+    const toolCalls = new Map<number, ToolCall>();
+
+    return (data) => {
+        if (data === "[DONE]") return [{ type: "end" }];
+
+        const events: ProviderEvent[] = [];
+        try {
+            const parsed = JSON.parse(data);
+
+            if (parsed.error) {
+                const code = Number(parsed.error.code);
+                return [
+                    {
+                        type: "error",
+                        message: parsed.error.message ?? JSON.stringify(parsed.error),
+                        status: isNaN(code) ? undefined : code,
+                    },
+                    { type: "end" },
+                ];
+            }
+
+            const choice = parsed.choices?.[0];
+            const delta = choice?.delta;
+
+            const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+            if (typeof reasoning === "string" && reasoning) {
+                events.push({ type: "reasoning", text: reasoning });
+            }
+
+            const content = delta?.content;
+            if (typeof content === "string") {
+                if (content) events.push({ type: "text", text: content });
+            } else if (Array.isArray(content)) {
+                for (const part of content) {
+                    if (part?.type === "text" && typeof part.text === "string") {
+                        events.push({ type: "text", text: part.text });
+                    }
+                }
+            } else {
+                const text = choice?.message?.content;
+                if (typeof text === "string") events.push({ type: "text", text });
+            }
+
+            for (const fragment of delta?.tool_calls ?? []) {
+                const call = toolCalls.get(fragment.index) ?? { id: "", name: "", arguments: "" };
+                if (fragment.id) call.id = fragment.id;
+                if (fragment.function?.name) call.name += fragment.function.name;
+                if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+                toolCalls.set(fragment.index, call);
+            }
+
+            if (choice?.finish_reason) {
+                for (const call of toolCalls.values()) {
+                    events.push({ type: "tool_call", call });
+                }
+                toolCalls.clear();
+                events.push({ type: "stop", reason: FINISH_REASONS[choice.finish_reason] ?? "other" });
+            }
+
+            if (parsed.usage) {
+                events.push({
+                    type: "usage",
+                    usage: {
+                        inputTokens: parsed.usage.prompt_tokens ?? 0,
+                        outputTokens: parsed.usage.completion_tokens ?? 0,
+                        cachedInputTokens: parsed.usage.prompt_tokens_details?.cached_tokens,
+                        reasoningTokens: parsed.usage.completion_tokens_details?.reasoning_tokens,
+                    },
+                });
+            }
+        } catch {
+            // skip malformed
+        }
+        return events;
+    };
+}
+
+/**
+ * Builds an adapter for any server implementing `POST /chat/completions`
+ * with SSE streaming (Ollama, vLLM, LM Studio, llama.cpp server...).
+ */
+export function createOpenAICompatibleProvider(options: {
+    id: string;
+    name: string;
+    baseUrl: string;
+    authStyle: AuthStyle;
+}): ProviderAdapter {
+    return {
+        ...options,
+        baseUrl: options.baseUrl.replace(/\/+$/, ""),
+        buildRequest: ({ messages, systemPrompt, config, images, params = {}, tools }) => ({
+            path: "/chat/completions",
+            body: {
+                model: config.apiModel ?? config.id,
+                messages: toChatCompletionMessages(messages, systemPrompt, images),
+                stream: true,
+                // Usage is only reported on streams that ask for it, in a final chunk
+                stream_options: { include_usage: true },
+                max_tokens: params.maxTokens ?? config.maxTokens,
+                temperature: params.temperature ?? DEFAULT_TEMPERATURE,
+                ...(params.topP !== undefined && { top_p: params.topP }),
+                ...(tools?.length && { tools: toChatCompletionTools(tools) }),
+            },
+        }),
+        createStreamParser: createChatCompletionParser,
+    };
+}
@@ -0,0 +1,207 @@
+import { Message, StopReason } from "@/types";
+import { ImageDataMap, getMessageImages } from "@/lib/attachments";
+import type { ProviderAdapter, ProviderEvent, ProviderRequestInput } from "./registry";
+import {
+    createChatCompletionParser,
+    toChatCompletionMessages,
+    toChatCompletionResponseFormat,
+    toChatCompletionTools,
+} from "./openai-compatible";
+
+const INCOMPLETE_REASONS: Record<string, StopReason> = {
+    max_output_tokens: "max_tokens",
+    content_filter: "content_filter",
+};
+
+const DEFAULT_TEMPERATURE = 0.8;
+
+/** /models lists every model type; keep the text chat ones */
+const CHAT_MODEL = /^(gpt-|o\d|chatgpt-)/;
+const NON_CHAT_MODEL = /audio|realtime|transcribe|tts|image|search|embedding|instruct|moderation/;
+
+export const openaiProvider: ProviderAdapter = {
+    id: "openai",
+    name: "OpenAI",
+    baseUrl: "https://api.openai.com/v1",
+    authStyle: "bearer",
+
+    buildRequest: ({ messages, systemPrompt, config, reasoning, images, params = {}, tools, responseFormat }) => {
+        const maxTokens = params.maxTokens ?? config.maxTokens;
+        const effort = params.reasoningEffort ?? config.reasoningEffort;
+
+        // Reasoning summaries are only exposed by the Responses API
+        if (reasoning) {
+            return {
+                path: "/responses",
+                body: {
+                    model: config.apiModel ?? config.id,
+                    instructions: systemPrompt,
+                    input: messages
+                        .filter((m) => m.role !== "system")
+                        .flatMap((m) => toResponsesInput(m, images)),
+                    stream: true,
+                    store: false,
+                    max_output_tokens: maxTokens,
+                    reasoning: { effort: effort ?? "medium", summary: "auto" },
+                    ...(tools?.length && {
+                        // Strict schemas would require every property; ours have optional ones
+                        tools: tools.map((t) => ({ type: "function", ...t, strict: false })),
+                    }),
+                    ...(responseFormat && {
+                        text: { format: { type: "json_schema", ...responseFormat, strict: false } },
+                    }),
+                },
+            };
+        }
+
+        return {
+            path: "/chat/completions",
+            body: chatCompletionsBody({ messages, systemPrompt, config, images, params, tools, responseFormat }),
+        };
+    },
+
+    createStreamParser: () => {
+        const parseChatCompletion = createChatCompletionParser();
+
+        return (data) => parseResponsesEvent(data) ?? parseChatCompletion(data);
+    },
+
+    buildModelsRequest: () => ({ path: "/models", method: "GET" }),
+
+    parseModels: (body) => {
+        const models: { id: string }[] = JSON.parse(body).data ?? [];
+        return models
+            .filter((m) => CHAT_MODEL.test(m.id) && !NON_CHAT_MODEL.test(m.id))
+            .map((m) => ({ apiModel: m.id }));
+    },
+};
+
+/** An OpenAI chat completions request body, also used for Azure deployments */
+export function chatCompletionsBody({
+    messages,
+    systemPrompt,
+    config,
+    images,
+    params = {},
+    tools,
+    responseFormat,
+}: ProviderRequestInput): Record<string, unknown> {
+    const effort = params.reasoningEffort ?? config.reasoningEffort;
+    const body: Record<string, unknown> = {
+        model: config.apiModel ?? config.id,
+        messages: toChatCompletionMessages(messages, systemPrompt, images),
+        stream: true,
+        // Ask for a final chunk carrying token usage
+        stream_options: { include_usage: true },
+        max_completion_tokens: params.maxTokens ?? config.maxTokens,
+        ...(tools?.length && { tools: toChatCompletionTools(tools) }),
+        ...(responseFormat && { response_format: toChatCompletionResponseFormat(responseFormat) }),
+    };
+
+    // Reasoning models use reasoning_effort instead of temperature
+    if (effort) {
+        body.reasoning_effort = effort;
+    } else {
+        body.temperature = params.temperature ?? DEFAULT_TEMPERATURE;
+        if (params.topP !== undefined) body.top_p = params.topP;
+    }
+    return body;
+}
+
+/** A message as Responses API input items: the message, then its tool calls and their outputs */
+function toResponsesInput(message: Message, images?: ImageDataMap): Record<string, unknown>[] {
+    const calls = message.toolCalls ?? [];
+    return [
+        ...(message.content || calls.length === 0
+            ? [{ role: message.role, content: toResponsesContent(message, images) }]
+            : []),
+        ...calls.flatMap((call) => [
+            { type: "function_call", call_id: call.id, name: call.name, arguments: call.arguments },
+            { type: "function_call_output", call_id: call.id, output: call.result ?? "OK" },
+        ]),
+    ];
+}
+
+function toResponsesContent(message: Message, images?: ImageDataMap) {
+    const attached = getMessageImages(message, images);
+    if (attached.length === 0) return message.content;
+    return [
+        ...(message.content ? [{ type: "input_text", text: message.content }] : []),
+        ...attached.map((img) => ({
+            type: "input_image",
+            image_url: `data:${img.mimeType};base64,${img.data}`,
+        })),
+    ];
+}
+
+/**
+ * Maps one Responses API stream event (`{ type: "response.…" }`) to provider
+ * events. Returns null for anything else, i.e. chat completion chunks.
+ */
+function parseResponsesEvent(data: string): ProviderEvent[] | null {
+    let event;
+    try {
+        event = JSON.parse(data);
+    } catch {
+        return null;
+    }
+    if (typeof event?.type !== "string") return null;
+
+    switch (event.type) {
+        case "response.output_text.delta":
+            return event.delta ? [{ type: "text", text: event.delta }] : [];
+
+        case "response.reasoning_summary_text.delta":
+            return event.delta ? [{ type: "reasoning", text: event.delta }] : [];
+
+        case "response.reasoning_summary_part.added":
+            // Separate consecutive summary paragraphs
+            return event.summary_index > 0 ? [{ type: "reasoning", text: "\n\n" }] : [];
+
+        case "response.output_item.done": {
+            const item = event.item;
+            if (item?.type !== "function_call") return [];
+            return [
+                {
+                    type: "tool_call",
+                    call: { id: item.call_id, name: item.name, arguments: item.arguments || "{}" },
+                },
+            ];
+        }
+
+        case "response.completed":
+        case "response.incomplete": {
+            const response = event.response ?? {};
+            const usage = response.usage ?? {};
+            const reason: StopReason =
+                event.type === "response.completed"
+                    ? "complete"
+                    : INCOMPLETE_REASONS[response.incomplete_details?.reason] ?? "other";
+            return [
+                { type: "stop", reason },
+                {
+                    type: "usage",
+                    usage: {
+                        inputTokens: usage.input_tokens ?? 0,
+                        outputTokens: usage.output_tokens ?? 0,
+                        cachedInputTokens: usage.input_tokens_details?.cached_tokens,
+                        reasoningTokens: usage.output_tokens_details?.reasoning_tokens,
+                    },
+                },
+                { type: "end" },
+            ];
+        }
+
+        case "response.failed":
+        case "error": {
+            const error = event.type === "error" ? event : event.response?.error;
+            return [
+                { type: "error", message: error?.message ?? "Unknown error" },
+                { type: "end" },
+            ];
+        }
+
+        default:
+            return [];
+    }
+}
@@ -0,0 +1,73 @@
+import type { ProviderAdapter } from "./registry";
+import {
+    createChatCompletionParser,
+    toChatCompletionMessages,
+    toChatCompletionResponseFormat,
+    toChatCompletionTools,
+} from "./openai-compatible";
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+/** Shown on OpenRouter's app rankings and in the user's activity log */
+const APP_TITLE = "Vibe Architect";
+
+/**
+ * OpenRouter: one key for many vendors' models, addressed by their
+ * `<vendor>/<model>` namespace (e.g. `anthropic/claude-sonnet-4.5`).
+ */
+export const openrouterProvider: ProviderAdapter = {
+    id: "openrouter",
+    name: "OpenRouter",
+    baseUrl: "https://openrouter.ai/api/v1",
+    authStyle: "bearer",
+
+    buildRequest: ({ messages, systemPrompt, config, reasoning, images, params = {}, tools, responseFormat }) => ({
+        path: "/chat/completions",
+        headers: attributionHeaders(),
+        body: {
+            model: config.apiModel ?? config.id,
+            messages: toChatCompletionMessages(messages, systemPrompt, images),
+            stream: true,
+            max_tokens: params.maxTokens ?? config.maxTokens,
+            temperature: params.temperature ?? DEFAULT_TEMPERATURE,
+            ...(params.topP !== undefined && { top_p: params.topP }),
+            ...(tools?.length && { tools: toChatCompletionTools(tools) }),
+            ...(responseFormat && { response_format: toChatCompletionResponseFormat(responseFormat) }),
+            // Normalized across vendors; streamed back as `delta.reasoning`
+            ...(reasoning && {
+                reasoning: params.reasoningEffort ? { effort: params.reasoningEffort } : { enabled: true },
+            }),
+        },
+    }),
+
+    createStreamParser: createChatCompletionParser,
+
+    buildModelsRequest: () => ({ path: "/models", method: "GET", headers: attributionHeaders() }),
+
+    parseModels: (body) => {
+        const models: {
+            id: string;
+            name?: string;
+            context_length?: number;
+            top_provider?: { max_completion_tokens?: number | null };
+            architecture?: { input_modalities?: string[]; output_modalities?: string[] };
+            supported_parameters?: string[];
+        }[] = JSON.parse(body).data ?? [];
+        return models
+            .filter((m) => m.architecture?.output_modalities?.includes("text") ?? true)
+            .map((m) => ({
+                apiModel: m.id,
+                name: m.name,
+                maxTokens: m.top_provider?.max_completion_tokens ?? undefined,
+                contextWindow: m.context_length,
+                supportsReasoning: m.supported_parameters?.includes("reasoning"),
+                supportsVision: m.architecture?.input_modalities?.includes("image"),
+            }));
+    },
+};
+
+/** App attribution: the page origin in the browser, just the title from the proxy */
+function attributionHeaders(): Record<string, string> {
+    const origin = typeof window === "undefined" ? undefined : window.location.origin;
+    return { "X-Title": APP_TITLE, ...(origin && { "HTTP-Referer": origin }) };
+}
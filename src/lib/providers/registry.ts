@@ -0,0 +1,255 @@
+import {
+    AzureConfig,
+    AzureLLMModel,
+    CustomEndpoint,
+    CustomLLMModel,
+    GenerationParams,
+    LLMModel,
+    LLMModelConfig,
+    LLMProvider,
+    LLM_MODELS,
+    MOCK_MODELS,
+    Message,
+    ModelCatalog,
+    ResponseFormat,
+    StopReason,
+    ThinkingBlock,
+    TokenUsage,
+    ToolCall,
+    ToolDefinition,
+} from "@/types";
+import type { ImageDataMap } from "@/lib/attachments";
+import { openaiProvider } from "./openai";
+import { mistralProvider } from "./mistral";
+import { geminiProvider } from "./gemini";
+import { anthropicProvider } from "./anthropic";
+import { openrouterProvider } from "./openrouter";
+import { createAzureProvider } from "./azure";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+
+/**
+ * How the API key is attached to a request:
+ * - `bearer`: `Authorization: Bearer <key>`
+ * - `x-api-key`: `x-api-key: <key>` (Anthropic)
+ * - `api-key`: `api-key: <key>` (Azure OpenAI)
+ * - `query-key`: `?key=<key>` (Gemini)
+ * - `none`: no credentials (local servers)
+ */
+export type AuthStyle = "bearer" | "x-api-key" | "api-key" | "query-key" | "none";
+
+export interface ProviderRequestInput {
+    messages: Message[];
+    systemPrompt: string;
+    config: LLMModelConfig;
+    /** Ask the model to stream its reasoning (only set for `supportsReasoning` models) */
+    reasoning?: boolean;
+    /** Image data for message attachments (only set for `supportsVision` models) */
+    images?: ImageDataMap;
+    /** User overrides, already clamped to this model's limits */
+    params?: GenerationParams;
+    /** Functions the model may call. Without them, messages carry no tool calls. */
+    tools?: ToolDefinition[];
+    /** JSON mode; adapters without one rely on the schema quoted in the prompt */
+    responseFormat?: ResponseFormat;
+}
+
+export interface ProviderRequest {
+    /** Appended to the adapter's base URL (may include a query string) */
+    path: string;
+    /** Defaults to POST */
+    method?: "GET" | "POST";
+    /** JSON body (POST only) */
+    body?: Record<string, unknown>;
+    /** Extra headers on top of Content-Type and auth */
+    headers?: Record<string, string>;
+}
+
+/** What an adapter pulls out of the stream */
+export type ProviderEvent =
+    | { type: "text"; text: string }
+    | { type: "reasoning"; text: string }
+    /** Usage may arrive in pieces; later reports override earlier fields */
+    | { type: "usage"; usage: Partial<TokenUsage> }
+    /** The provider's finish reason, usually on the last content event */
+    | { type: "stop"; reason: StopReason }
+    /** Emitted once the call's arguments have fully arrived */
+    | { type: "tool_call"; call: ToolCall }
+    /** A finished thinking block with its signature, to send back with tool calls */
+    | { type: "thinking_block"; block: ThinkingBlock }
+    /** An error event inside an otherwise successful (HTTP 200) stream */
+    | { type: "error"; message: string; status?: number }
+    /** Nothing more to read */
+    | { type: "end" };
+
+/** Turns one SSE `data:` payload into events; may keep state across payloads */
+export type StreamParser = (data: string) => ProviderEvent[];
+
+/** A chat model reported by a provider's model-listing endpoint */
+export interface DiscoveredModel {
+    apiModel: string;
+    name?: string;
+    maxTokens?: number;
+    contextWindow?: number;
+    supportsReasoning?: boolean;
+    supportsVision?: boolean;
+}
+
+export interface ProviderAdapter {
+    id: string;
+    name: string;
+    baseUrl: string;
+    authStyle: AuthStyle;
+    buildRequest: (input: ProviderRequestInput) => ProviderRequest;
+    /** Creates a parser for a single response stream */
+    createStreamParser: () => StreamParser;
+    /** Request for the provider's model list, if it has one */
+    buildModelsRequest?: () => ProviderRequest;
+    /** Picks the chat models out of the model list response body */
+    parseModels?: (body: string) => DiscoveredModel[];
+}
+
+// ─── Registry ───────────────────────────────────────────────────────────────
+
+const providers = new Map<string, ProviderAdapter>();
+let customEndpoints: CustomEndpoint[] = [];
+let customModels: LLMModelConfig[] = [];
+let azureModels: LLMModelConfig[] = [];
+let catalog: ModelCatalog = { models: [], retired: [] };
+
+export function registerProvider(adapter: ProviderAdapter) {
+    providers.set(adapter.id, adapter);
+}
+
+export function getProvider(id: string): ProviderAdapter | undefined {
+    return providers.get(id);
+}
+
+registerProvider(openaiProvider);
+registerProvider(mistralProvider);
+registerProvider(geminiProvider);
+registerProvider(anthropicProvider);
+registerProvider(openrouterProvider);
+
+/**
+ * Registers the Azure resource and its deployments, or removes them when no
+ * resource is set. Called by the settings store.
+ */
+export function setAzureConfig(config: AzureConfig) {
+    providers.delete("azure");
+    azureModels = [];
+    if (!config.resourceName) return;
+
+    registerProvider(createAzureProvider(config));
+    azureModels = config.deployments.map((d) => ({
+        id: azureModelId(d.deployment),
+        name: d.name || d.deployment,
+        provider: "azure",
+        maxTokens: d.maxTokens,
+        contextWindow: d.contextWindow,
+        apiModel: d.deployment,
+        reasoningEffort: d.reasoning ? "medium" : undefined,
+        supportsVision: d.supportsVision,
+    }));
+}
+
+export function azureModelId(deployment: string): AzureLLMModel {
+    return `azure:${deployment}`;
+}
+
+/**
+ * Replaces the set of user-defined endpoints. Called by the settings store
+ * whenever custom endpoints are loaded or edited.
+ */
+export function setCustomEndpoints(endpoints: CustomEndpoint[]) {
+    for (const endpoint of customEndpoints) {
+        providers.delete(customProviderId(endpoint.id));
+    }
+
+    customEndpoints = endpoints;
+    customModels = [];
+
+    for (const endpoint of endpoints) {
+        registerProvider(
+            createOpenAICompatibleProvider({
+                id: customProviderId(endpoint.id),
+                name: endpoint.name,
+                baseUrl: endpoint.baseUrl,
+                authStyle: endpoint.apiKey ? "bearer" : "none",
+            })
+        );
+        for (const model of endpoint.models) {
+            customModels.push({
+                id: customModelId(endpoint.id, model.apiModel),
+                name: model.name || model.apiModel,
+                provider: "custom",
+                maxTokens: model.maxTokens,
+                contextWindow: model.contextWindow,
+                apiModel: model.apiModel,
+                endpointId: endpoint.id,
+            });
+        }
+    }
+}
+
+/** Replaces the discovered model catalog. Called by the settings store. */
+export function setModelCatalog(next: ModelCatalog) {
+    catalog = next;
+}
+
+export function getCustomEndpoint(id: string): CustomEndpoint | undefined {
+    return customEndpoints.find((e) => e.id === id);
+}
+
+export function customModelId(endpointId: string, apiModel: string): CustomLLMModel {
+    return `custom:${endpointId}/${apiModel}`;
+}
+
+function customProviderId(endpointId: string) {
+    return `custom:${endpointId}`;
+}
+
+/** Every known model, retired ones included */
+function allModels(): LLMModelConfig[] {
+    return [...LLM_MODELS, ...catalog.models, ...azureModels, ...customModels, ...MOCK_MODELS];
+}
+
+/**
+ * All selectable models: the built-in catalog, discovered models, Azure
+ * deployments, custom endpoint models, then the mocks. Retired models are left out.
+ */
+export function listModels(): LLMModelConfig[] {
+    const retired = new Set(catalog.retired);
+    return allModels().filter((m) => !retired.has(m.id));
+}
+
+/** Resolves retired models too, so existing references keep working */
+export function getModelConfig(id: LLMModel): LLMModelConfig | undefined {
+    return allModels().find((m) => m.id === id);
+}
+
+export function isRetiredModel(id: LLMModel): boolean {
+    return catalog.retired.includes(id);
+}
+
+/** Resolves the adapter that serves a model */
+export function getProviderForModel(
+    config: LLMModelConfig
+): ProviderAdapter | undefined {
+    if (config.provider === "custom") {
+        return config.endpointId
+            ? providers.get(customProviderId(config.endpointId))
+            : undefined;
+    }
+    return providers.get(config.provider);
+}
+
+export const PROVIDER_LABELS: Record<LLMProvider, string> = {
+    openai: "OpenAI",
+    gemini: "Google Gemini",
+    anthropic: "Anthropic",
+    mistral: "Mistral",
+    openrouter: "OpenRouter",
+    azure: "Azure OpenAI",
+    custom: "Custom",
+    mock: "Mock",
+};
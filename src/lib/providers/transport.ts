@@ -0,0 +1,44 @@
+import type { ProviderAdapter, ProviderRequest } from "./registry";
+
+/**
+ * Sends a built request to the provider with the key attached the way the
+ * adapter expects. Used from the browser, or by the proxy route with a key
+ * from server env.
+ */
+export function fetchProvider(
+    adapter: ProviderAdapter,
+    request: ProviderRequest,
+    apiKey: string,
+    signal?: AbortSignal
+): Promise<Response> {
+    const method = request.method ?? "POST";
+    return fetch(buildUrl(adapter, request, apiKey), {
+        method,
+        headers: buildHeaders(adapter, request, apiKey),
+        body: method === "POST" ? JSON.stringify(request.body) : undefined,
+        signal,
+    });
+}
+
+function buildUrl(adapter: ProviderAdapter, request: ProviderRequest, apiKey: string) {
+    const url = new URL(adapter.baseUrl + request.path);
+    if (adapter.authStyle === "query-key") {
+        url.searchParams.set("key", apiKey);
+    }
+    return url.toString();
+}
+
+function buildHeaders(adapter: ProviderAdapter, request: ProviderRequest, apiKey: string) {
+    const headers: Record<string, string> = {
+        ...(request.method !== "GET" && { "Content-Type": "application/json" }),
+        ...request.headers,
+    };
+    if (adapter.authStyle === "bearer") {
+        headers.Authorization = `Bearer ${apiKey}`;
+    } else if (adapter.authStyle === "x-api-key") {
+        headers["x-api-key"] = apiKey;
+    } else if (adapter.authStyle === "api-key") {
+        headers["api-key"] = apiKey;
+    }
+    return headers;
+}
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LLM_MODELS } from "@/types";
+import { toModelConfig } from "./model-catalog";
+import { rateLimitResponse, resolveModel } from "./proxy-server";
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe("resolveModel", () => {
+    it("serves built-in models under their own provider only", () => {
+        const model = LLM_MODELS.find((m) => m.provider === "anthropic")!;
+        expect(resolveModel("anthropic", model.id)).toBe(model);
+        expect(resolveModel("openai", model.id)).toBeUndefined();
+    });
+
+    it("rejects unknown providers", () => {
+        expect(resolveModel("acme", LLM_MODELS[0].id)).toBeUndefined();
+        expect(resolveModel("custom", "custom:llama")).toBeUndefined();
+    });
+
+    it("rejects discovered models that aren't on the allowlist", () => {
+        expect(resolveModel("openai", "openai:gpt-4.1-nano")).toBeUndefined();
+        vi.stubEnv("LLM_PROXY_MODELS", "openai:gpt-4.1-mini");
+        expect(resolveModel("openai", "openai:gpt-4.1-nano")).toBeUndefined();
+    });
+
+    it("configures allowlisted models on the server", () => {
+        vi.stubEnv("LLM_PROXY_MODELS", " openai:gpt-4.1-nano , anthropic:claude-haiku-4-5");
+        expect(resolveModel("openai", "openai:gpt-4.1-nano")).toEqual(
+            toModelConfig("openai", { apiModel: "gpt-4.1-nano" })
+        );
+        expect(resolveModel("anthropic", "anthropic:claude-haiku-4-5")).toMatchObject({
+            id: "anthropic:claude-haiku-4-5",
+            provider: "anthropic",
+            apiModel: "claude-haiku-4-5",
+        });
+    });
+
+    it("rejects allowlisted models requested through another provider", () => {
+        vi.stubEnv("LLM_PROXY_MODELS", "openai:gpt-4.1-nano,openai:");
+        expect(resolveModel("openrouter", "openai:gpt-4.1-nano")).toBeUndefined();
+        expect(resolveModel("openai", "openai:")).toBeUndefined();
+    });
+});
+
+describe("rateLimitResponse", () => {
+    const request = (headers: Record<string, string>) => new Request("http://localhost/api/llm/openai", { headers });
+
+    it("limits each client IP separately", () => {
+        vi.stubEnv("LLM_PROXY_RATE_LIMIT", "2");
+        const first = request({ "x-forwarded-for": "203.0.113.1" });
+        expect(rateLimitResponse(first)).toBeNull();
+        expect(rateLimitResponse(first)).toBeNull();
+
+        const limited = rateLimitResponse(first);
+        expect(limited?.status).toBe(429);
+        expect(Number(limited?.headers.get("retry-after"))).toBeGreaterThan(0);
+
+        expect(rateLimitResponse(request({ "x-forwarded-for": "203.0.113.2" }))).toBeNull();
+    });
+
+    it("ignores addresses the client added to x-forwarded-for", () => {
+        vi.stubEnv("LLM_PROXY_RATE_LIMIT", "1");
+        expect(rateLimitResponse(request({ "x-forwarded-for": "198.51.100.1, 203.0.113.3" }))).toBeNull();
+        expect(rateLimitResponse(request({ "x-forwarded-for": "198.51.100.2, 203.0.113.3" }))?.status).toBe(429);
+    });
+
+    it("reads the client IP further left behind more trusted proxies", () => {
+        vi.stubEnv("LLM_PROXY_RATE_LIMIT", "1");
+        vi.stubEnv("LLM_PROXY_TRUSTED_HOPS", "2");
+        expect(rateLimitResponse(request({ "x-forwarded-for": "203.0.113.4, 10.0.0.1" }))).toBeNull();
+        expect(rateLimitResponse(request({ "x-forwarded-for": "203.0.113.5, 10.0.0.1" }))).toBeNull();
+    });
+
+    it("prefers the configured user header", () => {
+        vi.stubEnv("LLM_PROXY_RATE_LIMIT", "1");
+        vi.stubEnv("LLM_PROXY_USER_HEADER", "x-forwarded-email");
+        const ip = { "x-forwarded-for": "203.0.113.6" };
+        expect(rateLimitResponse(request({ ...ip, "x-forwarded-email": "a@example.com" }))).toBeNull();
+        expect(rateLimitResponse(request({ ...ip, "x-forwarded-email": "b@example.com" }))).toBeNull();
+    });
+
+    it("doesn't limit when set to 0", () => {
+        vi.stubEnv("LLM_PROXY_RATE_LIMIT", "0");
+        const anonymous = request({});
+        for (let i = 0; i < 50; i++) expect(rateLimitResponse(anonymous)).toBeNull();
+    });
+});
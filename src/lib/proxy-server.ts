@@ -0,0 +1,110 @@
+import { BuiltInProvider, LLMModelConfig, LLM_MODELS } from "@/types";
+import { SERVER_KEY_ENV } from "./llm-proxy";
+import { toModelConfig } from "./model-catalog";
+
+/**
+ * Server-side helpers for the proxy route handlers: keys from env, the models
+ * the proxy serves and a per-user rate limit.
+ *
+ * Env:
+ * - `OPENAI_API_KEY`, `GEMINI_API_KEY`, `ANTHROPIC_API_KEY`, `MISTRAL_API_KEY`,
+ *   `OPENROUTER_API_KEY`
+ * - `LLM_PROXY_MODELS`: comma-separated discovered models the proxy serves on top
+ *   of the built-in ones, as `<provider>:<apiModel>` (e.g. `openai:gpt-4.1-nano`)
+ * - `LLM_PROXY_RATE_LIMIT`: requests per user per minute (default 30, 0 = unlimited)
+ * - `LLM_PROXY_USER_HEADER`: header identifying the user, e.g. `x-forwarded-email`
+ *   from an auth proxy. Without it users are told apart by client IP.
+ * - `LLM_PROXY_TRUSTED_HOPS`: reverse proxies in front of the app (default 1). The
+ *   client IP is read that many entries from the right of `x-forwarded-for`, since
+ *   anything further left is whatever the client sent. 0 ignores the header and
+ *   puts all anonymous users under one limit.
+ */
+
+const DEFAULT_RATE_LIMIT = 30;
+const DEFAULT_TRUSTED_HOPS = 1;
+const RATE_WINDOW_MS = 60_000;
+
+export function getServerKey(provider: BuiltInProvider): string | undefined {
+    return process.env[SERVER_KEY_ENV[provider]] || undefined;
+}
+
+/**
+ * The server's config for a model the proxy serves: a built-in model, or a
+ * discovered one (`<provider>:<apiModel>`) on the `LLM_PROXY_MODELS` allowlist,
+ * configured from the curated catalog metadata. Whatever config the client
+ * has for the model is never used, so its limits can't be raised.
+ */
+export function resolveModel(provider: string, model: string): LLMModelConfig | undefined {
+    if (!(provider in SERVER_KEY_ENV)) return undefined;
+    const builtIn = LLM_MODELS.find((m) => m.id === model);
+    if (builtIn) return builtIn.provider === provider ? builtIn : undefined;
+
+    const prefix = `${provider}:`;
+    const allowed = (process.env.LLM_PROXY_MODELS ?? "").split(",").map((id) => id.trim());
+    if (!model.startsWith(prefix) || model.length === prefix.length || !allowed.includes(model)) return undefined;
+    return toModelConfig(provider as BuiltInProvider, { apiModel: model.slice(prefix.length) });
+}
+
+// Fixed one-minute windows, kept in memory — limits are per server instance
+const windows = new Map<string, { start: number; count: number }>();
+
+/** Counts the request against its user; returns the seconds to wait if over the limit */
+function checkRateLimit(request: Request): { ok: true } | { ok: false; retryAfterSeconds: number } {
+    const limit = Number(process.env.LLM_PROXY_RATE_LIMIT ?? DEFAULT_RATE_LIMIT);
+    if (!limit) return { ok: true };
+
+    const user = identifyUser(request);
+    const now = Date.now();
+    let window = windows.get(user);
+    if (!window || now - window.start >= RATE_WINDOW_MS) {
+        window = { start: now, count: 0 };
+        windows.set(user, window);
+        pruneWindows(now);
+    }
+
+    if (window.count >= limit) {
+        return { ok: false, retryAfterSeconds: Math.ceil((window.start + RATE_WINDOW_MS - now) / 1000) };
+    }
+    window.count++;
+    return { ok: true };
+}
+
+function identifyUser(request: Request): string {
+    const header = process.env.LLM_PROXY_USER_HEADER;
+    const user = header && request.headers.get(header);
+    if (user) return `user:${user}`;
+    return `ip:${clientIp(request) ?? "unknown"}`;
+}
+
+/** The address the nearest trusted proxy saw, which the client can't forge */
+function clientIp(request: Request): string | undefined {
+    const hops = Number(process.env.LLM_PROXY_TRUSTED_HOPS ?? DEFAULT_TRUSTED_HOPS);
+    if (!(hops >= 1)) return undefined;
+    const forwarded = request.headers
+        .get("x-forwarded-for")
+        ?.split(",")
+        .map((ip) => ip.trim())
+        .filter(Boolean);
+    if (forwarded?.length) return forwarded[Math.max(forwarded.length - hops, 0)];
+    return request.headers.get("x-real-ip") || undefined;
+}
+
+function pruneWindows(now: number) {
+    for (const [user, window] of windows) {
+        if (now - window.start >= RATE_WINDOW_MS) windows.delete(user);
+    }
+}
+
+/** An error in the OpenAI-style `{ error: { message } }` shape */
+export function jsonError(status: number, message: string, headers?: Record<string, string>) {
+    return Response.json({ error: { message } }, { status, headers });
+}
+
+/** The rate limit response, or null if the request may proceed */
+export function rateLimitResponse(request: Request): Response | null {
+    const result = checkRateLimit(request);
+    if (result.ok) return null;
+    return jsonError(429, "Rate limit exceeded — try again shortly", {
+        "retry-after": String(result.retryAfterSeconds),
+    });
+}
@@ -1,39 +1,118 @@
-import { Conversation } from "@/types";
+import { Lexer, Token, Tokens } from "marked";
+import { Conversation, ConversationPhase } from "@/types";
+import { getModelConfig } from "./providers/registry";
+
+export interface CompileOptions {
+    /** Include captured model reasoning in the conversation log (off by default) */
+    includeReasoning?: boolean;
+}
 
 /**
- * Compiles a conversation into a single master-spec.md file.
+ * Where a section's content came from: the phase's locked spec doc, a
+ * heading-matched slice of the conversation, or nowhere yet.
  */
-export function compileSingleFile(conversation: Conversation): string {
-    const sections = extractSections(conversation);
-    const timestamp = new Date().toISOString().split("T")[0];
-
-    return `# ${conversation.title} — Implementation Spec
-> Generated by Vibe Architect on ${timestamp}
-
----
+export type SectionSource = "locked" | "conversation" | "missing";
+
+export interface CompiledSection {
+    phase: ConversationPhase;
+    title: string;
+    fileName: string;
+    content: string;
+    source: SectionSource;
+    /** The heading a `conversation` section was sliced from */
+    matchedHeading?: string;
+}
 
-## 1. Vision & Scope
-${sections.vision || "_Not yet defined_"}
+const SECTIONS: { phase: ConversationPhase; title: string; fileName: string; heading: RegExp }[] = [
+    {
+        phase: "vision",
+        title: "Vision & Scope",
+        fileName: "@01-vision.md",
+        heading: /\b(vision|scope|mvp|product|problem|features?)\b/i,
+    },
+    {
+        phase: "design",
+        title: "Design System",
+        fileName: "@02-design.md",
+        heading: /\b(design|visual|typography|colou?rs?|vibe|ui)\b/i,
+    },
+    {
+        phase: "stack",
+        title: "Tech Stack & Architecture",
+        fileName: "@03-stack.md",
+        heading: /\b(tech|stack|architecture|backend|frontend|database)\b/i,
+    },
+    {
+        phase: "export",
+        title: "Implementation Plan",
+        fileName: "@04-implementation.md",
+        heading: /\b(implementation|steps|phases|plan|roadmap|milestones)\b/i,
+    },
+];
+
+const NOT_DEFINED = "_Not yet defined_";
 
----
+/**
+ * The four spec sections. Locked spec docs are used as they are; a phase
+ * without one falls back to the most recent assistant message with a
+ * matching heading, sliced up to the next heading of the same level.
+ */
+export function compileSections(conversation: Conversation): CompiledSection[] {
+    const replies = conversation.messages
+        .filter((m) => m.role === "assistant" && m.content.trim())
+        .map((m) => m.content)
+        .reverse();
+
+    return SECTIONS.map(({ phase, title, fileName, heading }) => {
+        const locked = conversation.specDocs[phase]?.trim();
+        if (locked) return { phase, title, fileName, content: locked, source: "locked" };
+
+        for (const reply of replies) {
+            const match = sliceSections(reply).find((s) => heading.test(s.heading));
+            if (match) {
+                return {
+                    phase,
+                    title,
+                    fileName,
+                    content: match.markdown,
+                    source: "conversation",
+                    matchedHeading: match.heading,
+                };
+            }
+        }
+        return { phase, title, fileName, content: "", source: "missing" };
+    });
+}
 
-## 2. Design System
-${sections.design || "_Not yet defined_"}
+/**
+ * Compiles a conversation into a single master-spec.md file.
+ */
+export function compileSingleFile(
+    conversation: Conversation,
+    options: CompileOptions = {}
+): string {
+    const sections = compileSections(conversation);
+    const timestamp = new Date().toISOString().split("T")[0];
 
----
+    const body = sections
+        .map((s, i) => {
+            const content = s.content ? nestHeadings(s.content, 2) : NOT_DEFINED;
+            return `## ${i + 1}. ${s.title}\n${sourceNote(s)}${content}`;
+        })
+        .join("\n\n---\n\n");
 
-## 3. Tech Stack & Architecture
-${sections.stack || "_Not yet defined_"}
+    return `# ${conversation.title} — Implementation Spec
+> Generated by Vibe Architect on ${timestamp}
+> ${describeSources(sections)}
 
 ---
 
-## 4. Implementation Plan
-${sections.implementation || "_Not yet defined_"}
+${body}
 
 ---
 
 ## Appendix: Full Conversation Log
-${formatConversationLog(conversation)}
+${formatConversationLog(conversation, options)}
 `;
 }
 
@@ -43,81 +122,95 @@ ${formatConversationLog(conversation)}
 export function compileMultiFile(
     conversation: Conversation
 ): Record<string, string> {
-    const sections = extractSections(conversation);
     const timestamp = new Date().toISOString().split("T")[0];
     const header = (title: string) =>
         `# ${title}\n> Project: ${conversation.title}\n> Generated: ${timestamp}\n\n---\n\n`;
 
-    return {
-        "@01-vision.md":
-            header("Vision & Scope") + (sections.vision || "_Not yet defined_"),
-        "@02-design.md":
-            header("Design System") + (sections.design || "_Not yet defined_"),
-        "@03-stack.md":
-            header("Tech Stack & Architecture") +
-            (sections.stack || "_Not yet defined_"),
-        "@04-implementation.md":
-            header("Implementation Plan") +
-            (sections.implementation || "_Not yet defined_"),
-    };
+    return Object.fromEntries(
+        compileSections(conversation).map((s) => [
+            s.fileName,
+            header(s.title) + sourceNote(s) + (s.content ? nestHeadings(s.content, 1) : NOT_DEFINED),
+        ])
+    );
 }
 
-interface Sections {
-    vision: string;
-    design: string;
-    stack: string;
-    implementation: string;
+/** e.g. "Sections: 2 from locked specs, 1 from the conversation, 1 missing" */
+export function describeSources(sections: CompiledSection[]): string {
+    const count = (source: SectionSource) => sections.filter((s) => s.source === source).length;
+    const parts = [
+        [count("locked"), "from locked specs"],
+        [count("conversation"), "from the conversation (not locked)"],
+        [count("missing"), "missing"],
+    ] as const;
+    return `Sections: ${parts
+        .filter(([n]) => n > 0)
+        .map(([n, label]) => `${n} ${label}`)
+        .join(", ")}`;
 }
 
-function extractSections(conversation: Conversation): Sections {
-    const allAssistantContent = conversation.messages
-        .filter((m) => m.role === "assistant")
-        .map((m) => m.content)
-        .join("\n\n---\n\n");
+/** A callout under the heading of anything that isn't a locked spec */
+function sourceNote(section: CompiledSection): string {
+    if (section.source !== "conversation") return "";
+    return `> ⚠ Not locked — taken from the conversation ("${section.matchedHeading}")\n\n`;
+}
+
+// ─── Markdown AST helpers ───────────────────────────────────────────────────
 
-    // Try to split by common section markers the AI uses
-    const sections: Sections = {
-        vision: "",
-        design: "",
-        stack: "",
-        implementation: "",
-    };
-
-    // Simple heuristic: look for keyword-based section headers
-    const visionPatterns =
-        /(?:##?\s*(?:1\.?\s*)?(?:Vision|MVP|Scope|Features|Product)[\s\S]*?)(?=##?\s*(?:2\.?\s*)?(?:Design|Visual|UI)|$)/i;
-    const designPatterns =
-        /(?:##?\s*(?:2\.?\s*)?(?:Design|Visual|UI|Colors|Typography|Vibe)[\s\S]*?)(?=##?\s*(?:3\.?\s*)?(?:Tech|Stack|Architecture|Backend)|$)/i;
-    const stackPatterns =
-        /(?:##?\s*(?:3\.?\s*)?(?:Tech|Stack|Architecture|Backend|Frontend)[\s\S]*?)(?=##?\s*(?:4\.?\s*)?(?:Implementation|Steps|Phases|Plan)|$)/i;
-    const implementationPatterns =
-        /(?:##?\s*(?:4\.?\s*)?(?:Implementation|Steps|Phases|Plan)[\s\S]*?)$/i;
-
-    const visionMatch = allAssistantContent.match(visionPatterns);
-    const designMatch = allAssistantContent.match(designPatterns);
-    const stackMatch = allAssistantContent.match(stackPatterns);
-    const implementationMatch = allAssistantContent.match(implementationPatterns);
-
-    if (visionMatch) sections.vision = visionMatch[0].trim();
-    if (designMatch) sections.design = designMatch[0].trim();
-    if (stackMatch) sections.stack = stackMatch[0].trim();
-    if (implementationMatch)
-        sections.implementation = implementationMatch[0].trim();
-
-    // Fallback: if no sections found, dump everything into implementation
-    if (!sections.vision && !sections.design && !sections.stack) {
-        sections.implementation = allAssistantContent;
-    }
+interface MarkdownSection {
+    heading: string;
+    /** The heading and everything up to the next heading of the same or a higher level */
+    markdown: string;
+}
 
+/** Every heading's section, in document order; nested sections overlap their parents */
+function sliceSections(markdown: string): MarkdownSection[] {
+    const tokens = Lexer.lex(markdown, { gfm: true });
+    const sections: MarkdownSection[] = [];
+
+    tokens.forEach((token, i) => {
+        if (!isHeading(token)) return;
+        const end = tokens.findIndex((t, j) => j > i && isHeading(t) && t.depth <= token.depth);
+        const body = tokens.slice(i, end === -1 ? undefined : end);
+        sections.push({
+            heading: token.text,
+            markdown: body.map((t) => t.raw).join("").trim(),
+        });
+    });
     return sections;
 }
 
-function formatConversationLog(conversation: Conversation): string {
+/** Shifts headings so the doc's top level sits just below a `parentDepth` heading */
+export function nestHeadings(markdown: string, parentDepth: number): string {
+    const tokens = Lexer.lex(markdown, { gfm: true });
+    const top = Math.min(...tokens.filter(isHeading).map((t) => t.depth));
+    if (!Number.isFinite(top)) return markdown;
+    const shift = parentDepth + 1 - top;
+
+    return tokens
+        .map((token) => {
+            if (!isHeading(token)) return token.raw;
+            const trailing = token.raw.match(/\n*$/)?.[0] ?? "";
+            return `${"#".repeat(Math.min(token.depth + shift, 6))} ${token.text}${trailing}`;
+        })
+        .join("")
+        .trim();
+}
+
+function isHeading(token: Token): token is Tokens.Heading {
+    return token.type === "heading";
+}
+
+function formatConversationLog(conversation: Conversation, options: CompileOptions): string {
     return conversation.messages
         .map((m) => {
             const role = m.role === "user" ? "**User**" : "**Architect**";
+            const author = m.model ? `${role} · ${getModelConfig(m.model)?.name ?? m.model}` : role;
             const time = new Date(m.timestamp).toLocaleTimeString();
-            return `### ${role} (${time})\n${m.content}`;
+            const reasoning =
+                options.includeReasoning && m.reasoning
+                    ? `<details>\n<summary>Reasoning</summary>\n\n${m.reasoning}\n\n</details>\n\n`
+                    : "";
+            return `### ${author} (${time})\n${reasoning}${m.content}`;
         })
         .join("\n\n---\n\n");
 }
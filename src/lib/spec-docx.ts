@@ -0,0 +1,412 @@
+import JSZip from "jszip";
+import { Lexer, MarkedToken, Token, Tokens } from "marked";
+import { Conversation } from "@/types";
+import { CompileOptions, compileSections, compileSingleFile, describeSources } from "./spec-compiler";
+
+/**
+ * Word export: the compiled single-file spec written as a native .docx
+ * (WordprocessingML zipped with JSZip) with built-in heading, list, table and
+ * code styles, a cover page and a table of contents field. The contents are
+ * filled in with links to each section; Word adds page numbers when it
+ * updates the field on open.
+ */
+
+export interface DocxOptions extends CompileOptions {
+    /** Shown on the cover page above the spec title */
+    projectName?: string;
+}
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export async function compileDocx(conversation: Conversation, options: DocxOptions = {}): Promise<Blob> {
+    const tokens = Lexer.lex(compileSingleFile(conversation, options), { gfm: true });
+    // The cover page stands in for the markdown title block
+    const firstSection = tokens.findIndex((t) => t.type === "heading" && t.depth === 2);
+
+    const context: DocxContext = { links: [], orderedLists: [], headings: [], inLog: false };
+    const body = blocks(firstSection === -1 ? [] : tokens.slice(firstSection), context);
+    const cover = coverPage(conversation, options.projectName, describeSources(compileSections(conversation)));
+
+    const zip = new JSZip();
+    zip.file("[Content_Types].xml", CONTENT_TYPES);
+    zip.file("_rels/.rels", PACKAGE_RELS);
+    zip.file("docProps/core.xml", coreProperties(conversation.title));
+    zip.file("word/_rels/document.xml.rels", documentRels(context.links));
+    zip.file("word/document.xml", documentXml(cover + tableOfContents(context.headings) + body));
+    zip.file("word/styles.xml", STYLES);
+    zip.file("word/numbering.xml", numberingXml(context.orderedLists));
+    zip.file("word/settings.xml", SETTINGS);
+    zip.file("word/footer1.xml", FOOTER);
+    return zip.generateAsync({ type: "blob", mimeType: DOCX_MIME });
+}
+
+interface DocxContext {
+    /** External link targets; each is a relationship `rIdLink<index>` */
+    links: string[];
+    /** Start numbers of ordered lists, each its own numbering instance so it restarts */
+    orderedLists: number[];
+    /** Bookmarked headings for the table of contents */
+    headings: { bookmark: string; text: string; level: number }[];
+    /** Past the numbered sections, in the conversation log */
+    inLog: boolean;
+}
+
+interface RunStyle {
+    bold?: boolean;
+    italic?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    link?: boolean;
+}
+
+const BULLET_NUM_ID = 1;
+const HEADING_NUMBER = /^\d+\.\s/;
+/** A4 width less the margins, in twentieths of a point */
+const TEXT_WIDTH = 9638;
+
+// ─── Document parts ─────────────────────────────────────────────────────────
+
+function coverPage(conversation: Conversation, projectName: string | undefined, sources: string): string {
+    const date = new Date().toLocaleDateString(undefined, { dateStyle: "long" });
+    return [
+        paragraph(run(projectName || conversation.title), "Title"),
+        paragraph(run(projectName ? `${conversation.title} — Implementation Spec` : "Implementation Spec"), "Subtitle"),
+        paragraph(run(`Generated by Vibe Architect on ${date}`), "CoverMeta"),
+        paragraph(run(sources), "CoverMeta"),
+        pageBreak(),
+    ].join("");
+}
+
+/**
+ * A TOC field prefilled with linked entries, for viewers that don't update
+ * fields. The first section's Heading 1 starts the next page.
+ */
+function tableOfContents(headings: DocxContext["headings"]): string {
+    const begin =
+        '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>' +
+        '<w:r><w:instrText xml:space="preserve"> TOC \\o "1-2" \\h \\z \\u </w:instrText></w:r>' +
+        '<w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+    const end = '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+
+    const entries = headings.map(
+        (h) => `<w:hyperlink w:anchor="${h.bookmark}" w:history="1">${run(h.text)}</w:hyperlink>`
+    );
+    const lines = entries.length > 0 ? entries : [run("Update this field to build the table of contents.")];
+    const styles = headings.length > 0 ? headings.map((h) => `TOC${h.level}`) : ["TOC1"];
+
+    return (
+        paragraph(run("Contents"), "TOCHeading") +
+        lines
+            .map((line, i) => {
+                const content = (i === 0 ? begin : "") + line + (i === lines.length - 1 ? end : "");
+                return paragraph(content, styles[i]);
+            })
+            .join("")
+    );
+}
+
+function documentXml(body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body>${body}<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/><w:titlePg/></w:sectPr></w:body></w:document>`;
+}
+
+function documentRels(links: string[]): string {
+    const rels = [
+        '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+        '<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>',
+        '<Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>',
+        '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>',
+        ...links.map(
+            (href, i) =>
+                `<Relationship Id="rIdLink${i}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+        ),
+    ];
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels.join("")}</Relationships>`;
+}
+
+function coreProperties(title: string): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)} — Implementation Spec</dc:title><dc:creator>Vibe Architect</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, "Z")}</dcterms:created></cp:coreProperties>`;
+}
+
+/** One bullet list definition shared by every bullet list, one decimal instance per ordered list */
+function numberingXml(orderedLists: number[]): string {
+    const levels = (format: (level: number) => string) =>
+        Array.from({ length: 9 }, (_, level) => format(level)).join("");
+    const indent = (level: number) => `<w:pPr><w:ind w:left="${360 * (level + 1) + 360}" w:hanging="360"/></w:pPr>`;
+
+    const bullets = levels(
+        (level) =>
+            `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="${["•", "◦", "▪"][level % 3]}"/><w:lvlJc w:val="left"/>${indent(level)}</w:lvl>`
+    );
+    const decimals = levels(
+        (level) =>
+            `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/><w:lvlJc w:val="left"/>${indent(level)}</w:lvl>`
+    );
+    const ordered = orderedLists.map(
+        (start, i) =>
+            `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="2"/>${levels(
+                (level) => `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride>`
+            )}</w:num>`
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${bullets}</w:abstractNum><w:abstractNum w:abstractNumId="2"><w:multiLevelType w:val="hybridMultilevel"/>${decimals}</w:abstractNum><w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="1"/></w:num>${ordered.join("")}</w:numbering>`;
+}
+
+// ─── Markdown to WordprocessingML ───────────────────────────────────────────
+
+function blocks(tokens: Token[], context: DocxContext, style?: string): string {
+    return tokens.map((token) => block(token as MarkedToken, context, style)).join("");
+}
+
+function block(token: MarkedToken, context: DocxContext, style?: string): string {
+    switch (token.type) {
+        case "heading":
+            return heading(token, context);
+        case "paragraph":
+            return paragraph(runs(token.tokens, context), style);
+        case "text":
+            return paragraph(token.tokens ? runs(token.tokens, context) : run(token.text), style);
+        case "list":
+            return list(token, context, 0);
+        case "table":
+            return table(token, context);
+        case "code":
+            return codeBlock(token.text);
+        case "blockquote":
+            return blocks(token.tokens, context, "Quote");
+        case "html": {
+            const text = stripTags(token.text);
+            return text ? paragraph(run(text), style) : "";
+        }
+        case "hr":
+        case "space":
+        case "def":
+            return "";
+        default:
+            return token.raw.trim() ? paragraph(run(token.raw.trim()), style) : "";
+    }
+}
+
+/**
+ * `##` spec sections are Heading 1 and their subsections Heading 2, which the
+ * table of contents lists. Headings inside the conversation log start at
+ * Heading 3 so replies don't crowd it.
+ */
+function heading(token: Tokens.Heading, context: DocxContext): string {
+    const level = Math.min(Math.max(token.depth - 1, context.inLog ? 3 : 1), 6);
+    if (token.depth === 2 && !HEADING_NUMBER.test(token.text)) context.inLog = true;
+
+    const content = runs(token.tokens, context);
+    if (level > 2) return paragraph(content, `Heading${level}`);
+
+    const id = context.headings.length + 1;
+    const bookmark = `_Toc${id}`;
+    context.headings.push({ bookmark, text: plainText(token.tokens), level });
+    return paragraph(
+        `<w:bookmarkStart w:id="${id}" w:name="${bookmark}"/>${content}<w:bookmarkEnd w:id="${id}"/>`,
+        `Heading${level}`
+    );
+}
+
+function list(token: Tokens.List, context: DocxContext, level: number): string {
+    let numId = BULLET_NUM_ID;
+    if (token.ordered) {
+        context.orderedLists.push(typeof token.start === "number" ? token.start : 1);
+        numId = context.orderedLists.length + 1;
+    }
+    const numbering = `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`;
+    const indent = `<w:ind w:left="${360 * (level + 1) + 360}"/>`;
+
+    return token.items
+        .map((item) => {
+            let numbered = false;
+            return item.tokens
+                .map((child) => {
+                    const t = child as MarkedToken;
+                    if (t.type === "list") return list(t, context, level + 1);
+                    if (t.type === "checkbox") return "";
+                    if (t.type !== "text" && t.type !== "paragraph") return block(t, context);
+
+                    // The item's first line carries the bullet, later paragraphs just the indent
+                    const checkbox = !numbered && item.task ? run(item.checked ? "☒ " : "☐ ") : "";
+                    const content = checkbox + (t.tokens ? runs(t.tokens, context) : run(t.text));
+                    const props = numbered ? indent : numbering;
+                    numbered = true;
+                    return paragraph(content, "ListParagraph", props);
+                })
+                .join("");
+        })
+        .join("");
+}
+
+function table(token: Tokens.Table, context: DocxContext): string {
+    const columns = token.header.length;
+    const width = Math.floor(TEXT_WIDTH / Math.max(columns, 1));
+    const cell = (c: Tokens.TableCell, header: boolean) => {
+        const shading = header ? '<w:tcPr><w:shd w:val="clear" w:color="auto" w:fill="F4F4F5"/></w:tcPr>' : "";
+        const align = c.align ? `<w:jc w:val="${c.align}"/>` : "";
+        return `<w:tc>${shading}${paragraph(runs(c.tokens, context, { bold: header }), "TableText", align)}</w:tc>`;
+    };
+
+    return (
+        `<w:tbl><w:tblPr><w:tblStyle w:val="SpecTable"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>` +
+        `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>` +
+        `<w:tr><w:trPr><w:tblHeader/></w:trPr>${token.header.map((c) => cell(c, true)).join("")}</w:tr>` +
+        token.rows.map((row) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((c) => cell(c, false)).join("")}</w:tr>`).join("") +
+        // Word needs a paragraph between a table and whatever follows it
+        `</w:tbl>${paragraph("", "TableSpacer")}`
+    );
+}
+
+function codeBlock(code: string): string {
+    const lines = code.replace(/\t/g, "    ").split("\n");
+    return paragraph(lines.map((line, i) => (i > 0 ? "<w:r><w:br/></w:r>" : "") + run(line)).join(""), "Code");
+}
+
+function runs(tokens: Token[], context: DocxContext, style: RunStyle = {}): string {
+    return tokens
+        .map((child) => {
+            const token = child as MarkedToken;
+            switch (token.type) {
+                case "text":
+                    return token.tokens ? runs(token.tokens, context, style) : run(token.text.replace(/\n/g, " "), style);
+                case "escape":
+                    return run(token.text, style);
+                case "strong":
+                    return runs(token.tokens, context, { ...style, bold: true });
+                case "em":
+                    return runs(token.tokens, context, { ...style, italic: true });
+                case "del":
+                    return runs(token.tokens, context, { ...style, strike: true });
+                case "codespan":
+                    return run(token.text, { ...style, code: true });
+                case "br":
+                    return "<w:r><w:br/></w:r>";
+                case "link": {
+                    const label = runs(token.tokens, context, { ...style, link: true });
+                    if (!/^(https?|mailto):/i.test(token.href)) return label;
+                    context.links.push(token.href);
+                    return `<w:hyperlink r:id="rIdLink${context.links.length - 1}" w:history="1">${label}</w:hyperlink>`;
+                }
+                case "image":
+                    return run(token.text || token.href, { ...style, italic: true });
+                case "html":
+                    return run(stripTags(token.text), style);
+                case "checkbox":
+                    return run(token.checked ? "☒ " : "☐ ", style);
+                default:
+                    return run(token.raw, style);
+            }
+        })
+        .join("");
+}
+
+function run(text: string, style: RunStyle = {}): string {
+    if (!text) return "";
+    const props = [
+        style.code ? '<w:rStyle w:val="CodeChar"/>' : style.link ? '<w:rStyle w:val="Hyperlink"/>' : "",
+        style.bold ? "<w:b/>" : "",
+        style.italic ? "<w:i/>" : "",
+        style.strike ? "<w:strike/>" : "",
+    ].join("");
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(content: string, style?: string, props = ""): string {
+    const styleProp = style ? `<w:pStyle w:val="${style}"/>` : "";
+    const pPr = styleProp || props ? `<w:pPr>${styleProp}${props}</w:pPr>` : "";
+    return `<w:p>${pPr}${content}</w:p>`;
+}
+
+function pageBreak(): string {
+    return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+}
+
+function plainText(tokens: Token[]): string {
+    return tokens
+        .map((child) => {
+            const token = child as MarkedToken;
+            if (token.type === "html" || token.type === "checkbox") return "";
+            if ("tokens" in token && token.tokens) return plainText(token.tokens);
+            return "text" in token ? token.text : "";
+        })
+        .join("")
+        .trim();
+}
+
+function stripTags(html: string): string {
+    return html.replace(/<[^>]*>/g, "").trim();
+}
+
+/** Escapes markup and drops the control characters XML doesn't allow */
+function escapeXml(text: string): string {
+    return text
+        .replace(/[^\t\n\r\u0020-\uFFFD]/g, "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+// ─── Static parts ───────────────────────────────────────────────────────────
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/><Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+// Word asks to update fields on open, which fills in the contents' page numbers
+const SETTINGS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:updateFields w:val="true"/><w:defaultTabStop w:val="720"/></w:settings>`;
+
+// Page numbers on every page but the cover
+const FOOTER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:p><w:pPr><w:pStyle w:val="Footer"/></w:pPr><w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p></w:ftr>`;
+
+/** A paragraph style; `props` and `run` are pPr and rPr children */
+function paragraphStyle(id: string, name: string, props: string, run = "", extra = ""): string {
+    return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>${extra}<w:qFormat/><w:pPr>${props}</w:pPr><w:rPr>${run}</w:rPr></w:style>`;
+}
+
+const HEADING_SIZES = [32, 26, 24, 22, 22, 22];
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:color w:val="18181B"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>\
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>\
+${paragraphStyle("Title", "Title", '<w:spacing w:before="3600" w:after="240"/>', '<w:b/><w:sz w:val="56"/><w:szCs w:val="56"/>')}\
+${paragraphStyle("Subtitle", "Subtitle", '<w:spacing w:after="480"/>', '<w:color w:val="4F46E5"/><w:sz w:val="32"/><w:szCs w:val="32"/>')}\
+${paragraphStyle("CoverMeta", "Cover Meta", '<w:spacing w:after="60"/>', '<w:color w:val="71717A"/><w:sz w:val="20"/><w:szCs w:val="20"/>')}\
+${HEADING_SIZES.map((size, i) =>
+    paragraphStyle(
+        `Heading${i + 1}`,
+        `heading ${i + 1}`,
+        `<w:keepNext/><w:keepLines/>${i === 0 ? "<w:pageBreakBefore/>" : ""}<w:spacing w:before="${i === 0 ? 0 : 240}" w:after="120"/><w:outlineLvl w:val="${i}"/>`,
+        `<w:b/>${i === 0 ? '<w:color w:val="4F46E5"/>' : ""}<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`
+    )
+).join("")}\
+${paragraphStyle("TOCHeading", "TOC Heading", '<w:spacing w:after="240"/>', '<w:b/><w:sz w:val="32"/><w:szCs w:val="32"/>')}\
+${[1, 2]
+    .map((level) =>
+        paragraphStyle(
+            `TOC${level}`,
+            `toc ${level}`,
+            `<w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${TEXT_WIDTH}"/></w:tabs><w:spacing w:after="60"/><w:ind w:left="${(level - 1) * 440}"/>`,
+            level === 1 ? "<w:b/>" : "",
+            '<w:uiPriority w:val="39"/>'
+        )
+    )
+    .join("")}\
+${paragraphStyle("ListParagraph", "List Paragraph", '<w:spacing w:after="60"/><w:contextualSpacing/>')}\
+${paragraphStyle("Quote", "Quote", '<w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D4D4D8"/></w:pBdr><w:ind w:left="284"/>', '<w:color w:val="52525B"/>')}\
+${paragraphStyle("Code", "Code", '<w:shd w:val="clear" w:color="auto" w:fill="F4F4F5"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/>', '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/><w:szCs w:val="19"/>')}\
+${paragraphStyle("TableText", "Table Text", '<w:spacing w:after="0"/>', '<w:sz w:val="20"/><w:szCs w:val="20"/>')}\
+${paragraphStyle("TableSpacer", "Table Spacer", '<w:spacing w:after="120" w:line="120" w:lineRule="exact"/>')}\
+${paragraphStyle("Footer", "footer", '<w:jc w:val="center"/>', '<w:color w:val="71717A"/><w:sz w:val="18"/><w:szCs w:val="18"/>')}\
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/><w:szCs w:val="20"/><w:shd w:val="clear" w:color="auto" w:fill="F4F4F5"/></w:rPr></w:style>\
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="4F46E5"/><w:u w:val="single"/></w:rPr></w:style>\
+<w:style w:type="table" w:styleId="SpecTable"><w:name w:val="Spec Table"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="D4D4D8"/><w:left w:val="single" w:sz="4" w:space="0" w:color="D4D4D8"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="D4D4D8"/><w:right w:val="single" w:sz="4" w:space="0" w:color="D4D4D8"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="D4D4D8"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="D4D4D8"/></w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>\
+</w:styles>`;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { Conversation } from "@/types";
+import { compileHtml } from "./spec-html";
+
+function conversation(vision: string): Conversation {
+    return {
+        id: "c1",
+        projectId: "p1",
+        title: "Habit Tracker",
+        phase: "design",
+        messages: [],
+        sandboxCode: null,
+        specDocs: { vision: `# Vision & Scope\n\n## Problem\n\n${vision}` },
+        createdAt: 0,
+        updatedAt: 0,
+    };
+}
+
+const body = (html: string) => html.slice(html.indexOf("<main>"), html.indexOf("</main>"));
+
+describe("compileHtml", () => {
+    it("loads nothing from the network", () => {
+        const html = compileHtml(conversation("![Logo](https://example.com/logo.png)"));
+        expect(html).toContain("img-src data:\">");
+        expect(body(html)).not.toContain("<img");
+        expect(body(html)).toContain('<a href="https://example.com/logo.png">Logo</a>');
+    });
+
+    it("keeps images embedded in the page", () => {
+        const html = compileHtml(conversation("![Dot](data:image/png;base64,AAAA)"));
+        expect(body(html)).toContain('<img src="data:image/png;base64,AAAA" alt="Dot">');
+    });
+
+    it("shows HTML in replies as text", () => {
+        const html = body(compileHtml(conversation('Inline <b onclick="x()">bold</b>\n\n<script>alert(1)</script>')));
+        expect(html).not.toContain("<script>");
+        expect(html).not.toContain("<b ");
+        expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    });
+
+    it("drops script links and images, keeping their text", () => {
+        const html = body(compileHtml(conversation("[Run](javascript:alert(1)) ![Pic](javascript:alert(2)) [Docs](https://example.com)")));
+        expect(html).not.toContain("javascript:");
+        expect(html).toContain("Run");
+        expect(html).toContain("Pic");
+        expect(html).toContain('<a href="https://example.com">Docs</a>');
+    });
+});
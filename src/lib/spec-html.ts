@@ -0,0 +1,226 @@
+import { Marked, Token, Tokens } from "marked";
+import { Conversation } from "@/types";
+import { CompileOptions, compileSingleFile } from "./spec-compiler";
+
+/**
+ * Standalone HTML spec: the compiled single-file spec rendered as one
+ * self-contained page with a table of contents, numbered sections, heading
+ * anchors and embedded styles. "Print / Save as PDF" prints the same page.
+ */
+
+interface HeadingAnchor {
+    id: string;
+    /** "2.3" for subsections of a numbered section */
+    number?: string;
+    text: string;
+    depth: number;
+}
+
+/** The collapsible reasoning the compiler wraps around a logged reply's thinking */
+const REASONING_WRAPPER = /^\s*(<details>\s*<summary>Reasoning<\/summary>|<\/details>)\s*$/;
+
+/** Link schemes that run code or embed content instead of navigating */
+const UNSAFE_URL = /^\s*(javascript|vbscript|data):/i;
+
+/** Images embedded in the page itself; the only ones the CSP lets load */
+const INLINE_IMAGE = /^\s*data:image\//i;
+
+/**
+ * Compiles a conversation into a single HTML document. HTML in replies is
+ * escaped and shown as text, and its CSP blocks scripts, so a spec quoting
+ * markup can't restyle or run anything. Nothing loads from the network:
+ * remote images become links.
+ */
+export function compileHtml(conversation: Conversation, options: CompileOptions = {}): string {
+    const marked = new Marked({ gfm: true, breaks: true });
+    const tokens = marked.lexer(compileSingleFile(conversation, options));
+    const anchors = anchorHeadings(tokens);
+
+    marked.use({
+        renderer: {
+            heading(token) {
+                const content = this.parser.parseInline(token.tokens);
+                const anchor = anchors.get(token);
+                if (!anchor) return `<h${token.depth}>${content}</h${token.depth}>\n`;
+                const number = anchor.number ? `<span class="number">${anchor.number}</span> ` : "";
+                return `<h${token.depth} id="${anchor.id}">${number}${content} <a class="anchor" href="#${anchor.id}" aria-label="Link to this section">#</a></h${token.depth}>\n`;
+            },
+            html(token) {
+                if (REASONING_WRAPPER.test(token.text)) return token.text;
+                return token.block ? `<pre><code>${escapeHtml(token.text.trim())}</code></pre>\n` : escapeHtml(token.text);
+            },
+            link(token) {
+                // Falls back to the default rendering for safe URLs
+                return UNSAFE_URL.test(token.href) ? this.parser.parseInline(token.tokens) : false;
+            },
+            image(token) {
+                if (INLINE_IMAGE.test(token.href)) return false;
+                const label = escapeHtml(token.text || token.href);
+                return UNSAFE_URL.test(token.href) ? label : `<a href="${escapeHtml(token.href)}">${label}</a>`;
+            },
+        },
+    });
+
+    // The title block stays above the table of contents
+    const firstSection = tokens.findIndex((t) => isHeading(t) && t.depth === 2);
+    const split = firstSection === -1 ? tokens.length : firstSection;
+    const head = Object.assign(tokens.slice(0, split), { links: tokens.links });
+    const body = Object.assign(tokens.slice(split), { links: tokens.links });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src data:">
+<title>${escapeHtml(conversation.title)} — Implementation Spec</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${marked.parser(head)}
+${tableOfContents([...anchors.values()])}
+${marked.parser(body)}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Ids for the top-level `##` and `###` headings up to the conversation log;
+ * headings inside logged replies are left alone. Subsections of the numbered
+ * spec sections ("## 2. Design System") are numbered 2.1, 2.2, …
+ */
+function anchorHeadings(tokens: Token[]): Map<Tokens.Heading, HeadingAnchor> {
+    const anchors = new Map<Tokens.Heading, HeadingAnchor>();
+    const used = new Set<string>();
+    let section: string | undefined;
+    let subsection = 0;
+
+    for (const token of tokens) {
+        if (!isHeading(token) || token.depth < 2 || token.depth > 3) continue;
+        const text = plainText(token.text);
+        let number: string | undefined;
+        if (token.depth === 2) {
+            section = text.match(/^(\d+)\.\s/)?.[1];
+            subsection = 0;
+        } else if (section) {
+            number = `${section}.${++subsection}`;
+        }
+        anchors.set(token, { id: uniqueSlug(text, used), number, text, depth: token.depth });
+        if (token.depth === 2 && !section) break;
+    }
+    return anchors;
+}
+
+/** Sections and their numbered subsections; the conversation log's entries are left out */
+function tableOfContents(anchors: HeadingAnchor[]): string {
+    const entries: { anchor: HeadingAnchor; children: HeadingAnchor[] }[] = [];
+    for (const anchor of anchors) {
+        if (anchor.depth === 2) entries.push({ anchor, children: [] });
+        else if (anchor.number) entries.at(-1)?.children.push(anchor);
+    }
+
+    const link = (anchor: HeadingAnchor) =>
+        `<a href="#${anchor.id}">${anchor.number ? `${anchor.number} ` : ""}${escapeHtml(anchor.text)}</a>`;
+    const items = entries.map(({ anchor, children }) => {
+        const nested = children.length > 0 ? `<ol>${children.map((c) => `<li>${link(c)}</li>`).join("")}</ol>` : "";
+        return `<li>${link(anchor)}${nested}</li>`;
+    });
+    return `<nav class="toc">\n<p class="toc-title">Contents</p>\n<ol>\n${items.join("\n")}\n</ol>\n</nav>`;
+}
+
+function isHeading(token: Token): token is Tokens.Heading {
+    return token.type === "heading";
+}
+
+/** Heading text without inline markdown, e.g. "**Colors**" → "Colors" */
+function plainText(markdown: string): string {
+    return markdown
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/[*_`~]/g, "")
+        .trim();
+}
+
+function uniqueSlug(text: string, used: Set<string>): string {
+    const base =
+        text
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-|-$/g, "") || "section";
+    let slug = base;
+    for (let i = 2; used.has(slug); i++) slug = `${base}-${i}`;
+    used.add(slug);
+    return slug;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const STYLES = `
+:root {
+  --text: #18181b;
+  --muted: #52525b;
+  --border: #e4e4e7;
+  --surface: #f4f4f5;
+  --accent: #4f46e5;
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  color: var(--text);
+  background: #fff;
+  font: 15px/1.65 -apple-system, BlinkMacSystemFont, "Segoe UI", Inter, Helvetica, Arial, sans-serif;
+}
+main { max-width: 820px; margin: 0 auto; padding: 48px 32px 96px; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.3; margin: 1.8em 0 0.6em; scroll-margin-top: 16px; }
+h1 { font-size: 2rem; margin-top: 0; }
+h2 { font-size: 1.5rem; padding-bottom: 0.3em; border-bottom: 1px solid var(--border); }
+h3 { font-size: 1.2rem; }
+h4 { font-size: 1rem; }
+.number { color: var(--muted); font-variant-numeric: tabular-nums; margin-right: 0.25em; }
+.anchor { color: var(--border); text-decoration: none; font-weight: 400; opacity: 0; }
+h2:hover .anchor, h3:hover .anchor { opacity: 1; }
+.anchor:hover { color: var(--accent); }
+a { color: var(--accent); }
+p, ul, ol, table, pre, blockquote { margin: 0 0 1em; }
+hr { border: 0; border-top: 1px solid var(--border); margin: 2.5em 0; }
+blockquote { margin-left: 0; padding: 0.5em 1em; border-left: 3px solid var(--border); color: var(--muted); }
+blockquote p { margin: 0; }
+code { font: 0.88em/1.5 "JetBrains Mono", ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; background: var(--surface); padding: 0.15em 0.35em; border-radius: 4px; }
+pre { background: var(--surface); border: 1px solid var(--border); border-radius: 6px; padding: 12px 16px; overflow-x: auto; }
+pre code { background: none; padding: 0; }
+table { border-collapse: collapse; width: 100%; font-size: 0.92em; }
+th, td { border: 1px solid var(--border); padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: var(--surface); font-weight: 600; }
+details { margin: 0 0 1em; color: var(--muted); }
+.toc { margin: 2em 0 3em; padding: 16px 24px; border: 1px solid var(--border); border-radius: 8px; background: var(--surface); }
+.toc-title { margin: 0 0 0.5em; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; font-size: 0.8rem; color: var(--muted); }
+.toc ol { list-style: none; margin: 0; padding: 0; }
+.toc ol ol { padding-left: 1.5em; font-size: 0.94em; }
+.toc li { margin: 0.2em 0; }
+.toc a { text-decoration: none; }
+.toc a:hover { text-decoration: underline; }
+
+@page { size: A4; margin: 18mm 16mm; }
+@media print {
+  body { font-size: 11pt; }
+  main { max-width: none; padding: 0; }
+  h2[id] { break-before: page; }
+  h1, h2, h3, h4 { break-after: avoid; }
+  pre, table, blockquote, tr { break-inside: avoid; }
+  pre { white-space: pre-wrap; overflow-wrap: anywhere; }
+  .anchor { display: none; }
+  .toc { break-after: page; background: none; }
+  a { color: inherit; text-decoration: none; }
+  hr { display: none; }
+}
+`;
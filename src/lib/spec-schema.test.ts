@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { parseSpec, renderSpecMarkdown } from "./spec-schema";
+
+const VISION = {
+    projectName: "Streak",
+    tagline: "Habits that stick",
+    problem: "People drop habits after a week.",
+    targetUsers: ["Students", "Remote workers"],
+    mvpFeatures: [{ name: "Daily check-in", description: "One tap per habit" }],
+    cutFeatures: [{ name: "Social feed", reason: "Not core" }],
+    successMetrics: ["40% day-30 retention"],
+};
+
+describe("parseSpec", () => {
+    it("accepts a reply that matches the schema as-is", () => {
+        const parsed = parseSpec("vision", JSON.stringify(VISION));
+        expect(parsed).toEqual({ spec: VISION, repairs: [] });
+    });
+
+    it("tolerates code fences, surrounding text and trailing commas", () => {
+        const reply = `Here's the spec:\n\`\`\`json\n${JSON.stringify(VISION, null, 2).replace(/"\n(\s*)}/g, '",\n$1}')}\n\`\`\`\nLet me know!`;
+        expect(reply).toContain('",\n');
+        expect(parseSpec("vision", reply)?.spec).toEqual(VISION);
+    });
+
+    it("matches keys regardless of case, underscores and dashes", () => {
+        const { projectName, targetUsers, ...rest } = VISION;
+        const reply = JSON.stringify({ ...rest, "Project-Name": projectName, target_users: targetUsers });
+        expect(parseSpec("vision", reply)).toEqual({ spec: VISION, repairs: [] });
+    });
+
+    it("repairs misshapen fields and reports each repair", () => {
+        const parsed = parseSpec(
+            "vision",
+            JSON.stringify({
+                projectName: 42,
+                tagline: ["Habits", "that stick"],
+                targetUsers: "Students",
+                mvpFeatures: ["Daily check-in", { name: "", description: "" }],
+                cutFeatures: null,
+            })
+        );
+        expect(parsed?.spec).toEqual({
+            projectName: "42",
+            tagline: "Habits\nthat stick",
+            problem: "",
+            targetUsers: ["Students"],
+            mvpFeatures: [{ name: "Daily check-in", description: "" }],
+            cutFeatures: [],
+            successMetrics: [],
+        });
+        expect(parsed?.repairs).toEqual([
+            "tagline: joined a list into text",
+            "problem: missing",
+            "targetUsers: wrapped a single item in a list",
+            "mvpFeatures[0]: expanded text into an object",
+            "mvpFeatures[0].description: missing",
+            "cutFeatures: missing",
+            "successMetrics: missing",
+        ]);
+    });
+
+    it("returns null for replies without the schema's fields", () => {
+        expect(parseSpec("vision", "Sorry, I can't help with that.")).toBeNull();
+        expect(parseSpec("vision", "{ not json")).toBeNull();
+        expect(parseSpec("vision", JSON.stringify({ colors: [] }))).toBeNull();
+    });
+
+    it("repairs the implementation's task graph", () => {
+        const parsed = parseSpec(
+            "export",
+            JSON.stringify({
+                steps: [],
+                tasks: [
+                    { id: "T1", title: "Auth", dependsOn: ["T2"] },
+                    { id: "T2", title: "Scaffold", dependsOn: ["T1", "T7"] },
+                ],
+            })
+        );
+        expect(parsed?.spec.tasks.map((t) => t.id)).toEqual(["T2", "T1"]);
+        expect(parsed?.repairs).toContain("tasks: T2 → T1 closed a cycle; dropped");
+        expect(parsed?.repairs).toContain("tasks: T2 depended on unknown task T7; dropped");
+    });
+});
+
+describe("renderSpecMarkdown", () => {
+    it("renders the vision spec with empty sections left out", () => {
+        const markdown = renderSpecMarkdown("vision", { ...VISION, cutFeatures: [] });
+        expect(markdown).toContain("# Streak\n\nHabits that stick");
+        expect(markdown).toContain("## MVP features\n1. **Daily check-in** — One tap per habit");
+        expect(markdown).not.toContain("## Cut from MVP");
+    });
+
+    it("renders the task graph into the implementation plan", () => {
+        const parsed = parseSpec(
+            "export",
+            JSON.stringify({
+                tasks: [
+                    { id: "T1", title: "Scaffold", acceptanceCriteria: ["App boots"], files: ["app/page.tsx"] },
+                    { id: "T2", title: "Auth", dependsOn: ["T1"], estimate: "2h" },
+                ],
+            })
+        )!;
+        const markdown = renderSpecMarkdown("export", parsed.spec);
+        expect(markdown).toContain(
+            "## Tasks\n### T1 — Scaffold\n\n- Depends on: nothing\n- Files: `app/page.tsx`\n- Acceptance criteria:\n  - [ ] App boots"
+        );
+        expect(markdown).toContain("### T2 — Auth\n\n- Depends on: T1\n- Estimate: 2h");
+    });
+});
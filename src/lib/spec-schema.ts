@@ -0,0 +1,375 @@
+import {
+    ConversationPhase,
+    DesignSpec,
+    ImplementationSpec,
+    ImplementationTask,
+    PhaseSpecs,
+    ResponseFormat,
+    StackSpec,
+    VisionSpec,
+} from "@/types";
+import { validateTaskGraph } from "./task-graph";
+
+/**
+ * Structured spec documents. Each phase's spec is requested as JSON matching
+ * its schema (in the provider's JSON mode where there is one), checked and
+ * repaired against the same schema, and rendered to the markdown kept in
+ * `specDocs`. The parsed data is stored alongside for exports.
+ */
+
+type JsonSchema = {
+    type: "object" | "array" | "string";
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+};
+
+const text = (description: string): JsonSchema => ({ type: "string", description });
+
+const texts = (description: string): JsonSchema => ({ type: "array", description, items: { type: "string" } });
+
+const object = (properties: Record<string, JsonSchema>): JsonSchema => ({
+    type: "object",
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+});
+
+const list = (description: string, properties: Record<string, JsonSchema>): JsonSchema => ({
+    type: "array",
+    description,
+    items: object(properties),
+});
+
+const SPEC_SCHEMAS: Record<ConversationPhase, JsonSchema> = {
+    vision: object({
+        projectName: text("Product name"),
+        tagline: text("One-line description"),
+        problem: text("The problem statement"),
+        targetUsers: texts("Who it's for, one group per item"),
+        mvpFeatures: list("Core MVP features in priority order", {
+            name: text("Feature name"),
+            description: text("What it does for the user"),
+        }),
+        cutFeatures: list("Features explicitly cut from the MVP", {
+            name: text("Feature name"),
+            reason: text("Why it waits"),
+        }),
+        successMetrics: texts("Measurable goals"),
+    }),
+    design: object({
+        name: text("Design system name, e.g. \"Midnight Minimal\""),
+        vibe: text("The look and feel in one or two sentences"),
+        typography: list("Headings, body and code fonts", {
+            role: text("e.g. Headings"),
+            family: text("e.g. Inter Tight"),
+            weight: text("e.g. 600"),
+            size: text("e.g. 32 / 24 / 20px"),
+        }),
+        colors: list(
+            "Base, surface, border, text primary/secondary/dim, accent primary/secondary, success, warning, error",
+            {
+                token: text("e.g. accent-primary"),
+                hex: text("Exact hex value, e.g. #7C5CFF"),
+                usage: text("Where it's used"),
+            }
+        ),
+        spacing: texts("Spacing scale steps, e.g. 4px"),
+        radius: list("Border radius tokens", { token: text("e.g. md"), value: text("e.g. 12px") }),
+        components: list("Component anatomy rules (buttons, cards, inputs...)", {
+            name: text("Component"),
+            rules: text("How it looks and behaves"),
+        }),
+        motion: texts("Animation and transition guidelines"),
+    }),
+    stack: object({
+        choices: list("Frontend, backend, database, auth and hosting", {
+            layer: text("e.g. Database"),
+            technology: text("e.g. Postgres on Neon with Drizzle ORM"),
+            rationale: text("Why it fits this app"),
+        }),
+        integrations: texts("Key third-party services"),
+        tooling: texts("Linting, testing and CI/CD"),
+        folderStructure: text("Tree of the main folders, one per line"),
+    }),
+    export: object({
+        steps: list("Implementation steps in order", {
+            title: text("Step name"),
+            description: text("Key logic and components"),
+            files: texts("File paths created or changed"),
+        }),
+        tasks: list("The steps broken into small tasks, each doable in one coding-agent session", {
+            id: text("Short unique ID, e.g. T1"),
+            title: text("Task name"),
+            description: text("What to build and how"),
+            files: texts("File paths created or changed"),
+            acceptanceCriteria: texts("Checks that prove the task is done"),
+            estimate: text("Effort estimate, e.g. 2h or 1d"),
+            dependsOn: texts("IDs of the tasks that must be finished first"),
+        }),
+        dataModels: list("Data models", { name: text("Model name"), fields: texts("field: type") }),
+        apiRoutes: list("API routes", {
+            method: text("HTTP method"),
+            path: text("Route path"),
+            description: text("What it does"),
+        }),
+        stateManagement: text("State management approach"),
+        testing: texts("Testing strategy"),
+        deployment: texts("Deployment checklist items"),
+    }),
+};
+
+/** Asks for the phase's spec as JSON, for providers with a JSON mode */
+export function specResponseFormat(phase: ConversationPhase): ResponseFormat {
+    return { name: `${phase}_spec`, schema: SPEC_SCHEMAS[phase] };
+}
+
+/** The schema as it's quoted in the spec prompt, for models without a JSON mode */
+export function specSchemaText(phase: ConversationPhase): string {
+    return JSON.stringify(SPEC_SCHEMAS[phase], null, 2);
+}
+
+// ─── Validation & repair ────────────────────────────────────────────────────
+
+export interface ParsedSpec<P extends ConversationPhase> {
+    spec: PhaseSpecs[P];
+    /** What had to be repaired, e.g. "mvpFeatures: missing" */
+    repairs: string[];
+}
+
+/**
+ * Parses a spec reply and conforms it to the phase's schema: code fences and
+ * trailing commas are tolerated, keys are matched loosely ("target_users"),
+ * single items are wrapped in lists and missing fields are filled in empty.
+ * The implementation's task graph is repaired and put in dependency order.
+ * Null if the reply isn't a JSON object with any of the schema's fields.
+ */
+export function parseSpec<P extends ConversationPhase>(phase: P, reply: string): ParsedSpec<P> | null {
+    const json = extractJson(reply);
+    const schema = SPEC_SCHEMAS[phase];
+    if (!isRecord(json) || !Object.keys(schema.properties!).some((key) => findKey(json, key) !== undefined)) {
+        return null;
+    }
+    const repairs: string[] = [];
+    const spec = conform(schema, json, "", repairs) as PhaseSpecs[P];
+    if (phase === "export") {
+        const implementation = spec as ImplementationSpec;
+        const graph = validateTaskGraph(implementation.tasks);
+        implementation.tasks = graph.tasks;
+        repairs.push(...graph.issues.map((issue) => `tasks: ${issue}`));
+    }
+    return { spec, repairs };
+}
+
+function extractJson(reply: string): unknown {
+    const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const body = fenced ? fenced[1] : reply;
+    const start = body.indexOf("{");
+    const end = body.lastIndexOf("}");
+    if (start === -1 || end < start) return undefined;
+
+    const candidate = body.slice(start, end + 1);
+    for (const attempt of [candidate, candidate.replace(/,\s*([}\]])/g, "$1")]) {
+        try {
+            return JSON.parse(attempt);
+        } catch {
+            // Try the next repair
+        }
+    }
+    return undefined;
+}
+
+function conform(schema: JsonSchema, value: unknown, path: string, repairs: string[]): unknown {
+    const missing = value === undefined || value === null;
+
+    switch (schema.type) {
+        case "string":
+            if (typeof value === "string") return value.trim();
+            if (typeof value === "number" || typeof value === "boolean") return String(value);
+            if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+                repairs.push(`${path}: joined a list into text`);
+                return value.join("\n");
+            }
+            repairs.push(`${path}: ${missing ? "missing" : "expected text"}`);
+            return "";
+
+        case "array": {
+            if (missing) {
+                repairs.push(`${path}: missing`);
+                return [];
+            }
+            if (!Array.isArray(value)) repairs.push(`${path}: wrapped a single item in a list`);
+            const items = Array.isArray(value) ? value : [value];
+            return items
+                .map((item, i) => conform(schema.items!, item, `${path}[${i}]`, repairs))
+                .filter((item) => !isBlank(item));
+        }
+
+        case "object": {
+            const properties = Object.entries(schema.properties!);
+            let source: Record<string, unknown> = {};
+            if (isRecord(value)) {
+                source = value;
+            } else if (typeof value === "string" && properties.length > 0) {
+                // A bare string where an object was expected fills its first field
+                repairs.push(`${path}: expanded text into an object`);
+                source = { [properties[0][0]]: value };
+            } else {
+                repairs.push(`${path || "spec"}: ${missing ? "missing" : "expected an object"}`);
+            }
+            return Object.fromEntries(
+                properties.map(([key, property]) => [
+                    key,
+                    conform(property, findKey(source, key), path ? `${path}.${key}` : key, repairs),
+                ])
+            );
+        }
+    }
+}
+
+/** Matches keys regardless of case, underscores and dashes */
+function findKey(source: Record<string, unknown>, key: string): unknown {
+    if (key in source) return source[key];
+    const wanted = normalizeKey(key);
+    return Object.entries(source).find(([k]) => normalizeKey(k) === wanted)?.[1];
+}
+
+function normalizeKey(key: string) {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isBlank(value: unknown): boolean {
+    if (typeof value === "string") return !value;
+    if (Array.isArray(value)) return value.length === 0;
+    return isRecord(value) && Object.values(value).every(isBlank);
+}
+
+// ─── Markdown rendering ─────────────────────────────────────────────────────
+
+const RENDERERS: { [P in ConversationPhase]: (spec: PhaseSpecs[P]) => string } = {
+    vision: renderVision,
+    design: renderDesign,
+    stack: renderStack,
+    export: renderImplementation,
+};
+
+/** The spec doc for a structured spec */
+export function renderSpecMarkdown<P extends ConversationPhase>(phase: P, spec: PhaseSpecs[P]): string {
+    return RENDERERS[phase](spec);
+}
+
+function renderVision(spec: VisionSpec): string {
+    return document(
+        `# ${spec.projectName || "Vision & Scope"}`,
+        spec.tagline,
+        section("Problem", spec.problem),
+        section("Target users", bullets(spec.targetUsers)),
+        section("MVP features", numbered(spec.mvpFeatures.map((f) => labelled(f.name, f.description)))),
+        section("Cut from MVP", bullets(spec.cutFeatures.map((f) => labelled(f.name, f.reason)))),
+        section("Success metrics", bullets(spec.successMetrics))
+    );
+}
+
+function renderDesign(spec: DesignSpec): string {
+    return document(
+        spec.name ? `# Design System — ${spec.name}` : "# Design System",
+        spec.vibe,
+        section(
+            "Typography",
+            table(["Role", "Family", "Weight", "Size"], spec.typography.map((t) => [t.role, t.family, t.weight, t.size]))
+        ),
+        section("Color tokens", table(["Token", "Hex", "Usage"], spec.colors.map((c) => [c.token, c.hex, c.usage]))),
+        section("Spacing", spec.spacing.join(", ")),
+        section("Radius", table(["Token", "Value"], spec.radius.map((r) => [r.token, r.value]))),
+        section("Components", bullets(spec.components.map((c) => labelled(c.name, c.rules)))),
+        section("Motion", bullets(spec.motion))
+    );
+}
+
+function renderStack(spec: StackSpec): string {
+    return document(
+        "# Architecture & Tech Stack",
+        bullets(spec.choices.map((c) => `**${c.layer}:** ${c.technology}${c.rationale ? ` — ${c.rationale}` : ""}`)),
+        section("Integrations", bullets(spec.integrations)),
+        section("Dev tooling", bullets(spec.tooling)),
+        section("Folder structure", spec.folderStructure && "```\n" + spec.folderStructure + "\n```")
+    );
+}
+
+function renderImplementation(spec: ImplementationSpec): string {
+    const steps = spec.steps.map((step, i) => {
+        const files = step.files.length > 0 ? `\n   - Files: ${step.files.map((f) => `\`${f}\``).join(", ")}` : "";
+        return `${i + 1}. ${labelled(step.title, step.description)}${files}`;
+    });
+    return document(
+        "# Implementation Plan",
+        section("Steps", steps.join("\n")),
+        section("Tasks", spec.tasks.map(renderTask).join("\n\n")),
+        section(
+            "Data models",
+            spec.dataModels.map((m) => `### ${m.name}\n${bullets(m.fields)}`).join("\n\n")
+        ),
+        section(
+            "API routes",
+            table(["Method", "Path", "Description"], spec.apiRoutes.map((r) => [r.method, `\`${r.path}\``, r.description]))
+        ),
+        section("State management", spec.stateManagement),
+        section("Testing", bullets(spec.testing)),
+        section("Deployment checklist", spec.deployment.map((item) => `- [ ] ${item}`).join("\n"))
+    );
+}
+
+/** A task of the graph, with the IDs it waits on; `tasks.json` carries the same data */
+function renderTask(task: ImplementationTask): string {
+    const criteria = task.acceptanceCriteria.map((c) => `  - [ ] ${c}`).join("\n");
+    return document(
+        `### ${task.id} — ${task.title}`,
+        task.description,
+        [
+            `- Depends on: ${task.dependsOn.length > 0 ? task.dependsOn.join(", ") : "nothing"}`,
+            task.files.length > 0 ? `- Files: ${task.files.map((f) => `\`${f}\``).join(", ")}` : "",
+            task.estimate ? `- Estimate: ${task.estimate}` : "",
+            criteria ? `- Acceptance criteria:\n${criteria}` : "",
+        ]
+            .filter(Boolean)
+            .join("\n")
+    );
+}
+
+/** Non-empty blocks separated by blank lines */
+function document(...blocks: string[]): string {
+    return blocks.filter((b) => b.trim()).join("\n\n");
+}
+
+function section(title: string, body: string): string {
+    return body.trim() ? `## ${title}\n${body}` : "";
+}
+
+function bullets(items: string[]): string {
+    return items.map((item) => `- ${item}`).join("\n");
+}
+
+function numbered(items: string[]): string {
+    return items.map((item, i) => `${i + 1}. ${item}`).join("\n");
+}
+
+/** `**name** — detail`, or just the name */
+function labelled(name: string, detail: string): string {
+    return detail ? `**${name}** — ${detail}` : `**${name}**`;
+}
+
+function table(headers: string[], rows: string[][]): string {
+    if (rows.length === 0) return "";
+    const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+    return [
+        `| ${headers.join(" | ")} |`,
+        `| ${headers.map(() => "---").join(" | ")} |`,
+        ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+    ].join("\n");
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { Message } from "@/types";
+import { continuationMessages } from "./llm-client";
+import { PHASE_SPEC_PROMPTS, specRequestMessages } from "./system-prompt";
+
+const message = (role: Message["role"], content: string): Message => ({ id: content, role, content, timestamp: 0 });
+
+describe("specRequestMessages", () => {
+    const history = [message("user", "A habit tracker for students"), message("assistant", "Here's the MVP I'd ship.")];
+
+    it("asks for the spec after the conversation so far", () => {
+        const request = specRequestMessages(history, "vision");
+        expect(request.slice(0, -1)).toEqual(history);
+        expect(request[request.length - 1]).toMatchObject({ role: "user", content: PHASE_SPEC_PROMPTS.vision });
+    });
+
+    it("keeps the schema and JSON-only rule when a cut-off spec is continued", () => {
+        const partial = '{"projectName": "Streak", "tagline": "Habits th';
+        const request = continuationMessages(specRequestMessages(history, "vision"), partial);
+
+        const [prompt, cutOff, instruction] = request.slice(-3);
+        expect(prompt.content).toBe(PHASE_SPEC_PROMPTS.vision);
+        expect(prompt.content).toContain("Output ONLY the JSON object");
+        expect(prompt.content).toContain('"targetUsers"');
+        expect(cutOff).toMatchObject({ role: "assistant", content: partial });
+        expect(instruction.content).toMatch(/cut off/);
+    });
+});
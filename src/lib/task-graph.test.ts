@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { Conversation, ImplementationTask } from "@/types";
+import { compileTaskFiles, getTasks, isTaskGraphStale, validateTaskGraph } from "./task-graph";
+
+function task(id: string, dependsOn: string[] = [], title = `Task ${id}`): ImplementationTask {
+    return { id, title, description: "", files: [], acceptanceCriteria: [], estimate: "", dependsOn };
+}
+
+const order = (tasks: ImplementationTask[]) => tasks.map((t) => t.id);
+
+function conversation(tasks: ImplementationTask[], overrides: Partial<Conversation> = {}): Conversation {
+    return {
+        id: "c1",
+        projectId: "p1",
+        title: "Habit Tracker",
+        phase: "export",
+        messages: [],
+        sandboxCode: null,
+        specDocs: { export: "# Implementation Plan" },
+        specData: {
+            export: {
+                steps: [],
+                dataModels: [],
+                apiRoutes: [],
+                stateManagement: "",
+                testing: [],
+                deployment: [],
+                tasks,
+            },
+        },
+        createdAt: 0,
+        updatedAt: 0,
+        ...overrides,
+    };
+}
+
+describe("validateTaskGraph", () => {
+    it("leaves a valid graph alone", () => {
+        const { tasks, issues } = validateTaskGraph([task("T1"), task("T2", ["T1"]), task("T3", ["T1", "T2"])]);
+        expect(order(tasks)).toEqual(["T1", "T2", "T3"]);
+        expect(issues).toEqual([]);
+    });
+
+    it("moves tasks after their dependencies, otherwise keeping the listed order", () => {
+        const { tasks } = validateTaskGraph([task("T1", ["T3"]), task("T2"), task("T3"), task("T4")]);
+        expect(order(tasks)).toEqual(["T2", "T3", "T1", "T4"]);
+    });
+
+    it("renames duplicate IDs and keeps edges pointing at the first", () => {
+        const { tasks, issues } = validateTaskGraph([task("T1"), task("T1"), task("T1"), task("T2", ["T1"])]);
+        expect(order(tasks)).toEqual(["T1", "T1-2", "T1-3", "T2"]);
+        expect(tasks[3].dependsOn).toEqual(["T1"]);
+        expect(issues).toEqual(["duplicate ID T1 renamed T1-2", "duplicate ID T1 renamed T1-3"]);
+    });
+
+    it("numbers tasks without an ID by position", () => {
+        const { tasks } = validateTaskGraph([task("  "), task("", ["T1"])]);
+        expect(order(tasks)).toEqual(["T1", "T2"]);
+        expect(tasks[1].dependsOn).toEqual(["T1"]);
+    });
+
+    it("drops unknown and self dependencies and merges repeats", () => {
+        const { tasks, issues } = validateTaskGraph([task("T1"), task("T2", ["T9", "T2", "t1", " T1 "])]);
+        expect(tasks[1].dependsOn).toEqual(["T1"]);
+        expect(issues).toEqual(["T2 depended on unknown task T9; dropped", "T2 depended on itself; dropped"]);
+    });
+
+    it("breaks a cycle at the edge that closes it", () => {
+        const { tasks, issues } = validateTaskGraph([task("T1", ["T3"]), task("T2", ["T1"]), task("T3", ["T2"])]);
+        // Walked from T1: T1 → T3 → T2, and T2 → T1 closes the loop
+        expect(issues).toEqual(["T2 → T1 closed a cycle; dropped"]);
+        expect(order(tasks)).toEqual(["T2", "T3", "T1"]);
+        expect(tasks.map((t) => t.dependsOn)).toEqual([[], ["T2"], ["T3"]]);
+    });
+
+    it("breaks every cycle in a graph with several", () => {
+        const { tasks, issues } = validateTaskGraph([
+            task("A", ["B"]),
+            task("B", ["A"]),
+            task("C", ["D"]),
+            task("D", ["C", "A"]),
+        ]);
+        expect(issues).toHaveLength(2);
+        const placed = new Set<string>();
+        for (const t of tasks) {
+            expect(t.dependsOn.every((dep) => placed.has(dep))).toBe(true);
+            placed.add(t.id);
+        }
+        expect(placed.size).toBe(4);
+    });
+
+    it("doesn't modify the tasks it was given", () => {
+        const input = [task("T1", ["T2"]), task("T2", ["T1"])];
+        validateTaskGraph(input);
+        expect(input.map((t) => t.dependsOn)).toEqual([["T2"], ["T1"]]);
+    });
+});
+
+describe("compileTaskFiles", () => {
+    it("writes nothing without a task graph", () => {
+        expect(compileTaskFiles(conversation([]))).toEqual({});
+        expect(getTasks(conversation([], { specData: undefined }))).toEqual([]);
+    });
+
+    it("writes tasks.json and a prompt per task", () => {
+        const files = compileTaskFiles(
+            conversation([task("T1", [], "Set up the project"), task("T2/b", ["T1"], "Auth: sign-in & sessions!")])
+        );
+        expect(Object.keys(files)).toEqual(["tasks.json", "tasks/T1-set-up-the-project.md", "tasks/T2-b-auth-sign-in-sessions.md"]);
+
+        const graph = JSON.parse(files["tasks.json"]);
+        expect(graph.project).toBe("Habit Tracker");
+        expect(graph.tasks[1]).toMatchObject({ id: "T2/b", dependsOn: ["T1"], prompt: "tasks/T2-b-auth-sign-in-sessions.md" });
+
+        const prompt = files["tasks/T2-b-auth-sign-in-sessions.md"];
+        expect(prompt).toContain("# T2/b — Auth: sign-in & sessions!");
+        expect(prompt).toContain("- T1: Set up the project");
+        expect(prompt).toContain("@04-implementation.md");
+    });
+});
+
+describe("isTaskGraphStale", () => {
+    it("is set once the implementation doc was edited after the tasks were generated", () => {
+        expect(isTaskGraphStale(conversation([task("T1")]))).toBe(false);
+        expect(isTaskGraphStale(conversation([task("T1")], { specDataStale: { export: true } }))).toBe(true);
+        expect(isTaskGraphStale(conversation([], { specDataStale: { export: true } }))).toBe(false);
+    });
+});
@@ -0,0 +1,172 @@
+import { Conversation, ImplementationTask } from "@/types";
+
+/**
+ * The implementation task graph: tasks with dependency edges, checked and
+ * repaired when the spec is parsed, and exported as `tasks.json` with a
+ * prompt file per task for handing to a coding agent one at a time.
+ */
+
+export interface TaskGraphCheck {
+    /** Repaired tasks in dependency order */
+    tasks: ImplementationTask[];
+    /** What was repaired, e.g. "T4 → T2 closed a cycle; dropped" */
+    issues: string[];
+}
+
+/**
+ * Gives every task a unique ID, drops dependencies on itself or on unknown
+ * tasks, breaks cycles by dropping the edge that closes each one, and orders
+ * the tasks so each comes after its dependencies (otherwise keeping the
+ * listed order).
+ */
+export function validateTaskGraph(tasks: ImplementationTask[]): TaskGraphCheck {
+    const issues: string[] = [];
+
+    const ids = new Set<string>();
+    const named = tasks.map((task, i) => {
+        let id = task.id.trim() || `T${i + 1}`;
+        if (ids.has(id)) {
+            let n = 2;
+            while (ids.has(`${id}-${n}`)) n++;
+            issues.push(`duplicate ID ${id} renamed ${id}-${n}`);
+            id = `${id}-${n}`;
+        }
+        ids.add(id);
+        return { ...task, id };
+    });
+
+    const byId = new Map(named.map((task) => [task.id.toLowerCase(), task.id]));
+    const linked = named.map((task) => {
+        const dependsOn: string[] = [];
+        for (const dep of task.dependsOn) {
+            const id = byId.get(dep.trim().toLowerCase());
+            if (!id) issues.push(`${task.id} depended on unknown task ${dep}; dropped`);
+            else if (id === task.id) issues.push(`${task.id} depended on itself; dropped`);
+            else if (!dependsOn.includes(id)) dependsOn.push(id);
+        }
+        return { ...task, dependsOn };
+    });
+
+    breakCycles(linked, issues);
+    return { tasks: dependencyOrder(linked), issues };
+}
+
+/** Depth-first in listed order; an edge back into the current path closes a cycle and is dropped */
+function breakCycles(tasks: ImplementationTask[], issues: string[]) {
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+    const state = new Map<string, "visiting" | "done">();
+
+    const visit = (task: ImplementationTask) => {
+        state.set(task.id, "visiting");
+        task.dependsOn = task.dependsOn.filter((dep) => {
+            if (state.get(dep) === "visiting") {
+                issues.push(`${task.id} → ${dep} closed a cycle; dropped`);
+                return false;
+            }
+            if (!state.has(dep)) visit(byId.get(dep)!);
+            return true;
+        });
+        state.set(task.id, "done");
+    };
+    for (const task of tasks) {
+        if (!state.has(task.id)) visit(task);
+    }
+}
+
+/** Repeatedly takes the first listed task whose dependencies are all placed. Expects no cycles. */
+function dependencyOrder(tasks: ImplementationTask[]): ImplementationTask[] {
+    const placed = new Set<string>();
+    const ordered: ImplementationTask[] = [];
+    const remaining = [...tasks];
+    while (remaining.length > 0) {
+        const next = remaining.findIndex((task) => task.dependsOn.every((dep) => placed.has(dep)));
+        const [task] = remaining.splice(next === -1 ? 0 : next, 1);
+        placed.add(task.id);
+        ordered.push(task);
+    }
+    return ordered;
+}
+
+// ─── Export ─────────────────────────────────────────────────────────────────
+
+/** The locked implementation spec's tasks; empty before it's locked */
+export function getTasks(conversation: Conversation): ImplementationTask[] {
+    return conversation.specData?.export?.tasks ?? [];
+}
+
+/** The implementation doc was edited after the tasks were generated, so they may be out of date */
+export function isTaskGraphStale(conversation: Conversation): boolean {
+    return getTasks(conversation).length > 0 && !!conversation.specDataStale?.export;
+}
+
+/**
+ * `tasks.json` and a prompt per task under `tasks/`, or nothing if the
+ * implementation spec has no task graph.
+ */
+export function compileTaskFiles(conversation: Conversation): Record<string, string> {
+    const tasks = getTasks(conversation);
+    if (tasks.length === 0) return {};
+
+    const promptPath = (task: ImplementationTask) =>
+        `tasks/${task.id.replace(/[^\w-]+/g, "-")}-${slug(task.title)}.md`;
+    const graph = {
+        project: conversation.title,
+        generated: new Date().toISOString().split("T")[0],
+        tasks: tasks.map((task) => ({ ...task, prompt: promptPath(task) })),
+    };
+
+    return {
+        "tasks.json": JSON.stringify(graph, null, 2) + "\n",
+        ...Object.fromEntries(tasks.map((task) => [promptPath(task), taskPrompt(conversation.title, task, tasks)])),
+    };
+}
+
+function taskPrompt(project: string, task: ImplementationTask, tasks: ImplementationTask[]): string {
+    const titles = new Map(tasks.map((t) => [t.id, t.title]));
+    const list = (items: string[], empty: string) => (items.length > 0 ? items.join("\n") : empty);
+
+    return `# ${task.id} — ${task.title}
+
+You're implementing one task from the **${project}** implementation plan. Do only this task, then stop.
+
+## Task
+
+${task.description || task.title}
+
+## Done before this
+
+${list(
+    task.dependsOn.map((id) => `- ${id}: ${titles.get(id) ?? ""}`),
+    "Nothing — this task can start on a fresh checkout."
+)}
+
+## Files
+
+${list(
+    task.files.map((file) => `- \`${file}\``),
+    "Not specified — follow the project structure in `@03-stack.md`."
+)}
+
+## Acceptance criteria
+
+${list(
+    task.acceptanceCriteria.map((criterion) => `- [ ] ${criterion}`),
+    "- [ ] The behaviour described above works and the existing checks pass"
+)}
+
+## Context
+
+The full specs are in \`@01-vision.md\` … \`@04-implementation.md\`. Follow \`@02-design.md\` for UI and \`@03-stack.md\` for libraries and structure.${task.estimate ? ` Estimated effort: ${task.estimate}.` : ""}
+`;
+}
+
+function slug(text: string): string {
+    return (
+        text
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-|-$/g, "")
+            .slice(0, 40)
+            .replace(/-$/, "") || "task"
+    );
+}
@@ -0,0 +1,82 @@
+import { Conversation, ModelPricing, TokenUsage } from "@/types";
+
+/**
+ * Token usage and cost helpers. Providers report usage in different shapes;
+ * adapters normalize it so that `inputTokens` includes cached tokens and
+ * `outputTokens` includes reasoning tokens.
+ */
+
+export function computeCost(usage: TokenUsage, pricing?: ModelPricing): number | undefined {
+    if (!pricing) return undefined;
+    const cached = usage.cachedInputTokens ?? 0;
+    const written = usage.cacheWriteTokens ?? 0;
+    const uncached = Math.max(0, usage.inputTokens - cached - written);
+    const cachedRate = pricing.cachedInput ?? pricing.input;
+    const writeRate = pricing.cacheWrite ?? pricing.input;
+    return (
+        (uncached * pricing.input +
+            cached * cachedRate +
+            written * writeRate +
+            usage.outputTokens * pricing.output) /
+        1_000_000
+    );
+}
+
+export function sumUsage(list: (TokenUsage | undefined)[]): TokenUsage | undefined {
+    let total: TokenUsage | undefined;
+    for (const u of list) {
+        if (!u) continue;
+        if (!total) total = { inputTokens: 0, outputTokens: 0 };
+        total.inputTokens += u.inputTokens;
+        total.outputTokens += u.outputTokens;
+        if (u.cachedInputTokens) {
+            total.cachedInputTokens = (total.cachedInputTokens ?? 0) + u.cachedInputTokens;
+        }
+        if (u.cacheWriteTokens) {
+            total.cacheWriteTokens = (total.cacheWriteTokens ?? 0) + u.cacheWriteTokens;
+        }
+        if (u.reasoningTokens) {
+            total.reasoningTokens = (total.reasoningTokens ?? 0) + u.reasoningTokens;
+        }
+        if (u.costUsd !== undefined) {
+            total.costUsd = (total.costUsd ?? 0) + u.costUsd;
+        }
+    }
+    return total;
+}
+
+export function getConversationUsage(conversation: Conversation): TokenUsage | undefined {
+    return sumUsage([
+        ...conversation.messages.flatMap((m) => [m.usage, ...(m.candidates ?? []).map((c) => c.usage)]),
+        conversation.auxUsage,
+    ]);
+}
+
+export function getProjectUsage(conversations: Conversation[]): TokenUsage | undefined {
+    return sumUsage(conversations.map(getConversationUsage));
+}
+
+export function formatTokens(n: number): string {
+    if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+    if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+    return String(n);
+}
+
+export function formatCost(usd: number): string {
+    if (usd === 0) return "$0";
+    if (usd < 0.01) return `$${usd.toFixed(4)}`;
+    return `$${usd.toFixed(2)}`;
+}
+
+/** e.g. "12.3k in · 845 out · $0.0412" */
+export function formatUsage(usage: TokenUsage): string {
+    const parts = [
+        `${formatTokens(usage.inputTokens)} in`,
+        `${formatTokens(usage.outputTokens)} out`,
+    ];
+    if (usage.cachedInputTokens) parts.push(`${formatTokens(usage.cachedInputTokens)} cached`);
+    if (usage.cacheWriteTokens) parts.push(`${formatTokens(usage.cacheWriteTokens)} cache write`);
+    if (usage.reasoningTokens) parts.push(`${formatTokens(usage.reasoningTokens)} reasoning`);
+    if (usage.costUsd !== undefined) parts.push(formatCost(usage.costUsd));
+    return parts.join(" · ");
+}
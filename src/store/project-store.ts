@@ -3,10 +3,19 @@ import { get as idbGet, set as idbSet } from "idb-keyval";
 import { v4 as uuid } from "uuid";
 import {
     Project,
+    ProjectDocument,
     Conversation,
+    LLMModel,
     Message,
+    MessageCandidate,
+    Attachment,
     ConversationPhase,
+    ConversationSummary,
+    PhaseSpecs,
+    TokenUsage,
 } from "@/types";
+import { sumUsage } from "@/lib/usage";
+import { collectAttachments, deleteAttachments } from "@/lib/attachments";
 
 const DB_PROJECTS_KEY = "vibe-architect-projects";
 const DB_CONVERSATIONS_KEY = "vibe-architect-conversations";
@@ -32,6 +41,13 @@ interface ProjectState {
     createProject: (name: string, description?: string) => Promise<Project>;
     deleteProject: (id: string) => Promise<void>;
     renameProject: (id: string, name: string) => Promise<void>;
+    addProjectDocument: (projectId: string, document: ProjectDocument) => Promise<void>;
+    updateProjectDocument: (
+        projectId: string,
+        documentId: string,
+        update: Partial<Pick<ProjectDocument, "enabled" | "name">>
+    ) => Promise<void>;
+    removeProjectDocument: (projectId: string, documentId: string) => Promise<void>;
     setActiveProject: (id: string | null) => void;
 
     // Conversations
@@ -42,25 +58,56 @@ interface ProjectState {
     deleteConversation: (id: string) => Promise<void>;
     renameConversation: (id: string, title: string) => Promise<void>;
     switchConversation: (id: string | null) => void;
+    setConversationModel: (id: string, model: LLMModel | null) => Promise<void>;
 
     // Messages
     addMessage: (
         conversationId: string,
         role: Message["role"],
-        content: string
+        content: string,
+        attachments?: Attachment[]
     ) => Promise<void>;
     appendToLastAssistant: (
         conversationId: string,
         chunk: string
     ) => void;
+    appendReasoningToLastAssistant: (
+        conversationId: string,
+        chunk: string
+    ) => void;
+    updateLastAssistant: (
+        conversationId: string,
+        update: Partial<Omit<Message, "id" | "role">>
+    ) => Promise<void>;
+    appendToCandidate: (
+        conversationId: string,
+        index: number,
+        field: "content" | "reasoning",
+        chunk: string
+    ) => void;
+    updateCandidate: (
+        conversationId: string,
+        index: number,
+        update: Partial<MessageCandidate>
+    ) => Promise<void>;
+    /** Keeps one compared reply as the assistant message; the others' usage stays counted */
+    pickCandidate: (conversationId: string, index: number) => Promise<void>;
 
     // Conversation state
     setPhase: (conversationId: string, phase: ConversationPhase) => Promise<void>;
-    setSpecDoc: (conversationId: string, phase: ConversationPhase, content: string) => Promise<void>;
+    /** `data` is the structured spec the doc was rendered from; edits without it mark the old one stale */
+    setSpecDoc: <P extends ConversationPhase>(
+        conversationId: string,
+        phase: P,
+        content: string,
+        data?: PhaseSpecs[P]
+    ) => Promise<void>;
     setSandboxCode: (
         conversationId: string,
         code: string | null
     ) => Promise<void>;
+    setSummary: (conversationId: string, summary: ConversationSummary) => Promise<void>;
+    addAuxUsage: (conversationId: string, usage: TokenUsage) => Promise<void>;
     setStreaming: (isStreaming: boolean) => void;
     setSidebarOpen: (open: boolean) => void;
 
@@ -80,6 +127,22 @@ function debouncedPersist(fn: () => Promise<void>, delay = 2000) {
     }, delay);
 }
 
+/** Applies `fn` to one candidate of the conversation's last assistant message */
+function mapCandidate(
+    conversation: Conversation,
+    index: number,
+    fn: (candidate: MessageCandidate) => MessageCandidate
+): Conversation {
+    const messages = [...conversation.messages];
+    const last = messages[messages.length - 1];
+    const candidate = last?.role === "assistant" ? last.candidates?.[index] : undefined;
+    if (!candidate) return conversation;
+    const candidates = [...last.candidates!];
+    candidates[index] = fn(candidate);
+    messages[messages.length - 1] = { ...last, candidates };
+    return { ...conversation, messages };
+}
+
 export const useProjectStore = create<ProjectState>((set, get) => ({
     projects: [],
     conversations: [],
@@ -140,6 +203,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     },
 
     deleteProject: async (id) => {
+        deleteAttachments(
+            collectAttachments(
+                get().conversations.filter((c) => c.projectId === id).flatMap((c) => c.messages)
+            )
+        );
         const projects = get().projects.filter((p) => p.id !== id);
         const conversations = get().conversations.filter(
             (c) => c.projectId !== id
@@ -165,6 +233,41 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         await idbSet(DB_PROJECTS_KEY, projects);
     },
 
+    addProjectDocument: async (projectId, document) => {
+        const projects = get().projects.map((p) =>
+            p.id === projectId
+                ? { ...p, documents: [...(p.documents ?? []), document], updatedAt: Date.now() }
+                : p
+        );
+        set({ projects });
+        await idbSet(DB_PROJECTS_KEY, projects);
+    },
+
+    updateProjectDocument: async (projectId, documentId, update) => {
+        const projects = get().projects.map((p) =>
+            p.id === projectId
+                ? {
+                    ...p,
+                    documents: (p.documents ?? []).map((d) =>
+                        d.id === documentId ? { ...d, ...update } : d
+                    ),
+                }
+                : p
+        );
+        set({ projects });
+        await idbSet(DB_PROJECTS_KEY, projects);
+    },
+
+    removeProjectDocument: async (projectId, documentId) => {
+        const projects = get().projects.map((p) =>
+            p.id === projectId
+                ? { ...p, documents: (p.documents ?? []).filter((d) => d.id !== documentId) }
+                : p
+        );
+        set({ projects });
+        await idbSet(DB_PROJECTS_KEY, projects);
+    },
+
     setActiveProject: (id) => {
         set({ activeProjectId: id, activeConversationId: null });
         persistActive(get());
@@ -208,6 +311,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     },
 
     deleteConversation: async (id) => {
+        const removed = get().conversations.find((c) => c.id === id);
+        if (removed) deleteAttachments(collectAttachments(removed.messages));
         const conversations = get().conversations.filter((c) => c.id !== id);
         const update: Partial<ProjectState> = { conversations };
         if (get().activeConversationId === id) {
@@ -242,12 +347,21 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         }
     },
 
-    addMessage: async (conversationId, role, content) => {
+    setConversationModel: async (id, model) => {
+        const conversations = get().conversations.map((c) =>
+            c.id === id ? { ...c, model: model ?? undefined, updatedAt: Date.now() } : c
+        );
+        set({ conversations });
+        await idbSet(DB_CONVERSATIONS_KEY, conversations);
+    },
+
+    addMessage: async (conversationId, role, content, attachments) => {
         const msg: Message = {
             id: uuid(),
             role,
             content,
             timestamp: Date.now(),
+            ...(attachments?.length && { attachments }),
         };
         const conversations = get().conversations.map((c) =>
             c.id === conversationId
@@ -276,30 +390,120 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         debouncedPersist(() => idbSet(DB_CONVERSATIONS_KEY, get().conversations));
     },
 
-    setPhase: async (conversationId, phase) => {
+    appendReasoningToLastAssistant: (conversationId, chunk) => {
+        const conversations = get().conversations.map((c) => {
+            if (c.id !== conversationId) return c;
+            const messages = [...c.messages];
+            const last = messages[messages.length - 1];
+            if (last && last.role === "assistant") {
+                messages[messages.length - 1] = {
+                    ...last,
+                    reasoning: (last.reasoning ?? "") + chunk,
+                };
+            }
+            return { ...c, messages };
+        });
+        set({ conversations });
+        debouncedPersist(() => idbSet(DB_CONVERSATIONS_KEY, get().conversations));
+    },
+
+    updateLastAssistant: async (conversationId, update) => {
+        const conversations = get().conversations.map((c) => {
+            if (c.id !== conversationId) return c;
+            const messages = [...c.messages];
+            const last = messages[messages.length - 1];
+            if (last && last.role === "assistant") {
+                messages[messages.length - 1] = { ...last, ...update };
+            }
+            return { ...c, messages };
+        });
+        set({ conversations });
+        await idbSet(DB_CONVERSATIONS_KEY, conversations);
+    },
+
+    appendToCandidate: (conversationId, index, field, chunk) => {
         const conversations = get().conversations.map((c) =>
             c.id === conversationId
-                ? { ...c, phase, updatedAt: Date.now() }
+                ? mapCandidate(c, index, (cand) => ({ ...cand, [field]: (cand[field] ?? "") + chunk }))
                 : c
         );
         set({ conversations });
+        debouncedPersist(() => idbSet(DB_CONVERSATIONS_KEY, get().conversations));
+    },
+
+    updateCandidate: async (conversationId, index, update) => {
+        const conversations = get().conversations.map((c) =>
+            c.id === conversationId ? mapCandidate(c, index, (cand) => ({ ...cand, ...update })) : c
+        );
+        set({ conversations });
+        await idbSet(DB_CONVERSATIONS_KEY, conversations);
+    },
+
+    pickCandidate: async (conversationId, index) => {
+        const conversations = get().conversations.map((c) => {
+            if (c.id !== conversationId) return c;
+            const messages = [...c.messages];
+            const last = messages[messages.length - 1];
+            const chosen = last?.candidates?.[index];
+            if (!chosen) return c;
+
+            const { candidates, ...message } = last;
+            messages[messages.length - 1] = {
+                ...message,
+                content: chosen.content,
+                model: chosen.model,
+                reasoning: chosen.reasoning,
+                usage: chosen.usage,
+                truncated: chosen.truncated,
+                toolCalls: chosen.toolCalls,
+                thinkingBlocks: chosen.thinkingBlocks,
+            };
+            const discarded = candidates!.filter((_, i) => i !== index).map((cand) => cand.usage);
+            return {
+                ...c,
+                messages,
+                auxUsage: sumUsage([c.auxUsage, ...discarded]),
+                updatedAt: Date.now(),
+            };
+        });
+        set({ conversations });
         await idbSet(DB_CONVERSATIONS_KEY, conversations);
     },
 
-    setSpecDoc: async (conversationId, phase, content) => {
+    setPhase: async (conversationId, phase) => {
         const conversations = get().conversations.map((c) =>
             c.id === conversationId
-                ? {
-                    ...c,
-                    specDocs: { ...c.specDocs, [phase]: content },
-                    updatedAt: Date.now(),
-                }
+                ? { ...c, phase, updatedAt: Date.now() }
                 : c
         );
         set({ conversations });
         await idbSet(DB_CONVERSATIONS_KEY, conversations);
     },
 
+    setSpecDoc: async (conversationId, phase, content, data) => {
+        const conversations = get().conversations.map((c) => {
+            if (c.id !== conversationId) return c;
+            const specData = { ...c.specData };
+            const specDataStale = { ...c.specDataStale };
+            if (data) {
+                specData[phase] = data;
+                delete specDataStale[phase];
+            } else if (specData[phase] && c.specDocs[phase] !== content) {
+                // Kept: the task graph only exists as data, and the exports read it
+                specDataStale[phase] = true;
+            }
+            return {
+                ...c,
+                specDocs: { ...c.specDocs, [phase]: content },
+                specData,
+                specDataStale,
+                updatedAt: Date.now(),
+            };
+        });
+        set({ conversations });
+        await idbSet(DB_CONVERSATIONS_KEY, conversations);
+    },
+
     setSandboxCode: async (conversationId, code) => {
         const conversations = get().conversations.map((c) =>
             c.id === conversationId
@@ -310,6 +514,24 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         await idbSet(DB_CONVERSATIONS_KEY, conversations);
     },
 
+    setSummary: async (conversationId, summary) => {
+        const conversations = get().conversations.map((c) =>
+            c.id === conversationId ? { ...c, summary } : c
+        );
+        set({ conversations });
+        await idbSet(DB_CONVERSATIONS_KEY, conversations);
+    },
+
+    addAuxUsage: async (conversationId, usage) => {
+        const conversations = get().conversations.map((c) =>
+            c.id === conversationId
+                ? { ...c, auxUsage: sumUsage([c.auxUsage, usage]) }
+                : c
+        );
+        set({ conversations });
+        await idbSet(DB_CONVERSATIONS_KEY, conversations);
+    },
+
     setStreaming: (isStreaming) => set({ isStreaming }),
 
     setSidebarOpen: (open) => set({ sidebarOpen: open }),
@@ -1,7 +1,47 @@
 import { create } from "zustand";
-import { LLMModel } from "@/types";
+import { v4 as uuid } from "uuid";
+import {
+    AzureConfig,
+    BuiltInProvider,
+    CustomEndpoint,
+    GenerationParams,
+    LLMModel,
+    ModelCatalog,
+    ModelRouting,
+    ModelTask,
+} from "@/types";
+import {
+    getCustomEndpoint,
+    getModelConfig,
+    listModels,
+    setAzureConfig,
+    setCustomEndpoints,
+    setModelCatalog,
+} from "@/lib/providers/registry";
+import { DEFAULT_AZURE_API_VERSION } from "@/lib/providers/azure";
+import { discoverModels, mergeDiscoveredModels } from "@/lib/model-catalog";
+import type { StreamTarget } from "@/lib/llm-client";
+import { setMockOptions } from "@/lib/mock-provider";
+import { LLM_PROXY_ENABLED } from "@/lib/llm-proxy";
 
-type KeyProvider = "openai" | "gemini" | "anthropic" | "mistral";
+type KeyProvider = BuiltInProvider;
+
+const KEY_PROVIDERS: KeyProvider[] = ["openai", "gemini", "anthropic", "mistral", "openrouter"];
+
+const KEY_FIELDS: Record<KeyProvider, "openaiKey" | "geminiKey" | "anthropicKey" | "mistralKey" | "openrouterKey"> = {
+    openai: "openaiKey",
+    gemini: "geminiKey",
+    anthropic: "anthropicKey",
+    mistral: "mistralKey",
+    openrouter: "openrouterKey",
+};
+
+export interface RefreshModelsResult {
+    /** Newly selectable models */
+    added: number;
+    /** One message per provider that couldn't be listed */
+    errors: string[];
+}
 
 interface SettingsState {
     // API Keys
@@ -9,9 +49,40 @@ interface SettingsState {
     geminiKey: string;
     anthropicKey: string;
     mistralKey: string;
+    openrouterKey: string;
+
+    /** Azure OpenAI resource, with its own key (never proxied) */
+    azure: AzureConfig;
+
+    // User-defined OpenAI-compatible servers
+    customEndpoints: CustomEndpoint[];
 
     // Model selection
     activeLLMModel: LLMModel;
+    /** Models discovered from the providers, on top of the built-in list */
+    modelCatalog: ModelCatalog;
+    /** Models whose reasoning / thinking stream is captured and shown */
+    reasoningModels: LLMModel[];
+    /** Models for specific tasks, e.g. a cheap one for brainstorming and a strong one for specs */
+    modelRouting: ModelRouting;
+    /** Generation parameter overrides per model, then per task (task settings win) */
+    modelParams: Partial<Record<LLMModel, GenerationParams>>;
+    taskParams: Partial<Record<ModelTask, GenerationParams>>;
+    /** Models compared against the active one in compare mode */
+    compareModels: LLMModel[];
+
+    // Reliability
+    /** Ordered models to fail over to when the active one keeps failing */
+    fallbackModels: LLMModel[];
+    maxRetries: number;
+    /** Automatically ask for the rest of a reply that hit the output limit */
+    autoContinue: boolean;
+
+    // Mock provider
+    /** Capture real responses into a transcript (not persisted) */
+    recordTranscripts: boolean;
+    /** Transcript played back by the mock-replay model */
+    replayTranscriptId: string | null;
 
     // Derived
     isConfigured: boolean;
@@ -19,27 +90,69 @@ interface SettingsState {
     // Actions
     setKey: (provider: KeyProvider, value: string) => void;
     setLLMModel: (model: LLMModel) => void;
+    /** Re-lists the models of every configured provider */
+    refreshModels: () => Promise<RefreshModelsResult>;
+    setReasoningEnabled: (model: LLMModel, enabled: boolean) => void;
+    setTaskModel: (task: ModelTask, model: LLMModel | null) => void;
+    /** Empty params clear the override */
+    setModelParams: (model: LLMModel, params: GenerationParams) => void;
+    setTaskParams: (task: ModelTask, params: GenerationParams) => void;
+    setCompareModels: (models: LLMModel[]) => void;
+    setFallbackModels: (models: LLMModel[]) => void;
+    setMaxRetries: (retries: number) => void;
+    setAutoContinue: (enabled: boolean) => void;
+    setRecordTranscripts: (enabled: boolean) => void;
+    setReplayTranscriptId: (id: string | null) => void;
+    addCustomEndpoint: (endpoint: Omit<CustomEndpoint, "id">) => CustomEndpoint;
+    updateCustomEndpoint: (id: string, update: Partial<Omit<CustomEndpoint, "id">>) => void;
+    removeCustomEndpoint: (id: string) => void;
+    setAzureConfig: (update: Partial<AzureConfig>) => void;
     clearKeys: () => void;
     loadFromStorage: () => void;
 
     // Helpers
-    getKeyForProvider: (provider: "openai" | "gemini" | "anthropic" | "mistral") => string;
+    getKeyForProvider: (provider: KeyProvider) => string;
+    getKeyForModel: (model: LLMModel) => string;
     hasKeyForModel: (model: LLMModel) => boolean;
+    /** The routed model for `task`, else `base` (e.g. the conversation's model), else the active model */
+    getModelForTask: (task: ModelTask, base?: LLMModel) => LLMModel;
+    /** Overrides for `model` doing `task` */
+    getParams: (model: LLMModel, task: ModelTask) => GenerationParams;
+    /** Configured fallbacks usable for `primary`, with their keys */
+    getFallbackChain: (primary: LLMModel) => StreamTarget[];
 }
 
 const STORAGE_KEY = "vibe-architect-settings";
+const DEFAULT_MODEL: LLMModel = "gpt-5.2-high";
+const DEFAULT_MAX_RETRIES = 3;
+const EMPTY_CATALOG: ModelCatalog = { models: [], retired: [] };
+const EMPTY_AZURE: AzureConfig = {
+    resourceName: "",
+    apiVersion: DEFAULT_AZURE_API_VERSION,
+    apiKey: "",
+    deployments: [],
+};
 
 function computeIsConfigured(state: {
     openaiKey: string;
     geminiKey: string;
     anthropicKey: string;
     mistralKey: string;
+    openrouterKey: string;
+    azure: AzureConfig;
+    customEndpoints: CustomEndpoint[];
+    activeLLMModel: LLMModel;
 }): boolean {
     return (
+        LLM_PROXY_ENABLED ||
+        getModelConfig(state.activeLLMModel)?.provider === "mock" ||
         state.openaiKey.length > 0 ||
         state.geminiKey.length > 0 ||
         state.anthropicKey.length > 0 ||
-        state.mistralKey.length > 0
+        state.mistralKey.length > 0 ||
+        state.openrouterKey.length > 0 ||
+        (state.azure.apiKey.length > 0 && state.azure.deployments.length > 0) ||
+        state.customEndpoints.some((e) => e.models.length > 0)
     );
 }
 
@@ -48,46 +161,160 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     geminiKey: "",
     anthropicKey: "",
     mistralKey: "",
-    activeLLMModel: "gpt-5.2-high",
+    openrouterKey: "",
+    azure: EMPTY_AZURE,
+    customEndpoints: [],
+    activeLLMModel: DEFAULT_MODEL,
+    modelCatalog: EMPTY_CATALOG,
+    reasoningModels: [],
+    modelRouting: {},
+    modelParams: {},
+    taskParams: {},
+    compareModels: [],
+    fallbackModels: [],
+    maxRetries: DEFAULT_MAX_RETRIES,
+    autoContinue: true,
+    recordTranscripts: false,
+    replayTranscriptId: null,
     isConfigured: false,
 
     setKey: (provider, value) => {
-        const keyMap: Record<KeyProvider, string> = {
-            openai: "openaiKey",
-            gemini: "geminiKey",
-            anthropic: "anthropicKey",
-            mistral: "mistralKey",
-        };
-        const update = { [keyMap[provider]]: value };
+        const update = { [KEY_FIELDS[provider]]: value };
         const state = { ...get(), ...update };
         set({
             ...update,
-            isConfigured: computeIsConfigured(
-                state as typeof state & {
-                    openaiKey: string;
-                    geminiKey: string;
-                    anthropicKey: string;
-                    mistralKey: string;
-                }
-            ),
+            isConfigured: computeIsConfigured(state),
         });
         persistSettings({ ...get(), ...update });
     },
 
     setLLMModel: (model) => {
-        set({ activeLLMModel: model });
+        set({
+            activeLLMModel: model,
+            isConfigured: computeIsConfigured({ ...get(), activeLLMModel: model }),
+        });
         persistSettings({ ...get(), activeLLMModel: model });
     },
 
+    refreshModels: async () => {
+        const s = get();
+        const providers = KEY_PROVIDERS.filter((p) => LLM_PROXY_ENABLED || s.getKeyForProvider(p));
+        const before = new Set(listModels().map((m) => m.id));
+
+        const results = await Promise.allSettled(
+            providers.map((p) => discoverModels(p, s.getKeyForProvider(p)))
+        );
+        let catalog = get().modelCatalog;
+        const errors: string[] = [];
+        results.forEach((result, i) => {
+            if (result.status === "fulfilled") {
+                catalog = mergeDiscoveredModels(catalog, providers[i], result.value);
+            } else {
+                const reason = result.reason;
+                errors.push(reason instanceof Error ? reason.message : String(reason));
+            }
+        });
+
+        setModelCatalog(catalog);
+        set({ modelCatalog: catalog });
+        persistSettings({ ...get(), modelCatalog: catalog });
+        return { added: listModels().filter((m) => !before.has(m.id)).length, errors };
+    },
+
+    setReasoningEnabled: (model, enabled) => {
+        const others = get().reasoningModels.filter((m) => m !== model);
+        const reasoningModels = enabled ? [...others, model] : others;
+        set({ reasoningModels });
+        persistSettings({ ...get(), reasoningModels });
+    },
+
+    setTaskModel: (task, model) => {
+        const modelRouting = { ...get().modelRouting };
+        if (model) {
+            modelRouting[task] = model;
+        } else {
+            delete modelRouting[task];
+        }
+        set({ modelRouting });
+        persistSettings({ ...get(), modelRouting });
+    },
+
+    setModelParams: (model, params) => {
+        const modelParams = withParams(get().modelParams, model, params);
+        set({ modelParams });
+        persistSettings({ ...get(), modelParams });
+    },
+
+    setTaskParams: (task, params) => {
+        const taskParams = withParams(get().taskParams, task, params);
+        set({ taskParams });
+        persistSettings({ ...get(), taskParams });
+    },
+
+    setCompareModels: (models) => {
+        set({ compareModels: models });
+        persistSettings({ ...get(), compareModels: models });
+    },
+
+    setFallbackModels: (models) => {
+        set({ fallbackModels: models });
+        persistSettings({ ...get(), fallbackModels: models });
+    },
+
+    setMaxRetries: (retries) => {
+        set({ maxRetries: retries });
+        persistSettings({ ...get(), maxRetries: retries });
+    },
+
+    setAutoContinue: (enabled) => {
+        set({ autoContinue: enabled });
+        persistSettings({ ...get(), autoContinue: enabled });
+    },
+
+    setRecordTranscripts: (enabled) => {
+        set({ recordTranscripts: enabled });
+        setMockOptions({ recording: enabled, replayTranscriptId: get().replayTranscriptId });
+    },
+
+    setReplayTranscriptId: (id) => {
+        set({ replayTranscriptId: id });
+        setMockOptions({ recording: get().recordTranscripts, replayTranscriptId: id });
+        persistSettings({ ...get(), replayTranscriptId: id });
+    },
+
+    addCustomEndpoint: (endpoint) => {
+        const created: CustomEndpoint = { ...endpoint, id: uuid() };
+        applyCustomEndpoints([...get().customEndpoints, created]);
+        return created;
+    },
+
+    updateCustomEndpoint: (id, update) => {
+        applyCustomEndpoints(
+            get().customEndpoints.map((e) => (e.id === id ? { ...e, ...update } : e))
+        );
+    },
+
+    removeCustomEndpoint: (id) => {
+        applyCustomEndpoints(get().customEndpoints.filter((e) => e.id !== id));
+    },
+
+    setAzureConfig: (update) => {
+        applyAzureConfig({ ...get().azure, ...update });
+    },
+
     clearKeys: () => {
         set({
             openaiKey: "",
             geminiKey: "",
             anthropicKey: "",
             mistralKey: "",
-            isConfigured: false,
+            openrouterKey: "",
         });
-        localStorage.removeItem(STORAGE_KEY);
+        applyAzureConfig({ ...get().azure, apiKey: "" });
+        // Keep custom endpoints but drop their credentials too
+        applyCustomEndpoints(
+            get().customEndpoints.map((e) => ({ ...e, apiKey: "" }))
+        );
     },
 
     loadFromStorage: () => {
@@ -95,13 +322,32 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
             const stored = localStorage.getItem(STORAGE_KEY);
             if (stored) {
                 const p = JSON.parse(stored);
+                // Keys saved before proxy mode was enabled are ignored (and dropped on the next save)
+                const keys = LLM_PROXY_ENABLED ? {} : p;
                 const state = {
-                    openaiKey: p.openaiKey || "",
-                    geminiKey: p.geminiKey || "",
-                    anthropicKey: p.anthropicKey || "",
-                    mistralKey: p.mistralKey || "",
-                    activeLLMModel: p.activeLLMModel || "gpt-5.2-high",
+                    openaiKey: keys.openaiKey || "",
+                    geminiKey: keys.geminiKey || "",
+                    anthropicKey: keys.anthropicKey || "",
+                    mistralKey: keys.mistralKey || "",
+                    openrouterKey: keys.openrouterKey || "",
+                    azure: isAzureConfig(p.azure) ? p.azure : EMPTY_AZURE,
+                    customEndpoints: Array.isArray(p.customEndpoints) ? p.customEndpoints : [],
+                    activeLLMModel: p.activeLLMModel || DEFAULT_MODEL,
+                    modelCatalog: isModelCatalog(p.modelCatalog) ? p.modelCatalog : EMPTY_CATALOG,
+                    reasoningModels: Array.isArray(p.reasoningModels) ? p.reasoningModels : [],
+                    modelRouting: p.modelRouting && typeof p.modelRouting === "object" ? p.modelRouting : {},
+                    modelParams: p.modelParams && typeof p.modelParams === "object" ? p.modelParams : {},
+                    taskParams: p.taskParams && typeof p.taskParams === "object" ? p.taskParams : {},
+                    compareModels: Array.isArray(p.compareModels) ? p.compareModels : [],
+                    fallbackModels: Array.isArray(p.fallbackModels) ? p.fallbackModels : [],
+                    maxRetries: typeof p.maxRetries === "number" ? p.maxRetries : DEFAULT_MAX_RETRIES,
+                    autoContinue: p.autoContinue !== false,
+                    replayTranscriptId: typeof p.replayTranscriptId === "string" ? p.replayTranscriptId : null,
                 };
+                setCustomEndpoints(state.customEndpoints);
+                setAzureConfig(state.azure);
+                setModelCatalog(state.modelCatalog);
+                setMockOptions({ recording: false, replayTranscriptId: state.replayTranscriptId });
                 set({
                     ...state,
                     isConfigured: computeIsConfigured(state),
@@ -112,27 +358,105 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
         }
     },
 
-    getKeyForProvider: (provider) => {
-        const s = get();
-        return provider === "openai"
-            ? s.openaiKey
-            : provider === "gemini"
-                ? s.geminiKey
-                : provider === "anthropic"
-                    ? s.anthropicKey
-                    : s.mistralKey;
+    getKeyForProvider: (provider) => get()[KEY_FIELDS[provider]],
+
+    getKeyForModel: (model) => {
+        const config = getModelConfig(model);
+        if (!config) return "";
+        if (config.provider === "custom") {
+            return (config.endpointId && getCustomEndpoint(config.endpointId)?.apiKey) || "";
+        }
+        if (config.provider === "azure") return get().azure.apiKey;
+        if (config.provider === "mock" || LLM_PROXY_ENABLED) return "";
+        return get().getKeyForProvider(config.provider);
     },
 
     hasKeyForModel: (model) => {
+        const config = getModelConfig(model);
+        if (!config) return false;
+        // Custom endpoints are usually local servers that need no key; mocks never do
+        if (config.provider === "custom" || config.provider === "mock") return true;
+        // Azure is called direct even in proxy mode
+        if (config.provider === "azure") return get().azure.apiKey.length > 0;
+        // The proxy holds the keys; providers it lacks fail over like any other error
+        if (LLM_PROXY_ENABLED) return true;
+        return get().getKeyForProvider(config.provider).length > 0;
+    },
+
+    getModelForTask: (task, base) => {
         const s = get();
-        if (model.startsWith("gpt-")) return s.openaiKey.length > 0;
-        if (model.startsWith("gemini")) return s.geminiKey.length > 0;
-        if (model.startsWith("claude")) return s.anthropicKey.length > 0;
-        if (model.startsWith("mistral")) return s.mistralKey.length > 0;
-        return false;
+        // Models that were removed or lost their key are skipped
+        return [s.modelRouting[task], base].find((m) => m && s.hasKeyForModel(m)) ?? s.activeLLMModel;
+    },
+
+    getParams: (model, task) => {
+        const s = get();
+        return { ...s.modelParams[model], ...s.taskParams[task] };
+    },
+
+    getFallbackChain: (primary) => {
+        const s = get();
+        return s.fallbackModels
+            .filter((m) => m !== primary && getModelConfig(m) && s.hasKeyForModel(m))
+            .map((model) => ({ model, apiKey: s.getKeyForModel(model) }));
     },
 }));
 
+function applyCustomEndpoints(customEndpoints: CustomEndpoint[]) {
+    setCustomEndpoints(customEndpoints);
+    const state = useSettingsStore.getState();
+    const update: Partial<SettingsState> = {
+        customEndpoints,
+        isConfigured: computeIsConfigured({ ...state, customEndpoints }),
+    };
+    // Fall back to the default model if the active one was removed
+    if (!getModelConfig(state.activeLLMModel)) {
+        update.activeLLMModel = DEFAULT_MODEL;
+    }
+    useSettingsStore.setState(update);
+    persistSettings({ ...useSettingsStore.getState() });
+}
+
+function applyAzureConfig(azure: AzureConfig) {
+    setAzureConfig(azure);
+    const state = useSettingsStore.getState();
+    const update: Partial<SettingsState> = {
+        azure,
+        isConfigured: computeIsConfigured({ ...state, azure }),
+    };
+    // Fall back to the default model if the active one's deployment was removed
+    if (!getModelConfig(state.activeLLMModel)) {
+        update.activeLLMModel = DEFAULT_MODEL;
+    }
+    useSettingsStore.setState(update);
+    persistSettings({ ...useSettingsStore.getState() });
+}
+
+function withParams<K extends string>(
+    current: Partial<Record<K, GenerationParams>>,
+    key: K,
+    params: GenerationParams
+): Partial<Record<K, GenerationParams>> {
+    const next = { ...current };
+    const defined = Object.fromEntries(Object.entries(params).filter(([, v]) => v !== undefined));
+    if (Object.keys(defined).length > 0) {
+        next[key] = defined;
+    } else {
+        delete next[key];
+    }
+    return next;
+}
+
+function isModelCatalog(value: unknown): value is ModelCatalog {
+    const catalog = value as ModelCatalog | undefined;
+    return Array.isArray(catalog?.models) && Array.isArray(catalog?.retired);
+}
+
+function isAzureConfig(value: unknown): value is AzureConfig {
+    const azure = value as AzureConfig | undefined;
+    return typeof azure?.resourceName === "string" && typeof azure.apiKey === "string" && Array.isArray(azure.deployments);
+}
+
 function persistSettings(state: Record<string, unknown>) {
     try {
         localStorage.setItem(
@@ -142,7 +466,20 @@ function persistSettings(state: Record<string, unknown>) {
                 geminiKey: state.geminiKey,
                 anthropicKey: state.anthropicKey,
                 mistralKey: state.mistralKey,
+                openrouterKey: state.openrouterKey,
+                azure: state.azure,
+                customEndpoints: state.customEndpoints,
                 activeLLMModel: state.activeLLMModel,
+                modelCatalog: state.modelCatalog,
+                reasoningModels: state.reasoningModels,
+                modelRouting: state.modelRouting,
+                modelParams: state.modelParams,
+                taskParams: state.taskParams,
+                compareModels: state.compareModels,
+                fallbackModels: state.fallbackModels,
+                maxRetries: state.maxRetries,
+                autoContinue: state.autoContinue,
+                replayTranscriptId: state.replayTranscriptId,
             })
         );
     } catch {
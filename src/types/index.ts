@@ -2,10 +2,25 @@ export interface Project {
   id: string;
   name: string;
   description: string;
+  /** Reference documents shared by every conversation in the project */
+  documents?: ProjectDocument[];
   createdAt: number;
   updatedAt: number;
 }
 
+/** A PRD, meeting notes etc. whose extracted text is sent as context */
+export interface ProjectDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  /** Plain text extracted when the document was added */
+  text: string;
+  tokenEstimate: number;
+  /** Disabled documents stay on the project but aren't sent */
+  enabled: boolean;
+  addedAt: number;
+}
+
 export interface Conversation {
   id: string;
   projectId: string;
@@ -14,26 +29,240 @@ export interface Conversation {
   messages: Message[];
   sandboxCode: string | null;
   specDocs: Partial<Record<ConversationPhase, string>>;
+  /** The structured spec each doc in `specDocs` was rendered from, if it parsed */
+  specData?: Partial<PhaseSpecs>;
+  /** Phases whose doc was edited after `specData` was rendered, so the two may disagree */
+  specDataStale?: Partial<Record<ConversationPhase, boolean>>;
+  /** Chat model picked for this conversation; unset follows the settings */
+  model?: LLMModel;
+  /** Usage from calls that don't produce a chat message (e.g. preview generation) */
+  auxUsage?: TokenUsage;
+  summary?: ConversationSummary;
   createdAt: number;
   updatedAt: number;
 }
 
 export type ConversationPhase = "vision" | "design" | "stack" | "export";
 
+/** Locked specs as structured data, one shape per phase */
+export interface VisionSpec {
+  projectName: string;
+  /** One-line description */
+  tagline: string;
+  problem: string;
+  targetUsers: string[];
+  /** In priority order */
+  mvpFeatures: { name: string; description: string }[];
+  cutFeatures: { name: string; reason: string }[];
+  successMetrics: string[];
+}
+
+export interface DesignSpec {
+  name: string;
+  vibe: string;
+  typography: { role: string; family: string; weight: string; size: string }[];
+  colors: { token: string; hex: string; usage: string }[];
+  spacing: string[];
+  radius: { token: string; value: string }[];
+  components: { name: string; rules: string }[];
+  motion: string[];
+}
+
+export interface StackSpec {
+  /** Frontend, backend, database, auth, hosting… */
+  choices: { layer: string; technology: string; rationale: string }[];
+  integrations: string[];
+  tooling: string[];
+  /** Tree of the main folders, one per line */
+  folderStructure: string;
+}
+
+/** A node of the implementation task graph, sized for one coding-agent session */
+export interface ImplementationTask {
+  /** e.g. "T3" */
+  id: string;
+  title: string;
+  description: string;
+  files: string[];
+  acceptanceCriteria: string[];
+  /** e.g. "2h", "1d" */
+  estimate: string;
+  /** IDs of the tasks that must be done first */
+  dependsOn: string[];
+}
+
+export interface ImplementationSpec {
+  steps: { title: string; description: string; files: string[] }[];
+  /** In dependency order, without cycles */
+  tasks: ImplementationTask[];
+  dataModels: { name: string; fields: string[] }[];
+  apiRoutes: { method: string; path: string; description: string }[];
+  stateManagement: string;
+  testing: string[];
+  deployment: string[];
+}
+
+export interface PhaseSpecs {
+  vision: VisionSpec;
+  design: DesignSpec;
+  stack: StackSpec;
+  export: ImplementationSpec;
+}
+
+/** What an LLM call is for: chat turns in a phase, lock-time specs, preview code or summaries */
+export type ModelTask = `chat:${ConversationPhase}` | "spec" | "preview" | "summary";
+
+/** Per-task model choices; tasks without one use the active model */
+export type ModelRouting = Partial<Record<ModelTask, LLMModel>>;
+
+export type ReasoningEffort = "low" | "medium" | "high" | "xhigh";
+
+/** Sampling and length overrides for a request; unset fields keep the provider defaults */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  /** Capped at the model's `maxTokens` */
+  maxTokens?: number;
+  /** OpenAI reasoning models only */
+  reasoningEffort?: ReasoningEffort;
+}
+
 export interface Message {
   id: string;
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: number;
+  /** Model that wrote this reply (the fallback, if one took over) */
+  model?: LLMModel;
+  /** Token usage reported by the provider (assistant messages only) */
+  usage?: TokenUsage;
+  /** Number of earlier messages replaced by the running summary for this reply */
+  compactedCount?: number;
+  /** Of those, how many were left out entirely because the summary couldn't be updated */
+  omittedCount?: number;
+  /** Estimated tokens the request was still over the model's input budget by, after compacting */
+  overBudgetTokens?: number;
+  /** The summary + locked specs standing in for compacted turns; never stored */
+  contextPreamble?: boolean;
+  /** The provider stopped at its output token limit before finishing */
+  truncated?: boolean;
+  /** Reasoning summary / thinking trace streamed before the answer */
+  reasoning?: string;
+  /** Images attached to a user message */
+  attachments?: Attachment[];
+  /** Replies from several models to compare; the user keeps one as this message */
+  candidates?: MessageCandidate[];
+  /** Architect tools called in this reply, in order */
+  toolCalls?: ToolCall[];
+  /** Signed thinking from before the tool calls; Anthropic needs it back with them */
+  thinkingBlocks?: ThinkingBlock[];
+  /** Set on the reply that generated this phase's spec document */
+  specPhase?: ConversationPhase;
+  /** Fields fixed up when the spec's JSON was checked against its schema */
+  specRepairs?: string[];
+}
+
+/** One model's reply in a compared turn */
+export interface MessageCandidate {
+  model: LLMModel;
+  content: string;
+  reasoning?: string;
+  usage?: TokenUsage;
+  truncated?: boolean;
+  /** Recorded while streaming; they take effect once the reply is kept */
+  toolCalls?: ToolCall[];
+  thinkingBlocks?: ThinkingBlock[];
+  /** Still streaming; cleared when this column finishes, whatever the others do */
+  streaming?: boolean;
+}
+
+/** An image attached to a message; the bytes live in IndexedDB under `id` */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/** Why a response ended, normalized across APIs ("aborted" = stopped by the user) */
+export type StopReason = "complete" | "max_tokens" | "content_filter" | "aborted" | "other";
+
+/** A function call requested by the model, with its JSON-encoded arguments */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+  /** What the app reported back; sent with the call in later requests */
+  result?: string;
+}
+
+/** An Anthropic extended thinking block, kept verbatim since its signature covers it */
+export type ThinkingBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+/** A function the model may call; `parameters` is a JSON Schema object */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** Constrains a reply to JSON matching `schema` (a JSON Schema object) */
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/** LLM-written digest of messages that no longer fit the context window */
+export interface ConversationSummary {
+  content: string;
+  /** Id of the last message folded into the summary */
+  throughMessageId: string;
+  /** How many leading messages the summary covers */
+  messageCount: number;
+  updatedAt: number;
+}
+
+export interface TokenUsage {
+  /** All prompt tokens, including cached ones */
+  inputTokens: number;
+  /** All completion tokens, including reasoning ones */
+  outputTokens: number;
+  /** Subset of `inputTokens` served from the provider's prompt cache */
+  cachedInputTokens?: number;
+  /** Subset of `inputTokens` written to the prompt cache (billed at a premium) */
+  cacheWriteTokens?: number;
+  /** Subset of `outputTokens` spent on hidden reasoning */
+  reasoningTokens?: number;
+  /** USD cost at the time of the request, if the model has a price table */
+  costUsd?: number;
+}
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cachedInput?: number;
+  /** Prompt cache writes, where billed separately (Anthropic) */
+  cacheWrite?: number;
 }
 
 
 
 // LLM providers for text chat and the ASR+TTS pipeline
-export type LLMProvider = "openai" | "gemini" | "anthropic" | "mistral";
+export type BuiltInProvider = "openai" | "gemini" | "anthropic" | "mistral" | "openrouter";
+
+/**
+ * `azure` serves the deployments on the user's Azure OpenAI resource;
+ * `custom` covers user-defined OpenAI-compatible endpoints (Ollama, vLLM, LM Studio...);
+ * `mock` serves scripted or recorded responses without a network
+ */
+export type LLMProvider = BuiltInProvider | "azure" | "custom" | "mock";
 
 // Specific models
-export type LLMModel =
+export type BuiltInLLMModel =
   | "gpt-5.2-high"
   | "gpt-5.2-medium"
   | "gpt-5.2-xhigh"
@@ -42,88 +271,251 @@ export type LLMModel =
   | "claude-opus-4.6"
   | "claude-sonnet-4.5"
   | "mistral-medium-3.1"
-  | "mistral-small-3.2";
+  | "mistral-small-3.2"
+  | "openrouter-auto";
+
+/** Azure deployments are addressed as `azure:<deployment>` */
+export type AzureLLMModel = `azure:${string}`;
+
+/** Models served by a custom endpoint are addressed as `custom:<endpointId>/<apiModel>` */
+export type CustomLLMModel = `custom:${string}`;
+
+/** Models found by refreshing the catalog are addressed as `<provider>:<apiModel>` */
+export type DiscoveredLLMModel = `${BuiltInProvider}:${string}`;
+
+/** Offline models: canned architect replies, or replay of a recorded transcript */
+export type MockLLMModel = "mock-scripted" | "mock-replay";
+
+export type LLMModel =
+  | BuiltInLLMModel
+  | AzureLLMModel
+  | CustomLLMModel
+  | DiscoveredLLMModel
+  | MockLLMModel;
 
 export interface LLMModelConfig {
   id: LLMModel;
   name: string;
   provider: LLMProvider;
+  /** Max output tokens per request */
   maxTokens: number;
+  /** Total tokens (input + output) the model can attend to */
+  contextWindow?: number;
   /** The actual model ID sent to the API (if different from `id`) */
   apiModel?: string;
   /** Reasoning effort level for OpenAI reasoning models */
   reasoningEffort?: "medium" | "high" | "xhigh";
+  /** Can stream a reasoning summary / thinking trace when asked */
+  supportsReasoning?: boolean;
+  /** Accepts image input */
+  supportsVision?: boolean;
+  /** Custom endpoint serving this model (only for `custom` provider) */
+  endpointId?: string;
+  pricing?: ModelPricing;
+}
+
+export interface CustomEndpointModel {
+  /** Model name as the server expects it, e.g. `llama3.1:70b` */
+  apiModel: string;
+  name: string;
+  maxTokens: number;
+  contextWindow?: number;
+}
+
+/** A user-defined server that speaks the OpenAI chat completions protocol */
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  /** Base URL including the version prefix, e.g. `http://localhost:11434/v1` */
+  baseUrl: string;
+  /** Optional — most local servers accept any or no key */
+  apiKey: string;
+  models: CustomEndpointModel[];
 }
 
+/** A model deployed on the Azure OpenAI resource */
+export interface AzureDeployment {
+  /** Deployment name as created in Azure, e.g. `gpt-4o-prod` */
+  deployment: string;
+  name: string;
+  maxTokens: number;
+  contextWindow?: number;
+  /** o-series / GPT-5 deployments, which take a reasoning effort instead of a temperature */
+  reasoning?: boolean;
+  supportsVision?: boolean;
+}
+
+/** The user's Azure OpenAI resource. Deployments stand in for model names. */
+export interface AzureConfig {
+  /** The `<resource>` in `https://<resource>.openai.azure.com` */
+  resourceName: string;
+  /** Data-plane API version, e.g. `2025-04-01-preview` */
+  apiVersion: string;
+  apiKey: string;
+  deployments: AzureDeployment[];
+}
+
+/** Models discovered from the providers' model-listing endpoints */
+export interface ModelCatalog {
+  /** Discovered models not in `LLM_MODELS`, including retired ones */
+  models: LLMModelConfig[];
+  /**
+   * Built-in or discovered models the provider no longer lists. They're hidden
+   * from the pickers but still resolve, so old references keep working.
+   */
+  retired: LLMModel[];
+  refreshedAt?: number;
+}
+
+/** One provider response captured while recording */
+export interface RecordedResponse {
+  /** Adapter whose stream parser understands `chunks` */
+  adapterId: string;
+  model: LLMModel;
+  /** Last user message of the request, used to match it on replay */
+  prompt: string;
+  /** The raw SSE response body, as it arrived */
+  chunks: string[];
+}
+
+/** A recorded session, replayed by the `mock-replay` model */
+export interface Transcript {
+  id: string;
+  name: string;
+  createdAt: number;
+  responses: RecordedResponse[];
+}
+
+/** Built-in model catalog. Custom endpoint models are merged in by the provider registry. */
 export const LLM_MODELS: LLMModelConfig[] = [
   {
     id: "gpt-5.2-high",
     name: "GPT-5.2 (High)",
     provider: "openai",
     maxTokens: 128000,
+    contextWindow: 400000,
     apiModel: "gpt-5.2",
     reasoningEffort: "high",
+    supportsReasoning: true,
+    supportsVision: true,
+    pricing: { input: 1.75, output: 14, cachedInput: 0.175 },
   },
   {
     id: "gpt-5.2-medium",
     name: "GPT-5.2 (Medium)",
     provider: "openai",
     maxTokens: 128000,
+    contextWindow: 400000,
     apiModel: "gpt-5.2",
     reasoningEffort: "medium",
+    supportsReasoning: true,
+    supportsVision: true,
+    pricing: { input: 1.75, output: 14, cachedInput: 0.175 },
   },
   {
     id: "gpt-5.2-xhigh",
     name: "GPT-5.2 (XHigh)",
     provider: "openai",
     maxTokens: 128000,
+    contextWindow: 400000,
     apiModel: "gpt-5.2",
     reasoningEffort: "xhigh",
+    supportsReasoning: true,
+    supportsVision: true,
+    pricing: { input: 1.75, output: 14, cachedInput: 0.175 },
   },
   {
     id: "gemini-3-pro",
     name: "Gemini 3 Pro",
     provider: "gemini",
     maxTokens: 65000,
+    contextWindow: 1048576,
     apiModel: "gemini-3-pro-preview",
+    supportsReasoning: true,
+    supportsVision: true,
+    pricing: { input: 2, output: 12, cachedInput: 0.2 },
   },
   {
     id: "gemini-3-flash",
     name: "Gemini 3 Flash",
     provider: "gemini",
     maxTokens: 65536,
+    contextWindow: 1048576,
     apiModel: "gemini-3-flash-preview",
+    supportsReasoning: true,
+    supportsVision: true,
+    pricing: { input: 0.5, output: 3, cachedInput: 0.05 },
   },
   {
     id: "claude-opus-4.6",
     name: "Claude Opus 4.6",
     provider: "anthropic",
     maxTokens: 128000,
+    contextWindow: 200000,
     apiModel: "claude-opus-4-6",
+    supportsReasoning: true,
+    supportsVision: true,
+    pricing: { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 },
   },
   {
     id: "claude-sonnet-4.5",
     name: "Claude Sonnet 4.5",
     provider: "anthropic",
     maxTokens: 64000,
+    contextWindow: 200000,
     apiModel: "claude-sonnet-4-5-20250929",
+    supportsReasoning: true,
+    supportsVision: true,
+    pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
   },
   {
     id: "mistral-medium-3.1",
     name: "Mistral Medium 3.1",
     provider: "mistral",
     maxTokens: 8192,
+    contextWindow: 128000,
     apiModel: "mistral-medium-latest",
+    supportsVision: true,
+    pricing: { input: 0.4, output: 2 },
   },
   {
     id: "mistral-small-3.2",
     name: "Mistral Small 3.2",
     provider: "mistral",
     maxTokens: 8192,
+    contextWindow: 128000,
     apiModel: "mistral-small-latest",
+    supportsVision: true,
+    pricing: { input: 0.1, output: 0.3 },
+  },
+  {
+    // Routes each request to a model picked by OpenRouter, so limits and pricing vary
+    id: "openrouter-auto",
+    name: "OpenRouter Auto",
+    provider: "openrouter",
+    maxTokens: 8192,
+    contextWindow: 128000,
+    apiModel: "openrouter/auto",
   },
 ];
 
-export function getModelConfig(id: LLMModel): LLMModelConfig {
-  return LLM_MODELS.find((m) => m.id === id)!;
-}
+/** Always available, no key needed. Listed after the real models. */
+export const MOCK_MODELS: LLMModelConfig[] = [
+  {
+    id: "mock-scripted",
+    name: "Mock (Scripted)",
+    provider: "mock",
+    maxTokens: 8192,
+    contextWindow: 128000,
+    supportsReasoning: true,
+    supportsVision: true,
+  },
+  {
+    id: "mock-replay",
+    name: "Mock (Replay transcript)",
+    provider: "mock",
+    maxTokens: 8192,
+    contextWindow: 128000,
+    supportsVision: true,
+  },
+];